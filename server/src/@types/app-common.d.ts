@@ -96,6 +96,38 @@ export declare namespace appCommonTypes {
 
   type CustomJwtPayload = JwtPayload & AuthPayload;
 
+  type SocketUser = {
+    userId: string;
+    userType: 'user' | 'customer' | 'rider';
+    permissions: IPermission[];
+  };
+
+  type NotificationRecipient = {
+    id: any;
+    type: SocketUser['userType'];
+    phone?: string | null;
+    email?: string | null;
+  };
+
+  type NotificationMessage = {
+    title: string;
+    body: string;
+    data?: Record<string, any>;
+    socketEvent?: string;
+    socketPayload?: any;
+  };
+
+  interface NotificationChannel {
+    readonly name: string;
+    send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean>;
+  }
+
+  type PushResult = 'sent' | 'invalid' | 'failed';
+
+  interface PushProvider {
+    send(token: string, message: NotificationMessage): Promise<PushResult>;
+  }
+
   type AppRequestParams = {
     customerId: string;
     appointmentId: string;
@@ -125,8 +157,10 @@ export declare namespace appCommonTypes {
       port: string;
       env: string;
       apiRoot?: string;
+      nodeId: string;
     };
     jwt: { key: string; expiry: string };
+    quote: { key: string };
     twilio: {
       twilioSid: string;
       twilioAuthToken: string;
@@ -179,6 +213,43 @@ export declare namespace appCommonTypes {
     },
     rabbitMq: {
       connection: string
+    },
+    dispatch: {
+      offerTimeout: number
+    },
+    schedule: {
+      leadTime: number,
+      reminderLeadTime: number,
+      serviceStartHour: number,
+      serviceEndHour: number,
+      maxDaysAhead: number
+    },
+    locationHistory: {
+      retentionDays: number
+    },
+    chat: {
+      closeAfter: number
+    },
+    messaging: {
+      defaultLocale: string,
+      locales: string[]
+    },
+    notification: {
+      driver: string,
+      fakeFile: string,
+      fakeFailing: string[],
+      fcm: {
+        projectId: string,
+        clientEmail: string,
+        privateKey: string
+      },
+      apns: {
+        keyId: string,
+        teamId: string,
+        bundleId: string,
+        privateKey: string,
+        production: boolean
+      }
     }
   }
 
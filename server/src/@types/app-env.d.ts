@@ -4,6 +4,7 @@ declare namespace NodeJS {
     NODE_ENV: 'development' | 'production' | 'test';
     PORT: string;
     ROOT_API: string;
+    NODE_ID: string;
 
     QUEUE_CONN_URL: string;
 
@@ -32,6 +33,7 @@ declare namespace NodeJS {
 
     JWT_KEY: string; // JWT key
     JWT_EXPIRY: string; // JWT key
+    QUOTE_KEY: string; // signs delivery quotes, never the same as JWT_KEY
     CLIENT_HOST: string;
 
     PAYMENT_GW_NAME: string;
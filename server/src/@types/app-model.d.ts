@@ -34,6 +34,111 @@ export declare namespace appModelTypes {
     riderPhoto: string
   }
 
+  interface IDispatchCandidate {
+    riderId: string,
+    riderFirstName: string,
+    riderPhoto: string,
+    distance: number,
+    arrivalMinutes: number,
+    arrivalTime: string,
+    score?: number
+  }
+
+  interface IDispatchSession extends IPackageRequestData {
+    status: string,
+    updatedAt: string,
+    candidates: IDispatchCandidate[],
+    declined: string[],
+    offerExpiresAt: string | null
+  }
+
+  interface IFareBreakdown {
+    baseFare: number,
+    distanceFare: number,
+    timeFare: number,
+    weightSurcharge: number,
+    nightSurcharge: number,
+    minimumFareAdjustment: number,
+    total: number
+  }
+
+  interface IDeliveryQuote {
+    vehicle: string,
+    distance: number,
+    durationMinutes: number,
+    estimatedDeliveryTime: string,
+    breakdown: IFareBreakdown,
+    deliveryFee: number
+  }
+
+  interface IQuoteResult {
+    quoteId: string,
+    expiresAt: Date,
+    quotes: IDeliveryQuote[]
+  }
+
+  interface ITripDetails {
+    senderLat: number,
+    senderLon: number,
+    recipientLat: number,
+    recipientLon: number,
+    packageWeight?: number,
+    pickupAt?: Date,
+    waypoints?: { lat: number, lon: number }[] //drop-offs before the recipient, in order
+  }
+
+  interface ILedgerLine {
+    account: string,
+    owner: any,
+    direction: string,
+    amount: number
+  }
+
+  interface IRefundAssessment {
+    escrow: number,
+    refund: number,
+    cancellationFee: number,
+    riderCompensation: number,
+    rider: any
+  }
+
+  interface IDeliveryStatusChange {
+    to: string,
+    actor?: any,
+    actorType?: string,
+    location?: [number, number] | null,
+    note?: string
+  }
+
+  interface IKycStatusChange {
+    to: string,
+    actor?: any,
+    actorType?: string,
+    note?: string
+  }
+
+  interface IRiderScoreFactors {
+    distance: number,
+    rating: number,
+    acceptance: number,
+    cancellation: number,
+    idle: number
+  }
+
+  interface IRiderScore {
+    score: number,
+    factors: IRiderScoreFactors,
+    inputs: {
+      distance: number,
+      rating: number,
+      offersAccepted: number,
+      offersDeclined: number,
+      jobsTaken: number,
+      jobsReleased: number,
+      idleMinutes: number
+    }
+  }
+
   abstract class AbstractCrudRepository<M extends Document = Document, Id extends any = any> {
     // model?: string;
 
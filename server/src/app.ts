@@ -27,7 +27,12 @@ export const corsOptions = {
 app.use(helmet());
 app.use(cookieParser(settings.cookie.secret));
 app.use(cors(corsOptions)); //handle cors operations
-app.use(json()); // Parse incoming requests data
+app.use(json({
+  verify: (req, res, buf) => {
+    //@ts-ignore
+    req.rawBody = buf; // Keep the raw payload for webhook signature checks
+  }
+})); // Parse incoming requests data
 app.use(morgan('dev')); //Route debugger
 app.use(session({
   secret: 'tikLog_app',
@@ -0,0 +1,13 @@
+import { Agenda } from 'agenda';
+import database from './database';
+import { AGENDA_COLLECTION_NAME } from './constants';
+
+//jobs are defined and processed in startup, any module may schedule them
+const agenda = new Agenda({
+  db: {
+    address: database.mongoUrl,
+    collection: AGENDA_COLLECTION_NAME,
+  },
+});
+
+export default agenda;
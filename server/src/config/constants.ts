@@ -46,6 +46,29 @@ import QueueEvents = appCommonTypes.QueueEvents;
   export const PAID = 'paid';
   export const RIDER_REQUESTED = 'rider_requested';
   export const RIDER_READY_TO_COLLECT_PACKAGE = 'rider_ready_to_collect_package';
+  export const SCHEDULED = 'scheduled';
+  export const STOP_PENDING = 'pending';
+  export const STOP_DELIVERED = 'delivered';
+  export const MAX_DELIVERY_STOPS = 10;
+
+  //statuses a delivery is allowed to move to from its current status
+  export const DELIVERY_STATUS_TRANSITIONS: { [status: string]: string[] } = {
+    [SCHEDULED]: [PENDING, PAID, CANCELED],
+    //a rider is only requested once the fee is held in escrow
+    [PENDING]: [PAID, CANCELED],
+    [PAID]: [RIDER_REQUESTED, CANCELED],
+    //a rider who releases a delivery before pickup hands it back paid for the next rider
+    [RIDER_REQUESTED]: [RIDER_READY_TO_COLLECT_PACKAGE, ON_TRANSIT, CANCELED, PAID],
+    [RIDER_READY_TO_COLLECT_PACKAGE]: [ON_TRANSIT, CANCELED, PAID],
+    [ON_TRANSIT]: [DELIVERED],
+    [DELIVERED]: [],
+    [CANCELED]: []
+  };
+
+  export const ACTOR_CUSTOMER = 'customer';
+  export const ACTOR_RIDER = 'rider';
+  export const ACTOR_ADMIN = 'admin';
+  export const ACTOR_SYSTEM = 'system';
 
   export const RIDER_STATUS_PENDING = 'pending';
   export const RIDER_STATUS_ONLINE = 'online';
@@ -56,6 +79,9 @@ import QueueEvents = appCommonTypes.QueueEvents;
   export const PRICE_PER_KM_VAN = 250;
   export const PRICE_PER_KM_TRUCK = 300;
   export const AVERAGE_PRICE_PER_KM = 250;
+  export const PRICING_TIMEZONE = 'Africa/Lagos'; //night surcharge hours are read in this timezone
+  export const DELIVERY_QUOTE_TTL = 15 * 60; //in seconds
+  export const DELIVERY_QUOTE_AUDIENCE = 'delivery_quote';
 
   export const BIKE_SPEED = 30;
   export const CAR_SPEED = 20;
@@ -66,13 +92,74 @@ import QueueEvents = appCommonTypes.QueueEvents;
   export const MAX_DISTANCE = 1000 //in km
 
   export const ADMIN_CHARGES = 10 //10 percent
+  export const CANCELLATION_CHARGES = 10 //10 percent, kept when the customer cancels after a rider is assigned
+  export const RIDER_CANCELLATION_COMPENSATION = 20 //20 percent, paid to a rider that had arrived for pickup
 
   export const EXPIRATION_AMQP_MESSAGE = 5000;
   export const PACKAGE_REQUEST = 'package_requests';
   export const DRIVER_RESPONSES = 'driver_responses';
-  export const PACKAGE_REQUEST_INFO = 'package_request_info';
+  export const PACKAGE_REQUEST_QUEUE = 'package_requests_dispatch';
+  export const DRIVER_RESPONSES_QUEUE = 'driver_responses_dispatch';
+  export const DISPATCH_SESSION_PREFIX = 'dispatch_session_';
+  export const DISPATCH_RIDER_PREFIX = 'dispatch_rider_';
+  export const DISPATCH_SESSION_TTL = 2 * 60 * 60; //in seconds
+  export const DELIVERY_OTP_PREFIX = 'delivery_otp_';
+  export const DELIVERY_OTP_MAX_ATTEMPTS = 5;
+  export const DELIVERY_OTP_ATTEMPTS_PREFIX = 'delivery_otp_attempts_';
+  export const DELIVERY_OTP_ATTEMPTS_TTL = 24 * 60 * 60; //in seconds
+  export const TRACKING_ROOM_PREFIX = 'delivery_tracking_';
+  export const LOCATION_BROADCAST_INTERVAL = 5 * 1000; //in milliseconds
+  export const TRACKING_THROTTLE_PREFIX = 'delivery_tracking_throttle_';
+  export const IDLE_RADIUS = 30; //in metres, pings closer than this count as standing still
+  export const IDLE_MIN_DURATION = 2 * 60 * 1000; //in milliseconds
+  export const USER_ROOM_PREFIX = 'user_';
+  export const PRESENCE_ONLINE_KEY = 'presence_online';
+  export const PRESENCE_SOCKETS_PREFIX = 'presence_sockets_';
+  export const PRESENCE_NODE_PREFIX = 'presence_node_';
+
+  export const CHAT_MESSAGE_UNREAD = 'unread';
+  export const CHAT_MESSAGE_DELIVERED = 'delivered';
+  export const CHAT_MESSAGE_READ = 'read';
+  export const CHAT_MESSAGE_TEXT = 'text';
+  export const CHAT_MESSAGE_IMAGE = 'image';
+  export const CHAT_MESSAGE_VOICE = 'voice';
+  export const CHAT_MESSAGE_SYSTEM = 'system';
+  export const CHAT_SYSTEM_SENDER = 'system';
+
+  export const DISPATCH_MATCHED = 'matched';
+  export const DISPATCH_REQUESTED = 'requested';
+  export const DISPATCH_ACCEPTED = 'accepted';
+  export const DISPATCH_ARRIVED = 'arrived';
+  export const DISPATCH_ON_TRANSIT = 'on_transit';
+  //the rider is on the job, from accepting it until it is delivered
+  export const ACTIVE_DISPATCH_STATUSES = [DISPATCH_ACCEPTED, DISPATCH_ARRIVED, DISPATCH_ON_TRANSIT];
+  export const LEDGER_DEBIT = 'debit';
+  export const LEDGER_CREDIT = 'credit';
+  export const LEDGER_CUSTOMER_WALLET = 'customer_wallet';
+  export const LEDGER_RIDER_WALLET = 'rider_wallet';
+  export const LEDGER_DELIVERY_ESCROW = 'delivery_escrow';
+  export const LEDGER_PLATFORM_FEES = 'platform_fees';
+  export const LEDGER_PAYMENT_GATEWAY = 'payment_gateway';
+  export const LEDGER_RIDER_PAYOUT = 'rider_payout';
+  export const LEDGER_JOURNAL_PENDING = 'pending';
+  export const LEDGER_JOURNAL_APPLIED = 'applied';
+  //how long a post may take to apply a journal before another one may finish it
+  export const LEDGER_JOURNAL_LOCK_MS = 60 * 1000;
+  export const LEDGER_JOURNAL_RECOVERY_JOB = 'finishPendingLedgerJournals';
+  export const DELIVERY_REFUND_RECOVERY_JOB = 'finishPendingDeliveryRefunds';
+  export const DELIVERY_SETTLEMENT_RECOVERY_JOB = 'finishPendingDeliverySettlements';
+
   export const PAYMENT_IN_PROGRESS = 'in-progress';
   export const PAYMENT_DONE = 'done';
+  export const PAYMENT_FAILED = 'failed';
+
+  export const PAYSTACK_SIGNATURE_HEADER = 'x-paystack-signature';
+  export const PAYSTACK_CHARGE_SUCCESS = 'charge.success';
+  export const PAYSTACK_TRANSFER_SUCCESS = 'transfer.success';
+  export const PAYSTACK_TRANSFER_FAILED = 'transfer.failed';
+  export const PAYSTACK_TRANSFER_REVERSED = 'transfer.reversed';
+  export const PAYSTACK_PAYMENT_SUCCESS = 'success';
+  export const PAYMENT_CURRENCY = 'NGN';
 
   export const CREATE_USER_ = 'event:CREATE_USER';
   export const UPDATE_USER_ = 'event:UPDATE_USER_';
@@ -99,6 +186,137 @@ import QueueEvents = appCommonTypes.QueueEvents;
 
   export const MAX_SIZE_IN_BYTE = 1000 * 1024; // 1MB
   export const ALLOWED_FILE_TYPES = ['image/jpeg', 'image/png', 'image/jpg'];
+  //scanned papers such as KYC and vehicle documents
+  export const DOCUMENT_MAX_SIZE = 5 * 1000 * 1024; // 5MB
+  export const DOCUMENT_FILE_TYPES = [...ALLOWED_FILE_TYPES, 'application/pdf'];
+  export const CHAT_ATTACHMENT_MAX_SIZE = 5 * 1000 * 1024; // 5MB
+  export const CHAT_VOICE_FILE_TYPES = ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wav'];
   export const SEVEN_DAYS_IN_MS = 7 * 24 * 60 * 60 * 1000;
 
   export const AGENDA_COLLECTION_NAME = 'vehicle_license'
+  export const SCHEDULED_DELIVERY_RELEASE = 'releaseScheduledDelivery';
+  export const SCHEDULED_DELIVERY_REMINDER = 'remindScheduledDelivery';
+  export const DISPATCH_OFFER_EXPIRY = 'expireDispatchOffer';
+
+  export const NOTIFICATION_RIDER_ACCEPTED = 'rider_accepted';
+  export const NOTIFICATION_RIDER_ARRIVED = 'rider_arrived';
+  export const NOTIFICATION_RIDER_RELEASED = 'rider_released';
+  export const NOTIFICATION_NO_RIDER_FOUND = 'no_rider_found';
+  export const NOTIFICATION_DELIVERY_STARTED = 'delivery_started';
+  export const NOTIFICATION_DELIVERY_DELIVERED = 'delivery_delivered';
+  export const NOTIFICATION_DELIVERY_CANCELED = 'delivery_canceled';
+  export const NOTIFICATION_WALLET_CREDITED = 'wallet_credited';
+  export const NOTIFICATION_PAYOUT_REQUESTED = 'payout_requested';
+  export const NOTIFICATION_PAYOUT_PAID = 'payout_paid';
+  export const NOTIFICATION_PAYOUT_FAILED = 'payout_failed';
+  export const INBOX_PAGE_SIZE = 20;
+  export const NOTIFICATION_DELIVERY_OFFER = 'delivery_offer';
+  export const NOTIFICATION_OFFER_EXPIRED = 'offer_expired';
+  export const NOTIFICATION_KYC_SUBMITTED = 'kyc_submitted';
+  export const NOTIFICATION_KYC_APPROVED = 'kyc_approved';
+  export const NOTIFICATION_KYC_REJECTED = 'kyc_rejected';
+  export const NOTIFICATION_KYC_RESUBMISSION_REQUESTED = 'kyc_resubmission_requested';
+  export const NOTIFICATION_LICENSE_EXPIRING = 'license_expiring';
+  export const NOTIFICATION_LICENSE_EXPIRED = 'license_expired';
+  export const NOTIFICATION_VEHICLE_DOCUMENT_VERIFIED = 'vehicle_document_verified';
+  export const NOTIFICATION_VEHICLE_DOCUMENT_REJECTED = 'vehicle_document_rejected';
+  export const NOTIFICATION_VEHICLE_DOCUMENT_EXPIRED = 'vehicle_document_expired';
+
+  export const CHANNEL_SOCKET = 'socket';
+  export const CHANNEL_PUSH = 'push';
+  export const CHANNEL_SMS = 'sms';
+  export const CHANNEL_EMAIL = 'email';
+  export const NOTIFICATION_CHANNELS = [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS, CHANNEL_EMAIL];
+  export const NOTIFICATION_DEFAULT_CHANNELS = [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS];
+  export const NOTIFICATION_DRIVER_FAKE = 'fake';
+  export const PUSH_PROVIDER_FCM = 'fcm';
+  export const PUSH_PROVIDER_APNS = 'apns';
+
+  //the channels of each event until a user picks their own, the socket goes out to
+  //connected apps and the rest are tried in order until one gets through
+  export const NOTIFICATION_EVENT_CHANNELS: Record<string, string[]> = {
+    [NOTIFICATION_DELIVERY_OFFER]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_OFFER_EXPIRED]: [CHANNEL_SOCKET, CHANNEL_PUSH],
+    [NOTIFICATION_RIDER_ACCEPTED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_RIDER_ARRIVED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_RIDER_RELEASED]: [CHANNEL_SOCKET, CHANNEL_PUSH],
+    [NOTIFICATION_NO_RIDER_FOUND]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_DELIVERY_STARTED]: [CHANNEL_SOCKET, CHANNEL_PUSH],
+    [NOTIFICATION_DELIVERY_DELIVERED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_DELIVERY_CANCELED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_WALLET_CREDITED]: [CHANNEL_SOCKET, CHANNEL_PUSH],
+    [NOTIFICATION_PAYOUT_REQUESTED]: [CHANNEL_SOCKET, CHANNEL_EMAIL],
+    [NOTIFICATION_PAYOUT_PAID]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_EMAIL],
+    [NOTIFICATION_PAYOUT_FAILED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_KYC_SUBMITTED]: [CHANNEL_SOCKET, CHANNEL_EMAIL],
+    [NOTIFICATION_KYC_APPROVED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_KYC_REJECTED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_EMAIL],
+    [NOTIFICATION_KYC_RESUBMISSION_REQUESTED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_LICENSE_EXPIRING]: [CHANNEL_SOCKET, CHANNEL_PUSH],
+    [NOTIFICATION_LICENSE_EXPIRED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_VEHICLE_DOCUMENT_VERIFIED]: [CHANNEL_SOCKET, CHANNEL_PUSH],
+    [NOTIFICATION_VEHICLE_DOCUMENT_REJECTED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS],
+    [NOTIFICATION_VEHICLE_DOCUMENT_EXPIRED]: [CHANNEL_SOCKET, CHANNEL_PUSH, CHANNEL_SMS]
+  };
+
+  export const TEMPLATE_PASSWORD_RESET = 'password_reset';
+  export const TEMPLATE_SIGNUP_OTP = 'signup_otp';
+  export const TEMPLATE_DELIVERY_RECEIPT = 'delivery_receipt';
+  export const TEMPLATE_PAYOUT_CONFIRMATION = 'payout_confirmation';
+  export const TEMPLATE_LICENSE_EXPIRY_WARNING = 'license_expiry_warning';
+  export const TEMPLATE_DELIVERY_CODE = 'delivery_code';
+  export const TEMPLATE_DELIVERY_REMINDER = 'delivery_reminder';
+  export const TEMPLATE_SCHEDULE_NOT_DISPATCHED = 'schedule_not_dispatched';
+  export const TEMPLATE_SCHEDULE_PAYMENT_REQUIRED = 'schedule_payment_required';
+  export const TEMPLATE_STOP_DELIVERED = 'stop_delivered';
+  export const TEMPLATE_STOP_NEXT = 'stop_next';
+  export const MESSAGE_SENT = 'sent';
+  export const MESSAGE_FAILED = 'failed';
+  export const MESSAGE_LOG_PAGE_SIZE = 50;
+  //template variables that are masked in the message log
+  export const MESSAGE_SECRET_VARIABLES = ['code', 'otp'];
+  export const MESSAGE_REDACTED = '******';
+
+  export const KYC_SUBMITTED = 'submitted';
+  export const KYC_UNDER_REVIEW = 'under_review';
+  export const KYC_APPROVED = 'approved';
+  export const KYC_REJECTED = 'rejected';
+  export const KYC_RESUBMISSION_REQUESTED = 'resubmission_requested';
+  //a case is claimed by one reviewer before it is decided, a rider answers a resubmission request or submits again after a rejection
+  export const KYC_STATUS_TRANSITIONS: { [status: string]: string[] } = {
+    [KYC_SUBMITTED]: [KYC_UNDER_REVIEW],
+    [KYC_UNDER_REVIEW]: [KYC_APPROVED, KYC_REJECTED, KYC_RESUBMISSION_REQUESTED],
+    [KYC_RESUBMISSION_REQUESTED]: [KYC_SUBMITTED],
+    [KYC_APPROVED]: [],
+    [KYC_REJECTED]: [KYC_SUBMITTED]
+  };
+
+  export const LICENSE_EXPIRY_JOB = 'vehicleLicenseIsExpired';
+  //days before a license expires that its rider is warned, each warning is sent once
+  export const LICENSE_EXPIRY_WARNING_DAYS = [30, 7, 1];
+  export const LICENSE_EXPIRY_REPORT_PAGE_SIZE = 30;
+  //a rider on one of these deliveries is left online until a later run finds them free
+  export const RIDER_ACTIVE_DELIVERY_STATUSES = [RIDER_REQUESTED, RIDER_READY_TO_COLLECT_PACKAGE, ON_TRANSIT];
+
+  export const VEHICLE_DOCUMENT_INSURANCE = 'insurance';
+  export const VEHICLE_DOCUMENT_ROADWORTHINESS = 'roadworthiness';
+  export const VEHICLE_DOCUMENT_REGISTRATION = 'registration';
+  //a vehicle is only matched to deliveries while each of these is verified and not expired
+  export const VEHICLE_DOCUMENT_TYPES = [VEHICLE_DOCUMENT_INSURANCE, VEHICLE_DOCUMENT_ROADWORTHINESS, VEHICLE_DOCUMENT_REGISTRATION];
+  export const VEHICLE_DOCUMENT_PENDING = 'pending';
+  export const VEHICLE_DOCUMENT_VERIFIED = 'verified';
+  export const VEHICLE_DOCUMENT_REJECTED = 'rejected';
+  //a verified document replaced by a newer verified one
+  export const VEHICLE_DOCUMENT_SUPERSEDED = 'superseded';
+
+  export const RIDER_MAX_RATING = 5;
+  //how much each factor counts towards a rider's matching score until an admin sets their own
+  export const MATCHING_DEFAULT_WEIGHTS = {
+    distance: 50,
+    rating: 15,
+    acceptance: 15,
+    cancellation: 10,
+    idle: 10,
+    historyDays: 30,
+    idleCapMinutes: 120
+  };
@@ -23,6 +23,7 @@ import {
     findUserChatsHandler,
     findChatHandler,
     createChatMessageHandler,
+    uploadChatAttachmentHandler,
     getChatMessagesHandler,
     getUsersWithIdsHandler,
     ratingHandler
@@ -161,6 +162,12 @@ import {
         path: '/create-chat-message',
         handler: createChatMessageHandler
     },
+    {
+        name: 'upload chat attachment',
+        method: 'post',
+        path: '/chat/:chatId/attachments',
+        handler: uploadChatAttachmentHandler
+    },
     {
         name: 'get chat messages',
         method: 'get',
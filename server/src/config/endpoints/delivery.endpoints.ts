@@ -5,16 +5,22 @@ import {
     createDeliveryHandler,
     customerActiveDeliveriesHandler,
     deleteDeliveryHandler,
+    deliveryQuoteHandler,
     driverResHandler,
     editDeliveryHandler,
     findRidersHandler,
     getAllCustomerDeliveriesHandler,
     getAllDeliveriesHandler,
     getDeliveriesHandler,
+    getDeliveryRouteHandler,
+    getDeliveryTimelineHandler,
     getSingleDeliveryHandler,
     packageReqHandler,
     payForDeliveryHandler,
-    riderActiveDeliveriesHandler
+    releaseDeliveryHandler,
+    resendDeliveryOtpHandler,
+    riderActiveDeliveriesHandler,
+    uploadDeliveryProofHandler
 } from '../../routes/deliveryRoute';
 
 const deliveryEndpoints: RouteEndpoints = [
@@ -24,6 +30,12 @@ const deliveryEndpoints: RouteEndpoints = [
         path: '/delivery',
         handler: createDeliveryHandler
     },
+    {
+        name: 'delivery quote',
+        method: 'post',
+        path: '/delivery/quote',
+        handler: deliveryQuoteHandler
+    },
     {
         name: 'pay for delivery',
         method: 'post',
@@ -42,6 +54,30 @@ const deliveryEndpoints: RouteEndpoints = [
         path: '/delivery/:deliveryId',
         handler: getSingleDeliveryHandler
     },
+    {
+        name: 'get delivery timeline',
+        method: 'get',
+        path: '/delivery/:deliveryId/timeline',
+        handler: getDeliveryTimelineHandler
+    },
+    {
+        name: 'get delivery route',
+        method: 'get',
+        path: '/delivery/:deliveryId/route',
+        handler: getDeliveryRouteHandler
+    },
+    {
+        name: 'resend delivery otp',
+        method: 'post',
+        path: '/delivery/:deliveryId/resend-otp',
+        handler: resendDeliveryOtpHandler
+    },
+    {
+        name: 'upload delivery proof',
+        method: 'post',
+        path: '/delivery/:deliveryId/proof',
+        handler: uploadDeliveryProofHandler
+    },
     {
         name: 'get deliveries',
         method: 'get',
@@ -72,6 +108,12 @@ const deliveryEndpoints: RouteEndpoints = [
         path: '/cancel-delivery/:deliveryId',
         handler: cancelDeliveryHandler
     },
+    {
+        name: 'release delivery',
+        method: 'put',
+        path: '/release-delivery/:deliveryId',
+        handler: releaseDeliveryHandler
+    },
     {
         name: 'package request',
         method: 'post',
@@ -3,6 +3,10 @@ import bankEndpoints from "./bank.endpoints";
 import customerEndpoints from "./customer.endpoints";
 import deliveryEndpoints from "./delivery.endpoints";
 import faqEndpoints from "./faq.endpoints";
+import kycEndpoints from "./kyc.endpoints";
+import matchingEndpoints from "./matching.endpoints";
+import messageTemplateEndpoints from "./messageTemplate.endpoints";
+import notificationEndpoints from "./notification.endpoints";
 import packageEndpoints from "./package.endpoints";
 import riderEndpoints from "./rider.endpoints";
 import roleEndpoints from "./role.endpoints";
@@ -22,6 +26,10 @@ const endpoints = userEndpoints
     .concat(vehicleEndpoints)
     .concat(bankEndpoints)
     .concat(faqEndpoints)
-    .concat(tikLogDocEndpoints);
+    .concat(tikLogDocEndpoints)
+    .concat(notificationEndpoints)
+    .concat(messageTemplateEndpoints)
+    .concat(kycEndpoints)
+    .concat(matchingEndpoints);
 
 export default endpoints;
\ No newline at end of file
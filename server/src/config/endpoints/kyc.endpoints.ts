@@ -0,0 +1,59 @@
+import { appCommonTypes } from '../../@types/app-common';
+import RouteEndpoint = appCommonTypes.RouteEndpoints;
+import {
+    approveKycCaseHandler, claimKycCaseHandler, getKycCaseHandler, getKycQueueHandler,
+    getMyKycHandler, rejectKycCaseHandler, requestKycResubmissionHandler, submitKycHandler
+} from '../../routes/kycRoute';
+
+const kycEndpoints: RouteEndpoint  = [
+    {
+        name: 'submit kyc',
+        method: 'post',
+        path: '/rider-kyc',
+        handler: submitKycHandler
+    },
+    {
+        name: 'get my kyc',
+        method: 'get',
+        path: '/rider-kyc',
+        handler: getMyKycHandler
+    },
+    {
+        name: 'get kyc queue',
+        method: 'get',
+        path: '/kyc/queue',
+        handler: getKycQueueHandler
+    },
+    {
+        name: 'get kyc case',
+        method: 'get',
+        path: '/kyc/:caseId',
+        handler: getKycCaseHandler
+    },
+    {
+        name: 'claim kyc case',
+        method: 'put',
+        path: '/kyc/:caseId/review',
+        handler: claimKycCaseHandler
+    },
+    {
+        name: 'approve kyc case',
+        method: 'put',
+        path: '/kyc/:caseId/approve',
+        handler: approveKycCaseHandler
+    },
+    {
+        name: 'reject kyc case',
+        method: 'put',
+        path: '/kyc/:caseId/reject',
+        handler: rejectKycCaseHandler
+    },
+    {
+        name: 'request kyc resubmission',
+        method: 'put',
+        path: '/kyc/:caseId/request-resubmission',
+        handler: requestKycResubmissionHandler
+    }
+]
+
+export default kycEndpoints;
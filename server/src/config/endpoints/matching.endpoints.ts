@@ -0,0 +1,26 @@
+import { appCommonTypes } from '../../@types/app-common';
+import RouteEndpoint = appCommonTypes.RouteEndpoints;
+import { explainMatchingHandler, getMatchingWeightsHandler, saveMatchingWeightsHandler } from '../../routes/matchingRoute';
+
+const matchingEndpoints: RouteEndpoint  = [
+    {
+        name: 'get matching weights',
+        method: 'get',
+        path: '/matching-weights',
+        handler: getMatchingWeightsHandler
+    },
+    {
+        name: 'save matching weights',
+        method: 'put',
+        path: '/matching-weights',
+        handler: saveMatchingWeightsHandler
+    },
+    {
+        name: 'explain matching',
+        method: 'get',
+        path: '/matching/explain/:deliveryId',
+        handler: explainMatchingHandler
+    }
+]
+
+export default matchingEndpoints;
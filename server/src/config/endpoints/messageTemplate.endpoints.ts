@@ -0,0 +1,41 @@
+import { appCommonTypes } from '../../@types/app-common';
+import RouteEndpoint = appCommonTypes.RouteEndpoints;
+import {
+    getMessageLogHandler, getMessageTemplatesHandler, getMessageTemplateVersionsHandler,
+    previewMessageTemplateHandler, publishMessageTemplateHandler
+} from '../../routes/messageTemplateRoute';
+
+const messageTemplateEndpoints: RouteEndpoint  = [
+    {
+        name: 'get message templates',
+        method: 'get',
+        path: '/message-templates',
+        handler: getMessageTemplatesHandler
+    },
+    {
+        name: 'publish message template',
+        method: 'post',
+        path: '/message-templates',
+        handler: publishMessageTemplateHandler
+    },
+    {
+        name: 'get message template versions',
+        method: 'get',
+        path: '/message-templates/:key',
+        handler: getMessageTemplateVersionsHandler
+    },
+    {
+        name: 'preview message template',
+        method: 'post',
+        path: '/message-templates/:key/preview',
+        handler: previewMessageTemplateHandler
+    },
+    {
+        name: 'get message log',
+        method: 'get',
+        path: '/message-logs',
+        handler: getMessageLogHandler
+    }
+]
+
+export default messageTemplateEndpoints;
@@ -0,0 +1,54 @@
+import { appCommonTypes } from '../../@types/app-common';
+import RouteEndpoint = appCommonTypes.RouteEndpoints;
+import {
+    getNotificationsHandler, markAllNotificationsReadHandler, markNotificationReadHandler,
+    registerDeviceHandler, removeDeviceHandler, getNotificationPreferencesHandler,
+    updateNotificationPreferenceHandler
+} from '../../routes/notificationRoute';
+
+const notificationEndpoints: RouteEndpoint  = [
+    {
+        name: 'get notifications',
+        method: 'get',
+        path: '/notifications',
+        handler: getNotificationsHandler
+    },
+    {
+        name: 'mark all notifications read',
+        method: 'put',
+        path: '/notifications/read-all',
+        handler: markAllNotificationsReadHandler
+    },
+    {
+        name: 'mark notification read',
+        method: 'put',
+        path: '/notifications/:notificationId/read',
+        handler: markNotificationReadHandler
+    },
+    {
+        name: 'register device',
+        method: 'post',
+        path: '/notifications/devices',
+        handler: registerDeviceHandler
+    },
+    {
+        name: 'remove device',
+        method: 'delete',
+        path: '/notifications/devices/:token',
+        handler: removeDeviceHandler
+    },
+    {
+        name: 'get notification preferences',
+        method: 'get',
+        path: '/notifications/preferences',
+        handler: getNotificationPreferencesHandler
+    },
+    {
+        name: 'update notification preference',
+        method: 'put',
+        path: '/notifications/preferences',
+        handler: updateNotificationPreferenceHandler
+    }
+]
+
+export default notificationEndpoints;
@@ -9,6 +9,8 @@ import {
     deleteRiderLicenseHandler,
     editRiderProfileHandler,
     fetchRiderLicensesHandler,
+    getLicenseExpiryReportHandler,
+    getLicenseExpiryReportsHandler,
     getRiderAddressesHandler,
     getRiderHandler,
     getRiderLocationHandler,
@@ -197,6 +199,18 @@ const riderEndpoints: RouteEndpoints = [
         path: '/fetch-rider-licenses',
         handler: fetchRiderLicensesHandler
     },
+    {
+        name: 'get license expiry reports',
+        method: 'get',
+        path: '/license-expiry-reports',
+        handler: getLicenseExpiryReportsHandler
+    },
+    {
+        name: 'get license expiry report',
+        method: 'get',
+        path: '/license-expiry-reports/:reportId',
+        handler: getLicenseExpiryReportHandler
+    },
     {
         name: 'update rider bank details',
         method: 'put',
@@ -12,6 +12,7 @@ import {
     initTransactionCallbackHandler,
     makePaymentHandler,
     mobileTransactionAddToWalletHandler,
+    paystackWebhookHandler,
     requestPaymentHandler,
     updateTransactionHandler
 } from '../../routes/TransactionRoute';
@@ -29,6 +30,12 @@ const transactionEndpoints: RouteEndpoints = [
         path: '/transaction/initialize',
         handler: initTransactionCallbackHandler
     },
+    {
+        name: 'paystack webhook',
+        method: 'post',
+        path: '/webhooks/paystack',
+        handler: paystackWebhookHandler
+    },
     {
         name: 'update transaction',
         method: 'put',
@@ -5,15 +5,23 @@ import {
     deleteVehicleNameHandler,
     deleteVehicleTypeHandler,
     getSingleVehicleHandler,
+    getRiderVehiclesHandler,
     getVehicleNameHandler,
     getVehicleTypeHandler,
+    getFareRulesHandler,
     getVehiclesHandler,
     newVehicleHandler,
     newVehicleNameHandler,
     newVehicleTypeHandler,
     updateVehicleHandler,
     updateVehicleNameHandler,
-    updateVehicleTypeHandler
+    updateVehicleTypeHandler,
+    saveFareRuleHandler,
+    uploadVehicleDocumentHandler,
+    getVehicleDocumentsHandler,
+    getPendingVehicleDocumentsHandler,
+    verifyVehicleDocumentHandler,
+    rejectVehicleDocumentHandler
 } from '../../routes/vehicleRoute';
 
 const vehicleEndpoints: RouteEndpoints = [
@@ -35,6 +43,12 @@ const vehicleEndpoints: RouteEndpoints = [
         path: '/vehicle/:riderId',
         handler: getSingleVehicleHandler
     },
+    {
+        name: 'get rider vehicles',
+        method: 'get',
+        path: '/rider-vehicles/:riderId',
+        handler: getRiderVehiclesHandler
+    },
     {
         name: 'get vehicles',
         method: 'get',
@@ -95,6 +109,48 @@ const vehicleEndpoints: RouteEndpoints = [
         path: '/vehicle-type',
         handler: getVehicleTypeHandler
     },
+    {
+        name: 'save fare rule',
+        method: 'put',
+        path: '/vehicle-type/:vehicleTypeId/fare-rule',
+        handler: saveFareRuleHandler
+    },
+    {
+        name: 'get fare rules',
+        method: 'get',
+        path: '/fare-rules',
+        handler: getFareRulesHandler
+    },
+    {
+        name: 'upload vehicle document',
+        method: 'post',
+        path: '/vehicle/:vehicleId/documents',
+        handler: uploadVehicleDocumentHandler
+    },
+    {
+        name: 'get vehicle documents',
+        method: 'get',
+        path: '/vehicle/:vehicleId/documents',
+        handler: getVehicleDocumentsHandler
+    },
+    {
+        name: 'get pending vehicle documents',
+        method: 'get',
+        path: '/vehicle-documents',
+        handler: getPendingVehicleDocumentsHandler
+    },
+    {
+        name: 'verify vehicle document',
+        method: 'put',
+        path: '/vehicle-document/:documentId/verify',
+        handler: verifyVehicleDocumentHandler
+    },
+    {
+        name: 'reject vehicle document',
+        method: 'put',
+        path: '/vehicle-document/:documentId/reject',
+        handler: rejectVehicleDocumentHandler
+    },
 ];
 
 export default vehicleEndpoints;
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { hostname } from 'os';
 import { appCommonTypes } from '../@types/app-common';
 import AppSettings = appCommonTypes.AppSettings;
 
@@ -123,6 +124,43 @@ const settings: AppSettings = {
   rabbitMq: {
     connection: <string>process.env.AMQP_CONNECT
   },
+  dispatch: {
+    offerTimeout: +(process.env.DISPATCH_OFFER_TIMEOUT || 30) //in seconds
+  },
+  schedule: {
+    leadTime: +(process.env.SCHEDULE_LEAD_TIME || 30), //in minutes, dispatch starts this long before pickup
+    reminderLeadTime: +(process.env.SCHEDULE_REMINDER_LEAD_TIME || 60), //in minutes before dispatch
+    serviceStartHour: +(process.env.SERVICE_START_HOUR || 7),
+    serviceEndHour: +(process.env.SERVICE_END_HOUR || 20),
+    maxDaysAhead: +(process.env.SCHEDULE_MAX_DAYS_AHEAD || 7)
+  },
+  locationHistory: {
+    retentionDays: +(process.env.LOCATION_HISTORY_RETENTION_DAYS || 90)
+  },
+  chat: {
+    closeAfter: +(process.env.CHAT_CLOSE_AFTER || 60) //in minutes after the delivery ends
+  },
+  messaging: {
+    defaultLocale: process.env.MESSAGE_DEFAULT_LOCALE || 'en',
+    locales: (process.env.MESSAGE_LOCALES || 'en').split(',').filter(Boolean) //the locales templates are written in
+  },
+  notification: {
+    driver: process.env.NOTIFICATION_DRIVER || 'live', //'fake' keeps every channel off the network
+    fakeFile: process.env.NOTIFICATION_FAKE_FILE || '', //where fake channels also append what they sent
+    fakeFailing: (process.env.NOTIFICATION_FAKE_FAILING || '').split(',').filter(Boolean), //fake channels that never get through
+    fcm: {
+      projectId: <string>process.env.FCM_PROJECT_ID,
+      clientEmail: <string>process.env.FCM_CLIENT_EMAIL,
+      privateKey: (process.env.FCM_PRIVATE_KEY || '').replace(/\\n/g, '\n')
+    },
+    apns: {
+      keyId: <string>process.env.APNS_KEY_ID,
+      teamId: <string>process.env.APNS_TEAM_ID,
+      bundleId: <string>process.env.APNS_BUNDLE_ID,
+      privateKey: (process.env.APNS_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+      production: process.env.APNS_PRODUCTION === 'true'
+    }
+  },
   cookie: { name: process.env.COOKIE_AUTH as string, secret: process.env.COOKIE_AUTH as string },
   permissions: [
     MANAGE_ALL,
@@ -204,6 +242,9 @@ const settings: AppSettings = {
     key: <string>process.env.JWT_KEY,
     expiry: <string>process.env.JWT_EXPIRY,
   },
+  quote: {
+    key: <string>process.env.QUOTE_KEY, //kept apart from the login key so a quote is never read as a login
+  },
   redis: {
     development: {
       database: <string>process.env.REDIS_DEV_DB_NAME,
@@ -245,6 +286,8 @@ const settings: AppSettings = {
     env: <string>process.env.NODE_ENV,
     port: <string>process.env.PORT,
     apiRoot: <string>process.env.ROOT_API,
+    //identifies this process in the shared socket presence, must be unique per node
+    nodeId: process.env.NODE_ID || `${hostname()}:${process.env.PORT || 5050}`,
   },
 };
 
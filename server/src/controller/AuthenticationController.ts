@@ -13,12 +13,14 @@ import Generic from "../utils/Generic";
 import { $finishSavingRider, $loginSchemaRider, $saveRiderSchema, IRiderModel } from "../models/Rider";
 import { $loginSchema, IUserModel } from "../models/User";
 import RedisService from "../services/RedisService";
-import { RIDER_STATUS_PENDING } from "../config/constants";
+import MessageService from "../services/MessageService";
+import { RIDER_STATUS_PENDING, TEMPLATE_SIGNUP_OTP } from "../config/constants";
 import RabbitMqService from "../services/RabbitMqService";
 import { decode } from 'jsonwebtoken';
 import { IWalletModel } from "../models/Wallet";
 
 const redisService = new RedisService();
+const messageService = new MessageService();
 const rabbitMqService = new RabbitMqService();
 
 export default class AuthenticationController {
@@ -112,10 +114,7 @@ export default class AuthenticationController {
       const actualData = JSON.stringify(data);
 
       redisService.saveToken(value.phone, actualData, 180);
-      // redisService.sendNotification(
-      //   value.phone,
-      //   `Your token is: ${token}`
-      // )
+      await messageService.sms(value.phone, TEMPLATE_SIGNUP_OTP, { code: token, minutes: 3 }, messageService.localeOf(req)).catch(() => null);
       
       const response: HttpResponse<any> = {
         code: HttpStatus.OK.code,
@@ -308,10 +307,7 @@ export default class AuthenticationController {
       const actualData = JSON.stringify(data);
 
       redisService.saveToken(value.phone, actualData, 180);
-      // redisService.sendNotification(
-      //   value.phone,
-      //   `Your token is: ${token}`
-      // )
+      await messageService.sms(value.phone, TEMPLATE_SIGNUP_OTP, { code: token, minutes: 3 }, messageService.localeOf(req)).catch(() => null);
 
       const response: HttpResponse<any> = {
         code: HttpStatus.OK.code,
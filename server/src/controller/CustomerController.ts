@@ -11,6 +11,11 @@ import { $changePassword, $editCustomerProfileSchema, $resetPassword, $savePassw
 import {
     ALLOWED_FILE_TYPES,
     CHANGE_CUSTOMER_PASSWORD,
+    CHAT_ATTACHMENT_MAX_SIZE,
+    CHAT_MESSAGE_IMAGE,
+    CHAT_MESSAGE_READ,
+    CHAT_MESSAGE_VOICE,
+    CHAT_VOICE_FILE_TYPES,
     DELETE_CUSTOMER_,
     HOME_ADDRESS,
     MAX_SIZE_IN_BYTE,
@@ -18,12 +23,13 @@ import {
     OFFICE_ADDRESS,
     UPDATE_CUSTOMER_,
     UPDATE_CUSTOMER_STATUS_,
-    UPLOAD_BASE_PATH
+    UPLOAD_BASE_PATH,
+    TEMPLATE_PASSWORD_RESET
 } from "../config/constants";
-import settings, { CUSTOMER_PERMISSION, DELETE_CUSTOMER, MANAGE_ALL, MANAGE_SOME, READ_CUSTOMER, RIDER_PERMISSION, UPDATE_CUSTOMER } from "../config/settings";
+import { CUSTOMER_PERMISSION, DELETE_CUSTOMER, MANAGE_ALL, MANAGE_SOME, READ_CUSTOMER, RIDER_PERMISSION, UPDATE_CUSTOMER } from "../config/settings";
 import BcryptPasswordEncoder = appCommonTypes.BcryptPasswordEncoder;
 import RedisService from "../services/RedisService";
-import SendMailService from "../services/SendMailService";
+import MessageService from "../services/MessageService";
 import Generic from "../utils/Generic";
 import formidable, { File } from 'formidable';
 import { $saveCustomerAddress, $updateCustomerAddress, ICustomerAddressModel } from "../models/CustomerAddress";
@@ -31,9 +37,11 @@ import moment = require("moment");
 import ChatMessage, { IChatMessageModel } from "../models/ChatMessages";
 import { Types } from "mongoose";
 import { IChatModel } from "../models/ChatModel";
+import ChatService from "../services/ChatService";
 
 const redisService = new RedisService();
-const sendMailService = new SendMailService();
+const messageService = new MessageService();
+const chatService = new ChatService();
 const form = formidable({ uploadDir: UPLOAD_BASE_PATH });
 
 export default class CustomerController {
@@ -280,11 +288,40 @@ export default class CustomerController {
 
     @TryCatch
     public async createChatMessage(req: Request) {
-        const { chatId, senderId, message } = req.body;
+        const { error, value } = Joi.object<any>({
+            chatId: Joi.string().required().label('chat id'),
+            message: Joi.string().required().label('message'),
+            clientMessageId: Joi.string().optional().label('client message id')
+        }).validate(req.body);
+        if (error) return Promise.reject(
+            CustomAPIError.response(
+                error.details[0].message, 
+                HttpStatus.BAD_REQUEST.code
+            ));
+
+        //@ts-ignore
+        const senderId = req.user._id;
+
+        const newMessage = await chatService.send(value.chatId, senderId, value.message, value.clientMessageId);
+
+        const response: HttpResponse<IChatMessageModel> = {
+            code: HttpStatus.OK.code,
+            message: 'Successful.',
+            result: newMessage
+         };
+ 
+        return Promise.resolve(response);
+    }
 
-        const newMessage = await datasources.chatMessageDAOService.create({
-            chatId, senderId, message
-        } as IChatMessageModel);
+    /**
+     * 
+     * @param req chat id, multipart form with an image or a voice note
+     * @desc sends an image or a voice note to the other member of a chat
+     * 
+     */
+    @TryCatch
+    public async uploadChatAttachment(req: Request) {
+        const newMessage = await this.doUploadChatAttachment(req);
 
         const response: HttpResponse<IChatMessageModel> = {
             code: HttpStatus.OK.code,
@@ -300,6 +337,9 @@ export default class CustomerController {
             const { chatId } = req.params;
             //@ts-ignore
             const loggedInUser = req.user._id;
+
+            //tells the senders their messages were read
+            await chatService.markRead(loggedInUser, chatId);
     
             const updateUnreadStatus = async (query: any, update: any) => {
                 const unreadMessages = await datasources.chatMessageDAOService.findAll(query);
@@ -380,7 +420,7 @@ export default class CustomerController {
                 const sortedMessages = chatMessages.sort((a, b) => b.createdAt - a.createdAt);
                 const lastMessage = sortedMessages[0];
 
-                const unreadMessages = sortedMessages.filter((message) => message.receiverStatus === 'unread');
+                const unreadMessages = sortedMessages.filter((message) => message.receiverStatus !== CHAT_MESSAGE_READ);
                 const totalUnreadMessages = unreadMessages.length;
 
                 _member.push({
@@ -547,12 +587,7 @@ export default class CustomerController {
                 {passwordResetCode: token}
             )
 
-            sendMailService.sendMail({
-                from: settings.nodemailer.email,
-                to: value.email,
-                subject: 'Password Reset',
-                text: `Your password reset code is: ${token}`,
-            });
+            await messageService.email(value.email as string, TEMPLATE_PASSWORD_RESET, { code: token }, messageService.localeOf(req)).catch(() => null);
 
             const response: HttpResponse<any> = {
                 code: HttpStatus.OK.code,
@@ -1069,4 +1104,63 @@ export default class CustomerController {
 
     };
 
+    private async doUploadChatAttachment(req: Request): Promise<IChatMessageModel> {
+        return new Promise((resolve, reject) => {
+            form.parse(req, async (err, fields, files) => {
+                try {
+                    //@ts-ignore
+                    const senderId = req.user._id;
+
+                    const { error, value } = Joi.object<any>({
+                        caption: Joi.string().allow('').optional().label('caption'),
+                        clientMessageId: Joi.string().optional().label('client message id')
+                    }).validate(fields);
+                    if(error) return reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+                    const image = files.image as File;
+                    const voiceNote = files.voiceNote as File;
+
+                    const attachment = image || voiceNote;
+                    if(!attachment)
+                        return reject(CustomAPIError.response('Image or voice note is required', HttpStatus.BAD_REQUEST.code));
+
+                    // File size validation
+                    if(attachment.size > CHAT_ATTACHMENT_MAX_SIZE)
+                        return reject(CustomAPIError.response('Attachment size exceeds the allowed limit', HttpStatus.BAD_REQUEST.code));
+
+                    // File type validation
+                    const allowedTypes = image ? ALLOWED_FILE_TYPES : CHAT_VOICE_FILE_TYPES;
+                    if(!allowedTypes.includes(attachment.mimetype as string))
+                        return reject(CustomAPIError.response(
+                            image ? MESSAGES.image_type_error : 'Invalid voice note format',
+                            HttpStatus.BAD_REQUEST.code
+                        ));
+
+                    //the sender must be able to post to the chat before the file is kept
+                    const chat = await chatService.chatOf(req.params.chatId, senderId);
+                    if(chatService.isClosed(chat))
+                        return reject(CustomAPIError.response('Chat is closed, the delivery has ended', HttpStatus.FORBIDDEN.code));
+
+                    const url = await Generic.getImagePath({
+                        tempPath: attachment.filepath,
+                        filename: attachment.originalFilename as string,
+                        basePath: `${UPLOAD_BASE_PATH}/chat`,
+                    });
+
+                    const chatMessage = await chatService.sendAttachment(
+                        `${chat._id}`,
+                        senderId,
+                        image ? CHAT_MESSAGE_IMAGE : CHAT_MESSAGE_VOICE,
+                        { url, mimeType: attachment.mimetype as string, size: attachment.size },
+                        value.caption,
+                        value.clientMessageId
+                    );
+
+                    return resolve(chatMessage);
+                } catch (error) {
+                    return reject(error);
+                }
+            })
+        })
+    }
 }
\ No newline at end of file
@@ -5,27 +5,65 @@ import CustomAPIError from "../exceptions/CustomAPIError";
 import datasources from  '../services/dao';
 import { appCommonTypes } from '../@types/app-common';
 import Joi from 'joi';
-import { $deliverySchema, $editDeliverySchema, IDeliveryModel } from '../models/Delivery';
+import { $deliveryQuoteSchema, $deliverySchema, $editDeliverySchema, IDeliveryModel } from '../models/Delivery';
 import Generic from '../utils/Generic';
 import {
     PENDING,
-    MAX_DISTANCE,
     DELIVERED,
     ON_TRANSIT,
     CANCELED,
-    PACKAGE_REQUEST_INFO,
-    PAID
+    PAID,
+    DISPATCH_MATCHED,
+    DISPATCH_REQUESTED,
+    ACTOR_ADMIN,
+    ACTOR_CUSTOMER,
+    RIDER_REQUESTED,
+    RIDER_READY_TO_COLLECT_PACKAGE,
+    SCHEDULED,
+    UPLOAD_BASE_PATH,
+    MAX_SIZE_IN_BYTE,
+    ALLOWED_FILE_TYPES,
+    MESSAGES,
+    NOTIFICATION_DELIVERY_CANCELED
 } from '../config/constants';
 import HttpResponse = appCommonTypes.HttpResponse;
-import { CUSTOMER_PERMISSION, DELETE_DELIVERY, MANAGE_ALL, MANAGE_SOME, READ_DELIVERY } from '../config/settings';
+import { CUSTOMER_PERMISSION, DELETE_DELIVERY, MANAGE_ALL, MANAGE_SOME, READ_DELIVERY, RIDER_PERMISSION } from '../config/settings';
 import RabbitMqService from '../services/RabbitMqService';
-import RiderLocation from '../models/RiderLocation';
 import { Socket } from 'socket.io';
-import RedisService from '../services/RedisService';
+import DispatchSessionService from '../services/DispatchSessionService';
+import DeliveryStatusService from '../services/DeliveryStatusService';
+import DeliveryProofService from '../services/DeliveryProofService';
+import PricingService from '../services/PricingService';
+import WalletLedgerService from '../services/WalletLedgerService';
+import RefundPolicyService from '../services/RefundPolicyService';
+import RiderMatchingService from '../services/RiderMatchingService';
+import RiderVehicleService from '../services/RiderVehicleService';
+import DeliverySchedulerService from '../services/DeliverySchedulerService';
+import DeliveryTrackingService from '../services/DeliveryTrackingService';
+import LocationHistoryService from '../services/LocationHistoryService';
+import ChatService from '../services/ChatService';
+import NotificationInboxService from '../services/NotificationInboxService';
+import formidable, { File } from 'formidable';
+import AppLogger from '../utils/AppLogger';
 import { appModelTypes } from '../@types/app-model';
-import IPackageRequestData = appModelTypes.IPackageRequestData;
-
-const redisService = new RedisService();
+import ITripDetails = appModelTypes.ITripDetails;
+
+const logger = AppLogger.init('server').logger;
+const dispatchSessionService = new DispatchSessionService();
+const deliveryStatusService = new DeliveryStatusService();
+const deliveryProofService = new DeliveryProofService();
+const pricingService = new PricingService();
+const walletLedgerService = new WalletLedgerService();
+const refundPolicyService = new RefundPolicyService();
+const riderMatchingService = new RiderMatchingService();
+const riderVehicleService = new RiderVehicleService();
+const deliverySchedulerService = new DeliverySchedulerService();
+const deliveryTrackingService = new DeliveryTrackingService();
+const locationHistoryService = new LocationHistoryService();
+const chatService = new ChatService();
+const notificationInboxService = new NotificationInboxService();
+
+const form = formidable({ uploadDir: UPLOAD_BASE_PATH });
 const rabbitMqService = new RabbitMqService();
 
 export default class DeliveryController {
@@ -34,11 +72,9 @@ export default class DeliveryController {
     /***
      * @name delivery
      * @req This requests for the user id 
-     * @desc The api calculates speed and fee based on
-     * @desc the vehicle selected. then it calculates the 
-     * @desc distance between the sender and recipient.
-     * @desc it uses the distance gotten to calculate
-     * @desc the delivery fee per kilometer
+     * @desc The api prices the delivery from the vehicle
+     * @desc type selected and its fare rule, the itemised
+     * @desc fare is saved on the delivery with the fee
      * 
      */
     @TryCatch
@@ -56,6 +92,34 @@ export default class DeliveryController {
     
     };
     
+    /***
+     * @name deliveryQuote
+     * @desc prices a trip on every active vehicle type
+     * @desc without creating a delivery, the quote id
+     * @desc can be sent with POST /delivery to keep the
+     * @desc quoted fee until the quote expires
+     * 
+     */
+    @TryCatch
+    @HasPermission([CUSTOMER_PERMISSION])
+    public async deliveryQuote (req: Request) {
+        //@ts-ignore
+        const customerId = req.user._id
+
+        const { error, value } = Joi.object<any>($deliveryQuoteSchema).validate(req.body);
+        if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+        const quote = await pricingService.issueQuote(customerId, this.tripOf(value));
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Delivery quote',
+            result: quote
+        };
+      
+        return Promise.resolve(response);
+    };
+
     @TryCatch
     @HasPermission([CUSTOMER_PERMISSION])
     public async payForDelivery (req: Request) {
@@ -119,6 +183,70 @@ export default class DeliveryController {
         return Promise.resolve(response);
     };
 
+    /**
+     * 
+     * @param req delivery id 
+     * @desc gets the status history of a delivery
+     * @returns the delivery events, oldest first
+     * 
+     */
+    @TryCatch
+    @HasPermission([CUSTOMER_PERMISSION, RIDER_PERMISSION, MANAGE_ALL, MANAGE_SOME, READ_DELIVERY])
+    public async getDeliveryTimeline(req: Request) {
+
+        const deliveryId = req.params.deliveryId
+
+        const delivery = await datasources.deliveryDAOService.findById(deliveryId);
+        if(!delivery)
+            return Promise.reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+        //customers and riders only read the timeline of their own deliveries
+        const staff = req.permissions.some(permission => [MANAGE_ALL, MANAGE_SOME, READ_DELIVERY].includes(permission.name));
+        //@ts-ignore
+        const userId = `${req.user._id}`;
+
+        if(!staff && `${delivery.customer}` !== userId && `${delivery.rider}` !== userId)
+            return Promise.reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+        const events = await deliveryStatusService.timeline(delivery._id);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            results: events,
+        };
+      
+        return Promise.resolve(response);
+    };
+
+    /**
+     * 
+     * @param req delivery id 
+     * @desc replays the path the rider drove for a delivery
+     * @returns a GeoJSON LineString feature with the distance driven and idle periods
+     * 
+     */
+    @TryCatch
+    @HasPermission([MANAGE_ALL, MANAGE_SOME, READ_DELIVERY])
+    public async getDeliveryRoute(req: Request) {
+
+        const deliveryId = req.params.deliveryId
+
+        const delivery = await datasources.deliveryDAOService.findById(deliveryId);
+        if(!delivery)
+            return Promise.reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+        const route = await locationHistoryService.replay(delivery);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            result: route,
+        };
+      
+        return Promise.resolve(response);
+    };
+
     /**
      * 
      * @param req user id 
@@ -234,26 +362,65 @@ export default class DeliveryController {
         if(delivery.status === CANCELED)
             return Promise.reject(CustomAPIError.response('Can not cancel delivery at this time, already canceled.', HttpStatus.BAD_REQUEST.code));
 
-        if(delivery.status === PAID)
-            return Promise.reject(CustomAPIError.response('Cannot cancel delivery at this time; it has already been paid for.', HttpStatus.BAD_REQUEST.code));
+        //@ts-ignore
+        const userId = req.user._id;
+        const actorType = this.actorType(req);
 
-        const wallet = await datasources.walletDAOService.findByAny({customer: delivery.customer});
-        if(!wallet)
-            return Promise.reject(CustomAPIError.response('Wallet not found', HttpStatus.NOT_FOUND.code));
+        if(actorType === ACTOR_CUSTOMER && `${delivery.customer}` !== `${userId}`)
+            return Promise.reject(CustomAPIError.response('Delivery not found.', HttpStatus.NOT_FOUND.code));
 
-        await datasources.deliveryDAOService.updateByAny(
-            { _id: deliveryId },
-            { status: CANCELED }
+        //the refund is owed from the same write, the recovery job finishes it if paying it out fails here
+        const $delivery = await deliveryStatusService.transition(
+            delivery._id,
+            { to: CANCELED, actor: userId, actorType },
+            { pendingRefund: { actorType, canceledFrom: delivery.status } }
         );
 
-        await datasources.walletDAOService.updateByAny(
-            { customer: delivery.customer },
-            { balance: wallet.balance + delivery.deliveryFee }
-        )
+        const refund = await refundPolicyService.finishRefund($delivery).catch(error => {
+            logger.error(`Refund of delivery ${delivery.deliveryRefNumber} failed, it will be retried: ${error.message}`);
+            return null;
+        });
+
+        if(delivery.rider) await rabbitMqService.freeRider(delivery.rider);
+
+        await dispatchSessionService.close(delivery.deliveryRefNumber);
+        deliveryTrackingService.stop(delivery.deliveryRefNumber);
+
+        await chatService.system(delivery._id, 'Delivery canceled');
+        await chatService.closeDeliveryChat(delivery._id);
+
+        const canceled = { deliveryId: delivery._id, deliveryRefNumber: delivery.deliveryRefNumber };
+
+        await notificationInboxService.notify({ id: delivery.customer, type: 'customer' }, {
+            type: NOTIFICATION_DELIVERY_CANCELED,
+            title: 'Delivery canceled',
+            body: !refund
+                ? `Delivery ${delivery.deliveryRefNumber} was canceled, your refund is being processed.`
+                : refund.refund
+                    ? `Delivery ${delivery.deliveryRefNumber} was canceled, ${refund.refund} was refunded to your wallet.`
+                    : `Delivery ${delivery.deliveryRefNumber} was canceled.`,
+            data: { ...canceled, refund: refund?.refund ?? null }
+        });
+
+        if(delivery.rider)
+            await notificationInboxService.notify({ id: delivery.rider, type: 'rider' }, {
+                type: NOTIFICATION_DELIVERY_CANCELED,
+                title: 'Delivery canceled',
+                body: `Delivery ${delivery.deliveryRefNumber} was canceled by the ${actorType}.`,
+                data: { ...canceled, compensation: refund?.riderCompensation ?? null }
+            });
+
+        if(delivery.status === SCHEDULED)
+            await deliverySchedulerService.unschedule(delivery);
 
         const response: HttpResponse<any> = {
             code: HttpStatus.OK.code,
-            message: 'Delivery canceled successfully'
+            message: refund ? 'Delivery canceled successfully' : 'Delivery canceled, the refund is being processed',
+            result: {
+                refund: refund?.refund ?? null,
+                cancellationFee: refund?.cancellationFee ?? null,
+                riderCompensation: refund?.riderCompensation ?? null
+            }
         };
       
         return Promise.resolve(response);
@@ -262,7 +429,10 @@ export default class DeliveryController {
     /***
      * @name findRiders
      * @desc finds riders that are located 1000km
-     * @desc around a customer
+     * @desc around a customer and ranks the eligible ones
+     * @desc nearest first, the ranked list is kept on the
+     * @desc dispatch session so the job can be offered to
+     * @desc each rider in turn
      * @returns the rider data closest to the customer
      * @returns the rider time of arrival
      */
@@ -295,99 +465,27 @@ export default class DeliveryController {
         if(delivery.status === CANCELED || delivery.status === DELIVERED)
             return Promise.reject(CustomAPIError.response('No pending delivery, please fill out a new delivery', HttpStatus.NOT_FOUND.code));
 
-        const customerLongitude = delivery.senderLocation.coordinates[0];
-        const customerLatitude = delivery.senderLocation.coordinates[1];
-        const deliveryRefNumber = delivery.deliveryRefNumber;
-        const estimatedDeliveryTime = delivery.estimatedDeliveryTime;
-
-        const riderLocations = await RiderLocation.aggregate([
-            {
-              $geoNear: {
-                near: {
-                  type: 'Point',
-                  coordinates: [customerLongitude, customerLatitude],
-                },
-                distanceField: 'distance',
-                maxDistance: MAX_DISTANCE,
-                spherical: true,
-              },
-            },
-            {
-                $sort: { distance: 1 }
-            }
-        ]).exec();
-
-        if(!riderLocations.length)
-            return Promise.reject(CustomAPIError.response('No rider is available at the moment', HttpStatus.NOT_FOUND.code));
-
-        const riderIds = riderLocations.map((riderLocation) => riderLocation.rider);
-        const riders = await datasources.riderDAOService.findAll({ _id: { $in: riderIds } });
-
-        /*** Logic to find rider that meets these criteria
-         * 1. online
-         * 2. active
-         * 3. rider license is not expired
-         * 4. rider vehicle type is same as delivery vehicle type
-         */
-        let rider: any = null;
-        for (const riderLoc of riders) {
-            
-            const _rider = await datasources.riderDAOService.findById(riderLoc._id);
-            const _rider_license = await datasources.riderLicenseDAOService.findByAny({ rider: riderLoc._id });
+        if(delivery.status === SCHEDULED)
+            return Promise.reject(CustomAPIError.response('Delivery is scheduled, a rider will be requested before the pickup time', HttpStatus.BAD_REQUEST.code));
 
-            const isValidRider =
-              _rider?.status === 'online' &&
-              _rider?.active &&
-              !_rider_license?.isExpired;
+        if(delivery.status === PENDING)
+            return Promise.reject(CustomAPIError.response('Pay for the delivery before requesting a rider', HttpStatus.BAD_REQUEST.code));
 
-            if (isValidRider) {
-              const riderVehicle = await datasources.vehicleDAOService.findByAny({rider: _rider._id});
+        //a rider is only matched to a paid delivery nobody has accepted yet
+        if(delivery.status !== PAID)
+            return Promise.reject(CustomAPIError.response('A rider is already handling this delivery', HttpStatus.BAD_REQUEST.code));
 
-              if (riderVehicle && riderVehicle.vehicleType === delivery.vehicle) {
-                rider = _rider;
-                break;
-              }
-            }
-        }
-        /** Logic End */
+        const candidates = await riderMatchingService.rank(delivery);
 
-        if(rider === null)
+        if(!candidates.length)
             return Promise.reject(CustomAPIError.response('No rider is currently online', HttpStatus.NOT_FOUND.code));
 
-        const vehicle = await datasources.vehicleDAOService.findByAny({
-            rider: rider?._id
-        });
-
-        const bike = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'bike'});
-        const car = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'car'});
-        const van = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'van'});
-        const truck = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'truck'});
-
-        if(!bike || !car || !van || !truck)
-            return Promise.reject(CustomAPIError.response('Vehicle type not found', HttpStatus.NOT_FOUND.code))
-
-        let speedInKmPerHour = 0;
-        if(vehicle){
-            //checks speed and fee based on vehicle selected
-            if(vehicle?.vehicleType === 'bike') {
-                speedInKmPerHour += bike.speed
-            } else if(vehicle?.vehicleType === 'car') {
-                speedInKmPerHour += car.speed
-            } else if(vehicle?.vehicleType === 'van') {
-                speedInKmPerHour += van.speed
-            } else {
-                speedInKmPerHour += truck.speed
-            };
-        }
-
-        const riderLoc = riderLocations.find((data) => data.rider.equals(rider.id));
-        const estimatedTimeToSender = () => {
-            const distanceKm = riderLoc.distance / 1000;
-            return distanceKm / speedInKmPerHour
-        }
+        const candidate = candidates[0];
+        const rider = await datasources.riderDAOService.findById(candidate.riderId);
+        if(!rider)
+            return Promise.reject(CustomAPIError.response('No rider is currently online', HttpStatus.NOT_FOUND.code));
 
-        const hours = Math.floor(estimatedTimeToSender());
-        const minutes = Math.round((estimatedTimeToSender() - hours) * 60);
+        const vehicle = await riderVehicleService.activeVehicleOf(rider._id);
 
         const pinRiderLoc = await datasources.riderLocationDAOService.findByAny({
             rider: rider._id
@@ -410,36 +508,13 @@ export default class DeliveryController {
             vehicleDetails: `${vehicle?.vehicleColor} ${vehicle?.vehicleModel} ${vehicle?.vehicleName} ${vehicle?.vehicleModel}`
         };
 
-        let arrivalTime = 0
-        if(minutes <= 2) {
-            arrivalTime += 2
-        } else {
-            arrivalTime += minutes
-        };
-
-        const senderDetials = await datasources.customerDAOService.findById(delivery.customer);
-
-        const packageRequestData: IPackageRequestData = {
-            customerId: customerId,
-            recipientAddress: delivery.recipientAddress,
-            senderAddress: delivery.senderAddress,
-            riderId: rider._id,
-            riderFirstName: rider.firstName,
-            senderName: delivery.senderName,
-            arrivalTime: `Rider will arrive in ${arrivalTime}min`,
-            deliveryRefNumber: deliveryRefNumber,
-            estimatedDeliveryTime: estimatedDeliveryTime,
-            deliveryId: delivery._id,
-            senderPhoto: senderDetials?.profileImageUrl,
-            riderPhoto: rider.profileImageUrl
-        }
+        const packageRequestData = await riderMatchingService.packageRequest(delivery, candidate);
 
-        const redisData = JSON.stringify(packageRequestData)
-        redisService.saveToken(PACKAGE_REQUEST_INFO, redisData)
+        await dispatchSessionService.open(packageRequestData, candidates);
 
         const response: HttpResponse<any> = {
             code: HttpStatus.OK.code,
-            message: `Rider is ${arrivalTime}min away from your location`,
+            message: `Rider is ${candidate.arrivalMinutes}min away from your location`,
             result: riderData
         };
       
@@ -451,14 +526,20 @@ export default class DeliveryController {
     public async packageRequest(req: Request, socket: Socket<any, any, any, any>) {
         await rabbitMqService.connectToRabbitMQ()
 
-        const rider = await redisService.getToken(PACKAGE_REQUEST_INFO);
+        const { error, value } = Joi.object<any>({
+            deliveryRef: Joi.string().required().label("Delivery reference")
+        }).validate(req.body);
+        if(error) return Promise.reject(
+            CustomAPIError.response(
+                error.details[0].message, HttpStatus.BAD_REQUEST.code));
 
-        let packageRequest: any = null
-        if(rider) {
-            packageRequest = rider
-        }
+        const session = await dispatchSessionService.transition(
+            value.deliveryRef,
+            [DISPATCH_MATCHED],
+            DISPATCH_REQUESTED
+        );
 
-        await rabbitMqService.submitPackageRequest(packageRequest, socket)
+        await rabbitMqService.submitPackageRequest(session, socket)
 
         const response: HttpResponse<any> = {
             code: HttpStatus.OK.code,
@@ -469,24 +550,40 @@ export default class DeliveryController {
     }
 
     @TryCatch
+    @HasPermission([RIDER_PERMISSION])
     public async sendDriverResponse(req: Request) {
+        //@ts-ignore
+        const riderId = req.user._id;
+
         await rabbitMqService.connectToRabbitMQ();
 
         const { error, value } = Joi.object<any>({
-            availability: Joi.boolean().required().label("Delivery availability")
+            availability: Joi.boolean().required().label("Delivery availability"),
+            deliveryRef: Joi.string().required().label("Delivery reference")
         }).validate(req.body);
         if(error) return Promise.reject(
             CustomAPIError.response(
                 error.details[0].message, HttpStatus.BAD_REQUEST.code));
 
-        const customerDetail: any = await redisService.getToken(PACKAGE_REQUEST_INFO);
+        const customerDetail = await dispatchSessionService.get(value.deliveryRef);
 
-        if(!customerDetail)
+        if(!customerDetail || customerDetail.status !== DISPATCH_REQUESTED)
             return Promise.reject(CustomAPIError.response('Response was sent to the customer already', HttpStatus.BAD_REQUEST.code));
 
+        if(`${customerDetail.riderId}` !== `${riderId}`)
+            return Promise.reject(CustomAPIError.response('Delivery request was not offered to you', HttpStatus.FORBIDDEN.code));
+
+        if(customerDetail.offerExpiresAt && new Date(customerDetail.offerExpiresAt) <= new Date())
+            return Promise.reject(CustomAPIError.response('Delivery request has expired', HttpStatus.BAD_REQUEST.code));
+
+        const rider = await datasources.riderDAOService.findById(riderId);
+        if(value.availability && rider?.busy)
+            return Promise.reject(CustomAPIError.response('Finish your current delivery before accepting another', HttpStatus.BAD_REQUEST.code));
+
         const riderResponse = {
             customerId: customerDetail.customerId,
-            riderId: customerDetail.riderId,
+            riderId,
+            deliveryRefNumber: customerDetail.deliveryRefNumber,
             availability: value.availability,
             arrivalTime: customerDetail.arrivalTime,
             riderPhoto: customerDetail.riderPhoto,
@@ -503,6 +600,94 @@ export default class DeliveryController {
         return Promise.resolve(response);
     }
 
+    /**
+     * 
+     * @param req delivery id 
+     * @desc the rider gives back a delivery they accepted but have not picked
+     * @desc up yet, it is offered to the next rider and counts against their score
+     * 
+     */
+    @TryCatch
+    @HasPermission([RIDER_PERMISSION])
+    public async releaseDelivery(req: Request) {
+        //@ts-ignore
+        const riderId = req.user._id;
+
+        await rabbitMqService.connectToRabbitMQ();
+
+        const delivery = await datasources.deliveryDAOService.findById(req.params.deliveryId);
+        if(!delivery || `${delivery.rider}` !== `${riderId}`)
+            return Promise.reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+        if(delivery.status !== RIDER_REQUESTED && delivery.status !== RIDER_READY_TO_COLLECT_PACKAGE)
+            return Promise.reject(CustomAPIError.response('Only a delivery that was not picked up yet can be released', HttpStatus.BAD_REQUEST.code));
+
+        const session = await dispatchSessionService.get(delivery.deliveryRefNumber);
+        if(!session || `${session.riderId}` !== `${riderId}`)
+            return Promise.reject(CustomAPIError.response('Dispatch session not found or expired', HttpStatus.NOT_FOUND.code));
+
+        await rabbitMqService.releaseDelivery(session);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Delivery released, it will be offered to another rider'
+        };
+      
+        return Promise.resolve(response);
+    }
+
+    /**
+     * 
+     * @param req delivery id 
+     * @desc sends a new drop-off code to the recipient,
+     * @desc the previous code stops working
+     * 
+     */
+    @TryCatch
+    @HasPermission([CUSTOMER_PERMISSION])
+    public async resendDeliveryOtp(req: Request) {
+        //@ts-ignore
+        const customerId = req.user._id;
+
+        const delivery = await datasources.deliveryDAOService.findById(req.params.deliveryId);
+        if(!delivery || `${delivery.customer}` !== `${customerId}`)
+            return Promise.reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+        if(delivery.status === DELIVERED || delivery.status === CANCELED)
+            return Promise.reject(CustomAPIError.response('Delivery is no longer active', HttpStatus.BAD_REQUEST.code));
+
+        await deliveryProofService.issueOtp(delivery);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Delivery code has been sent to the recipient'
+        };
+      
+        return Promise.resolve(response);
+    }
+
+    /**
+     * 
+     * @param req delivery id 
+     * @desc uploads the pickup photo, drop-off photo
+     * @desc and recipient signature of a delivery
+     * @returns the delivery with its proof of delivery
+     * 
+     */
+    @TryCatch
+    @HasPermission([RIDER_PERMISSION])
+    public async uploadDeliveryProof(req: Request) {
+        const delivery = await this.doUploadDeliveryProof(req);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Proof of delivery uploaded successfully',
+            result: delivery
+        };
+      
+        return Promise.resolve(response);
+    }
+
     @TryCatch
     public async getActiveCustomerDeliveries(req: Request) {
         //@ts-ignore
@@ -511,12 +696,12 @@ export default class DeliveryController {
         const deliveries = await datasources.deliveryDAOService.findAll({
             $and: [
                 { customer: customerId },
-                { status: { $nin: [DELIVERED, PENDING, CANCELED, PAID] } }
+                { status: { $nin: [DELIVERED, PENDING, CANCELED, PAID, SCHEDULED] } }
             ]
         });
     
         const result = await Promise.all(deliveries.map(async (delivery) => {
-            const vehicle = await datasources.vehicleDAOService.findByAny({ rider: delivery.rider });
+            const vehicle = await riderVehicleService.activeVehicleOf(delivery.rider);
     
             return {
                 ...delivery.toObject(),
@@ -545,7 +730,7 @@ export default class DeliveryController {
         const deliveries = await datasources.deliveryDAOService.findAll({
             $and: [
                 { rider: riderId },
-                { status: { $nin: [DELIVERED, PENDING, CANCELED, PAID] } }
+                { status: { $nin: [DELIVERED, PENDING, CANCELED, PAID, SCHEDULED] } }
             ]
         });
 
@@ -573,41 +758,22 @@ export default class DeliveryController {
                 HttpStatus.NOT_FOUND.code));
         }
 
-        const bike = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'bike'});
-        const car = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'car'});
-        const van = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'van'});
-        const truck = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'truck'});
+        const { quoteId, stops = [], ...deliveryData } = value;
 
-        if(!bike || !car || !van || !truck)
-            return Promise.reject(CustomAPIError.response('Vehicle type not found', HttpStatus.NOT_FOUND.code))
-        
-        //checks speed and fee based on vehicle selected
-        let speed = 0;
-        let fee = 0;
-        if(value.vehicle === 'bike') {
-            speed += bike.speed
-            fee += bike.costPerKm
-        } else if(value.vehicle === 'car') {
-            speed += car.speed
-            fee += car.costPerKm
-        } else if(value.vehicle === 'van') {
-            speed += van.speed
-            fee += van.costPerKm
-        } else {
-            speed += truck.speed
-            fee += truck.costPerKm
-        };
+        //a future pickup is held back and dispatched shortly before it
+        if(value.pickupTime)
+            deliverySchedulerService.validatePickupTime(value.pickupTime);
 
-        const distance = Generic
-            .location_difference(
-                value.senderLat,
-                value.senderLon,
-                value.recipientLat,
-                value.recipientLon,
-                speed //estimated speed of the rider
-            );
+        const trip = this.tripOf(value);
 
-        const _deliveryFee = +distance.distance.toFixed(2) * fee;
+        //the recipient of a multi-stop delivery is its last stop
+        const recipient = stops.length ? stops[stops.length - 1] : value;
+
+        //itemised fee from the vehicle type and its fare rule,
+        //a quote the customer got earlier is honoured until it expires
+        const quote = quoteId
+            ? pricingService.redeemQuote(quoteId, customerId, value.vehicle, trip)
+            : await pricingService.quote(value.vehicle, trip);
 
         const wallet = await datasources.walletDAOService.findByAny({
             customer: customerId
@@ -615,28 +781,49 @@ export default class DeliveryController {
         if(!wallet)
             return Promise.reject(CustomAPIError.response('Wallet not found', HttpStatus.NOT_FOUND.code));
         
-        // if(wallet.balance < _deliveryFee)
+        // if(wallet.balance < quote.deliveryFee)
         //     return Promise.reject(CustomAPIError.response('Wallet is low on cash, please fund wallet.', HttpStatus.BAD_REQUEST.code));
 
         const deliveryValue: Partial<IDeliveryModel> = {
-            ...value,
+            ...deliveryData,
             senderLocation: {
                 type: 'Point',
                 coordinates: [value.senderLon, value.senderLat]
             },
+            recipientName: recipient.recipientName,
+            recipientAddress: recipient.recipientAddress,
+            recipientPhone: recipient.recipientPhone,
             recipientLocation: {
                 type: 'Point',
-                coordinates: [value.recipientLon, value.recipientLat],
+                coordinates: [recipient.recipientLon, recipient.recipientLat],
             },
-            status: PENDING,
-            deliveryFee: Math.round(_deliveryFee + 0.5),
+            item: stops.length ? stops.map((stop: any) => stop.item).join(', ') : value.item,
+            stops: stops.map((stop: any) => ({
+                recipientName: stop.recipientName,
+                recipientAddress: stop.recipientAddress,
+                recipientPhone: stop.recipientPhone,
+                recipientLocation: {
+                    type: 'Point',
+                    coordinates: [stop.recipientLon, stop.recipientLat]
+                },
+                item: stop.item
+            })),
+            status: value.pickupTime ? SCHEDULED : PENDING,
+            deliveryFee: quote.deliveryFee,
+            fareBreakdown: quote.breakdown,
             customer: customerId,
-            estimatedDeliveryTime: `${distance.hours}:${distance.minutes}`,
+            estimatedDeliveryTime: quote.estimatedDeliveryTime,
             deliveryRefNumber: Generic.generateSlug(Generic.generateDeliveryRefNumber(6))
         };
 
         const delivery  = await datasources.deliveryDAOService.create(deliveryValue as IDeliveryModel);
 
+        //code the recipient gives the rider at drop-off
+        await deliveryProofService.issueOtp(delivery);
+
+        if(delivery.status === SCHEDULED)
+            await deliverySchedulerService.schedule(delivery);
+
         // if(delivery) {
         //     const amount = wallet && wallet.balance - delivery.deliveryFee;
 
@@ -674,7 +861,7 @@ export default class DeliveryController {
             deliveryRefNumber: value.deliveryRefNumber
         })
 
-        if(!delivery)
+        if(!delivery || `${delivery.customer}` !== `${customerId}`)
             return Promise.reject(CustomAPIError.response('Delivery not found.', HttpStatus.NOT_FOUND.code));
         
         if(delivery.status === PAID)
@@ -695,21 +882,24 @@ export default class DeliveryController {
                     'Wallet is low on cash, please fund wallet.', HttpStatus.BAD_REQUEST.code)
                 );
 
-        const amount = wallet.balance - delivery.deliveryFee;
+        //a scheduled delivery keeps its slot and is released as paid
+        const scheduled = delivery.status === SCHEDULED;
 
-        const walletBalance = {
-            balance: amount
-        };
+        if(scheduled && await walletLedgerService.escrowBalance(delivery.deliveryRefNumber) > 0)
+            return Promise.reject(CustomAPIError.response('Delivery already paid for.', HttpStatus.NOT_FOUND.code));
 
-        await datasources.deliveryDAOService.update(
-            {_id: delivery._id},
-            { status: PAID }
-        );
+        if(!scheduled && !deliveryStatusService.canTransition(delivery.status, PAID))
+            return Promise.reject(CustomAPIError.response(`Delivery can not be paid for while ${delivery.status}.`, HttpStatus.BAD_REQUEST.code));
 
-        const response = await datasources.walletDAOService.updateByAny(
-            { _id: wallet._id },
-            walletBalance
-        );
+        //the fee is held in escrow until the delivery is completed or canceled
+        const response = await walletLedgerService.payForDelivery(customerId, delivery);
+
+        if(!scheduled)
+            await deliveryStatusService.transition(delivery._id, {
+                to: PAID,
+                actor: customerId,
+                actorType: ACTOR_CUSTOMER
+            });
 
         return response;
     }
@@ -729,41 +919,26 @@ export default class DeliveryController {
         if(_delivery.status !== PENDING)
             return Promise.reject(CustomAPIError.response('Delivery can not be edited', HttpStatus.BAD_REQUEST.code));
 
-        const bike = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'bike'});
-        const car = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'car'});
-        const van = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'van'});
-        const truck = await datasources.vehicleTypeDAOService.findByAny({vehicleType: 'truck'});
-
-        if(!bike || !car || !van || !truck)
-            return Promise.reject(CustomAPIError.response('Vehicle type not found', HttpStatus.NOT_FOUND.code))
-        
-        //checks speed and fee based on vehicle selected
-        let speed = 0;
-        let fee = 0;
-        if(value.vehicle === 'bike') {
-            speed += bike.speed
-            fee += bike.costPerKm
-        } else if(value.vehicle === 'car') {
-            speed += car.speed
-            fee += car.costPerKm
-        } else if(value.vehicle === 'van') {
-            speed += van.speed
-            fee += van.costPerKm
-        } else {
-            speed += truck.speed
-            fee += truck.costPerKm
+        const editsRecipient = ['recipientName', 'recipientAddress', 'recipientLat', 'recipientLon', 'recipientPhone']
+            .some(field => value[field] !== undefined);
+
+        if(_delivery.stops?.length && editsRecipient)
+            return Promise.reject(CustomAPIError.response('Stops of a multi-stop delivery can not be edited', HttpStatus.BAD_REQUEST.code));
+
+        //fields left out of the edit keep their saved values
+        const trip = {
+            senderLat: value.senderLat ?? _delivery.senderLocation.coordinates[1],
+            senderLon: value.senderLon ?? _delivery.senderLocation.coordinates[0],
+            recipientLat: value.recipientLat ?? _delivery.recipientLocation.coordinates[1],
+            recipientLon: value.recipientLon ?? _delivery.recipientLocation.coordinates[0],
+            packageWeight: value.packageWeight ?? _delivery.packageWeight,
+            waypoints: (_delivery.stops || []).slice(0, -1).map(stop => ({
+                lat: stop.recipientLocation.coordinates[1],
+                lon: stop.recipientLocation.coordinates[0]
+            }))
         };
 
-        const distance = Generic
-            .location_difference(
-                value.senderLat,
-                value.senderLon,
-                value.recipientLat,
-                value.recipientLon,
-                speed //estimated speed of the rider
-            );
-
-        const _deliveryFee = +distance.distance.toFixed(2) * fee;
+        const quote = await pricingService.quote(value.vehicle || _delivery.vehicle, trip);
 
         const wallet = await datasources.walletDAOService.findByAny({
             customer: _delivery.customer
@@ -772,12 +947,7 @@ export default class DeliveryController {
         if(!wallet)
             return Promise.reject(CustomAPIError.response('Wallet not found', HttpStatus.NOT_FOUND.code));
         
-        let deliveryDiff: number = 0;
-        if(_delivery.deliveryFee > _deliveryFee) {
-            deliveryDiff += _delivery.deliveryFee - _deliveryFee
-        } else {
-            deliveryDiff += _delivery.deliveryFee - _deliveryFee
-        }
+        const deliveryDiff = _delivery.deliveryFee - quote.deliveryFee;
 
         const isNegative = !isNaN(deliveryDiff) && deliveryDiff < 0; //check if deliveryDiff is a negative number
 
@@ -788,16 +958,17 @@ export default class DeliveryController {
             ...value,
             senderLocation: {
                 type: 'Point',
-                coordinates: [value.senderLon, value.senderLat]
+                coordinates: [trip.senderLon, trip.senderLat]
             },
             recipientLocation: {
                 type: 'Point',
-                coordinates: [value.recipientLon, value.recipientLat],
+                coordinates: [trip.recipientLon, trip.recipientLat],
             },
             status: PENDING,
-            deliveryFee: _deliveryFee.toFixed(2),
+            deliveryFee: quote.deliveryFee,
+            fareBreakdown: quote.breakdown,
             customer: _delivery.customer,
-            estimatedDeliveryTime: distance.time
+            estimatedDeliveryTime: quote.estimatedDeliveryTime
         };
 
         const delivery  = await datasources.deliveryDAOService.updateByAny(
@@ -805,6 +976,9 @@ export default class DeliveryController {
             deliveryValue
         );
 
+        if(delivery && delivery.recipientPhone !== _delivery.recipientPhone)
+            await deliveryProofService.issueOtp(delivery);
+
         // if(delivery) {
         //     const amount = wallet && wallet.balance + deliveryDiff;
 
@@ -821,4 +995,95 @@ export default class DeliveryController {
         return delivery;
     }
 
+    private async doUploadDeliveryProof(req: Request): Promise<IDeliveryModel | null> {
+        return new Promise((resolve, reject) => {
+            form.parse(req, async (err, fields, files) => {
+
+                //@ts-ignore
+                const riderId = req.user._id;
+
+                const delivery = await datasources.deliveryDAOService.findById(req.params.deliveryId);
+                if(!delivery || `${delivery.rider}` !== `${riderId}`)
+                    return reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+                if(![RIDER_REQUESTED, RIDER_READY_TO_COLLECT_PACKAGE, ON_TRANSIT, DELIVERED].includes(delivery.status))
+                    return reject(CustomAPIError.response('Delivery has not been assigned to you yet', HttpStatus.BAD_REQUEST.code));
+
+                const pickup_photo = files.pickupPhoto as File;
+                const drop_off_photo = files.dropOffPhoto as File;
+                const signature = files.signature as File;
+
+                if(!pickup_photo && !drop_off_photo && !signature)
+                    return reject(CustomAPIError.response('Pickup photo, drop-off photo or signature is required', HttpStatus.BAD_REQUEST.code));
+
+                if((drop_off_photo || signature) && delivery.status !== ON_TRANSIT && delivery.status !== DELIVERED)
+                    return reject(CustomAPIError.response('Package has not been picked up yet', HttpStatus.BAD_REQUEST.code));
+
+                for (const image of [pickup_photo, drop_off_photo, signature]) {
+                    if(!image) continue;
+
+                    // File size validation
+                    if (image.size > MAX_SIZE_IN_BYTE)
+                        return reject(CustomAPIError.response(MESSAGES.image_size_error, HttpStatus.BAD_REQUEST.code));
+
+                    // File type validation
+                    if (!ALLOWED_FILE_TYPES.includes(image.mimetype as string))
+                        return reject(CustomAPIError.response(MESSAGES.image_type_error, HttpStatus.BAD_REQUEST.code));
+                }
+
+                const basePath = `${UPLOAD_BASE_PATH}/delivery`;
+                const proof: any = {};
+
+                if(pickup_photo)
+                    proof['proofOfDelivery.pickupPhotoUrl'] = await Generic.getImagePath({
+                        tempPath: pickup_photo.filepath,
+                        filename: pickup_photo.originalFilename as string,
+                        basePath,
+                    });
+
+                if(drop_off_photo)
+                    proof['proofOfDelivery.dropOffPhotoUrl'] = await Generic.getImagePath({
+                        tempPath: drop_off_photo.filepath,
+                        filename: drop_off_photo.originalFilename as string,
+                        basePath,
+                    });
+
+                if(signature)
+                    proof['proofOfDelivery.signatureUrl'] = await Generic.getImagePath({
+                        tempPath: signature.filepath,
+                        filename: signature.originalFilename as string,
+                        basePath,
+                    });
+
+                const updated = await datasources.deliveryDAOService.updateByAny(
+                    { _id: delivery._id },
+                    proof
+                );
+
+                return resolve(updated);
+            })
+        })
+    }
+
+    //the route priced for a delivery request, through every stop it lists
+    private tripOf(value: any): ITripDetails {
+        const stops: any[] = value.stops || [];
+        const recipient = stops.length ? stops[stops.length - 1] : value;
+
+        return {
+            senderLat: value.senderLat,
+            senderLon: value.senderLon,
+            recipientLat: recipient.recipientLat,
+            recipientLon: recipient.recipientLon,
+            packageWeight: value.packageWeight,
+            pickupAt: value.pickupTime,
+            waypoints: stops.slice(0, -1).map(stop => ({ lat: stop.recipientLat, lon: stop.recipientLon }))
+        };
+    }
+
+    //an admin is whoever holds MANAGE_ALL, everyone else acts as a customer
+    private actorType(req: Request) {
+        return req.permissions.some(permission => permission.name === MANAGE_ALL) ? ACTOR_ADMIN : ACTOR_CUSTOMER;
+    }
+
 }
\ No newline at end of file
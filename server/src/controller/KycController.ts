@@ -0,0 +1,228 @@
+import { Request } from 'express';
+import Joi from 'joi';
+import formidable, { File } from 'formidable';
+import { HasPermission, TryCatch } from '../decorators';
+import HttpStatus from '../helpers/HttpStatus';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import { appCommonTypes } from '../@types/app-common';
+import { MANAGE_ALL, MANAGE_SOME, RIDER_PERMISSION } from '../config/settings';
+import {
+  DOCUMENT_FILE_TYPES,
+  DOCUMENT_MAX_SIZE,
+  KYC_APPROVED,
+  KYC_REJECTED,
+  KYC_RESUBMISSION_REQUESTED,
+  KYC_SUBMITTED,
+  KYC_UNDER_REVIEW,
+  UPLOAD_BASE_PATH
+} from '../config/constants';
+import { IKycCaseModel } from '../models/KycCase';
+import RiderKycService from '../services/RiderKycService';
+import Generic from '../utils/Generic';
+
+import HttpResponse = appCommonTypes.HttpResponse;
+
+const riderKycService = new RiderKycService();
+const form = formidable({ uploadDir: UPLOAD_BASE_PATH });
+
+const $kycReason: Joi.SchemaMap<any> = {
+  reason: Joi.string().required().label('reason')
+};
+
+export default class KycController {
+
+  /**
+   *
+   * @param req selfie, vehiclePapers and vehiclePhoto files
+   * @desc submits the rider's license, vehicle and bank details with the uploaded
+   * @desc documents for review, or submits them again when an admin asked for it
+   *
+   */
+  @TryCatch
+  @HasPermission([RIDER_PERMISSION])
+  public async submitKyc(req: Request) {
+    const kycCase = await this.doSubmitKyc(req);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Your documents were submitted for review',
+      result: kycCase,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([RIDER_PERMISSION])
+  public async getMyKyc(req: Request) {
+    //@ts-ignore
+    const riderId = req.user._id;
+
+    const kycCase = await riderKycService.caseOf(riderId);
+    if(!kycCase) return Promise.reject(CustomAPIError.response('You have not submitted your verification', HttpStatus.NOT_FOUND.code));
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: kycCase,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async getKycQueue(req: Request) {
+    const { error, value } = Joi.object<any>({
+      status: Joi.string()
+        .valid(KYC_SUBMITTED, KYC_UNDER_REVIEW, KYC_APPROVED, KYC_REJECTED, KYC_RESUBMISSION_REQUESTED)
+        .label('status')
+    }).validate(req.query);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const cases = await riderKycService.queue(value.status);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      results: cases,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async getKycCase(req: Request) {
+    const kycCase = await riderKycService.find(req.params.caseId);
+    const trail = await riderKycService.trail(kycCase);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: { kycCase, trail },
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async claimKycCase(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const kycCase = await riderKycService.claim(req.params.caseId, userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Verification is now under your review',
+      result: kycCase,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async approveKycCase(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const kycCase = await riderKycService.approve(req.params.caseId, userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Verification approved',
+      result: kycCase,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async rejectKycCase(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>($kycReason).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const kycCase = await riderKycService.reject(req.params.caseId, userId, value.reason);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Verification rejected',
+      result: kycCase,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async requestKycResubmission(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>($kycReason).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const kycCase = await riderKycService.requestResubmission(req.params.caseId, userId, value.reason);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Rider was asked to submit their verification again',
+      result: kycCase,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  private async doSubmitKyc(req: Request): Promise<IKycCaseModel> {
+    return new Promise((resolve, reject) => {
+      form.parse(req, async (err, fields, files) => {
+        try {
+          //@ts-ignore
+          const riderId = req.user._id;
+
+          const documents = {
+            selfieUrl: files.selfie as File,
+            papersUrl: files.vehiclePapers as File,
+            vehiclePhotoUrl: files.vehiclePhoto as File
+          };
+
+          for (const document of Object.values(documents)) {
+            if(!document) continue;
+
+            // File size validation
+            if (document.size > DOCUMENT_MAX_SIZE)
+              return reject(CustomAPIError.response('Document size exceeds the allowed limit', HttpStatus.BAD_REQUEST.code));
+
+            // File type validation
+            if (!DOCUMENT_FILE_TYPES.includes(document.mimetype as string))
+              return reject(CustomAPIError.response('Invalid document format. Only JPEG, PNG, JPG and PDF files are allowed', HttpStatus.BAD_REQUEST.code));
+          }
+
+          const basePath = `${UPLOAD_BASE_PATH}/kyc`;
+          const uploads: Record<string, string> = {};
+
+          for (const [name, document] of Object.entries(documents)) {
+            if(!document) continue;
+
+            uploads[name] = await Generic.getImagePath({
+              tempPath: document.filepath,
+              filename: document.originalFilename as string,
+              basePath,
+            });
+          }
+
+          return resolve(await riderKycService.submit(riderId, uploads));
+        } catch (error) {
+          return reject(error);
+        }
+      })
+    })
+  }
+}
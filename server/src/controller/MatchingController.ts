@@ -0,0 +1,84 @@
+import { Request } from 'express';
+import Joi from 'joi';
+import { HasPermission, TryCatch } from '../decorators';
+import HttpStatus from '../helpers/HttpStatus';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import datasources from '../services/dao';
+import { appCommonTypes } from '../@types/app-common';
+import { MANAGE_ALL, MANAGE_SOME } from '../config/settings';
+import { $saveMatchingWeightsSchema } from '../models/MatchingWeights';
+import RiderScoringService from '../services/RiderScoringService';
+import RiderMatchingService from '../services/RiderMatchingService';
+
+import HttpResponse = appCommonTypes.HttpResponse;
+
+const riderScoringService = new RiderScoringService();
+const riderMatchingService = new RiderMatchingService();
+
+export default class MatchingController {
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async getMatchingWeights(req: Request) {
+    const weights = await riderScoringService.weights();
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: weights,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   *
+   * @param req the weight of distance, rating, acceptance, cancellation and idle time,
+   * @param req how many days of history rates look at and the idle time that scores full
+   * @desc replaces the weights riders are scored with from the next match on
+   *
+   */
+  @TryCatch
+  @HasPermission([MANAGE_ALL])
+  public async saveMatchingWeights(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>($saveMatchingWeightsSchema).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const weights = await riderScoringService.saveWeights(value, userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Matching weights saved',
+      result: weights,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   *
+   * @param req delivery id
+   * @desc the riders near the sender of the delivery in the order they would be
+   * @desc offered it, with each factor of their score and why the others were left out
+   *
+   */
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async explainMatching(req: Request) {
+    const delivery = await datasources.deliveryDAOService.findById(req.params.deliveryId);
+    if(!delivery) return Promise.reject(CustomAPIError.response('Delivery not found', HttpStatus.NOT_FOUND.code));
+
+    const explanation = await riderMatchingService.explain(delivery);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: explanation,
+    };
+
+    return Promise.resolve(response);
+  };
+}
@@ -0,0 +1,133 @@
+import { Request } from 'express';
+import Joi from 'joi';
+import { HasPermission, TryCatch } from '../decorators';
+import HttpStatus from '../helpers/HttpStatus';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import { appCommonTypes } from '../@types/app-common';
+import { MANAGE_ALL, MANAGE_SOME } from '../config/settings';
+import { CHANNEL_EMAIL, CHANNEL_SMS, MESSAGE_FAILED, MESSAGE_SENT } from '../config/constants';
+import MessageTemplateService from '../services/MessageTemplateService';
+import MessageService from '../services/MessageService';
+
+import HttpResponse = appCommonTypes.HttpResponse;
+
+const messageTemplateService = new MessageTemplateService();
+const messageService = new MessageService();
+
+export default class MessageTemplateController {
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async getMessageTemplates(req: Request) {
+    const templates = await messageTemplateService.latest();
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      results: templates,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async getMessageTemplateVersions(req: Request) {
+    const locale = req.query.locale as string | undefined;
+
+    const versions = await messageTemplateService.versions(req.params.key, locale);
+    if(!versions.length) return Promise.reject(CustomAPIError.response('Template not found', HttpStatus.NOT_FOUND.code));
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      results: versions,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   *
+   * @param req key, locale, subject, text and html of the template and the variables it uses
+   * @desc publishes a new version of the template, it is sent from now on
+   *
+   */
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async publishMessageTemplate(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>({
+      key: Joi.string().required().label('key'),
+      locale: Joi.string().required().label('locale'),
+      subject: Joi.string().required().label('subject'),
+      text: Joi.string().required().label('text'),
+      html: Joi.string().allow('').default('').label('html'),
+      variables: Joi.array().items(Joi.string()).default([]).label('variables')
+    }).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const template = await messageTemplateService.publish(value, userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.CREATED.code,
+      message: `Template ${template.key} version ${template.version} published`,
+      result: template,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   *
+   * @param req locale, version and the variables to fill in
+   * @desc renders a template the way it would be sent, without sending it
+   *
+   */
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async previewMessageTemplate(req: Request) {
+    const { error, value } = Joi.object<any>({
+      locale: Joi.string().optional().label('locale'),
+      version: Joi.number().integer().min(1).optional().label('version'),
+      variables: Joi.object().default({}).label('variables')
+    }).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const preview = await messageTemplateService.preview(req.params.key, value.variables, value.locale, value.version);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: preview,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  @HasPermission([MANAGE_ALL, MANAGE_SOME])
+  public async getMessageLog(req: Request) {
+    const { error, value } = Joi.object<any>({
+      channel: Joi.string().valid(CHANNEL_EMAIL, CHANNEL_SMS).optional().label('channel'),
+      to: Joi.string().optional().label('to'),
+      templateKey: Joi.string().optional().label('templateKey'),
+      status: Joi.string().valid(MESSAGE_SENT, MESSAGE_FAILED).optional().label('status'),
+      before: Joi.date().optional().label('before'),
+      limit: Joi.number().integer().min(1).max(200).optional().label('limit')
+    }).validate(req.query);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const messages = await messageService.log(value);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      results: messages,
+    };
+
+    return Promise.resolve(response);
+  };
+}
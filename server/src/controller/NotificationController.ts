@@ -0,0 +1,167 @@
+import { Request } from 'express';
+import Joi from 'joi';
+import { TryCatch } from '../decorators';
+import HttpStatus from '../helpers/HttpStatus';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import { appCommonTypes } from '../@types/app-common';
+import NotificationInboxService from '../services/NotificationInboxService';
+import NotificationDispatcherService from '../services/NotificationDispatcherService';
+import { NOTIFICATION_CHANNELS, PUSH_PROVIDER_APNS, PUSH_PROVIDER_FCM } from '../config/constants';
+
+import HttpResponse = appCommonTypes.HttpResponse;
+
+const notificationInboxService = new NotificationInboxService();
+const notificationDispatcherService = new NotificationDispatcherService();
+
+export default class NotificationController {
+
+  /**
+   *
+   * @param req unread, before and limit query
+   * @desc lists the inbox of the logged in customer, rider or admin
+   * @returns newest first with the unread count
+   *
+   */
+  @TryCatch
+  public async getNotifications(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>({
+      unread: Joi.boolean().optional().label('unread'),
+      before: Joi.date().optional().label('before'),
+      limit: Joi.number().integer().min(1).max(100).optional().label('limit')
+    }).validate(req.query);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const notifications = await notificationInboxService.list(userId, value);
+    const unread = await notificationInboxService.unreadCount(userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: { unread, notifications },
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  public async markNotificationRead(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const notification = await notificationInboxService.markRead(userId, req.params.notificationId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Notification marked as read',
+      result: notification,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  public async markAllNotificationsRead(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const updated = await notificationInboxService.markAllRead(userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: `${updated} notification(s) marked as read`
+    };
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   *
+   * @param req token, platform and provider of the app's push token
+   * @desc the app registers its token after sign in and whenever it changes
+   *
+   */
+  @TryCatch
+  public async registerDevice(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>({
+      token: Joi.string().required().label('token'),
+      platform: Joi.string().valid('android', 'ios', 'web').required().label('platform'),
+      provider: Joi.string().valid(PUSH_PROVIDER_FCM, PUSH_PROVIDER_APNS).default(PUSH_PROVIDER_FCM).label('provider')
+    }).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const device = await notificationDispatcherService.registerDevice(userId, value);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Device registered',
+      result: device,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  public async removeDevice(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    await notificationDispatcherService.removeDevice(userId, req.params.token);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Device removed'
+    };
+
+    return Promise.resolve(response);
+  };
+
+  @TryCatch
+  public async getNotificationPreferences(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const preferences = await notificationDispatcherService.preferences(userId);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: HttpStatus.OK.value,
+      result: preferences,
+    };
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   *
+   * @param req event and the channels to get it on, in fallback order
+   * @desc an empty list of channels mutes the event
+   *
+   */
+  @TryCatch
+  public async updateNotificationPreference(req: Request) {
+    //@ts-ignore
+    const userId = req.user._id;
+
+    const { error, value } = Joi.object<any>({
+      event: Joi.string().required().label('event'),
+      channels: Joi.array().items(Joi.string().valid(...NOTIFICATION_CHANNELS)).required().label('channels')
+    }).validate(req.body);
+    if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+    const channels = await notificationDispatcherService.setPreference(userId, value.event, value.channels);
+
+    const response: HttpResponse<any> = {
+      code: HttpStatus.OK.code,
+      message: 'Notification preference updated',
+      result: { event: value.event, channels },
+    };
+
+    return Promise.resolve(response);
+  };
+}
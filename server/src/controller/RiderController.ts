@@ -9,19 +9,29 @@ import HttpResponse = appCommonTypes.HttpResponse;
 import { appEventEmitter } from '../services/AppEventEmitter';
 import BcryptPasswordEncoder = appCommonTypes.BcryptPasswordEncoder;
 import RedisService from "../services/RedisService";
-import SendMailService from "../services/SendMailService";
+import MessageService from "../services/MessageService";
 import Generic from "../utils/Generic";
 import formidable, { File } from 'formidable';
-import { ALLOWED_FILE_TYPES, CHANGE_RIDER_PASSWORD, MAX_SIZE_IN_BYTE, MESSAGES, RIDER_STATUS_OFFLINE, RIDER_STATUS_ONLINE, RIDER_STATUS_PENDING, UPLOAD_BASE_PATH } from "../config/constants";
-import settings, { CUSTOMER_PERMISSION, DELETE_CUSTOMER, FETCH_LICENSE, MANAGE_ALL, MANAGE_SOME, READ_RIDER, READ_RIDER_REQUEST, RIDER_PERMISSION } from "../config/settings";
+import { ALLOWED_FILE_TYPES, CHANGE_RIDER_PASSWORD, MAX_SIZE_IN_BYTE, MESSAGES, RIDER_STATUS_OFFLINE, RIDER_STATUS_ONLINE, RIDER_STATUS_PENDING, TEMPLATE_PASSWORD_RESET, UPLOAD_BASE_PATH } from "../config/constants";
+import { CUSTOMER_PERMISSION, DELETE_CUSTOMER, FETCH_LICENSE, MANAGE_ALL, MANAGE_SOME, READ_RIDER, READ_RIDER_REQUEST, RIDER_PERMISSION } from "../config/settings";
 import { UPDATE_RIDER } from "../config/settings";
 import { $bankDetailRider, $changePassword, $editRiderProfileSchema, $resetPassword, $savePasswordAfterReset, $updateRiderSchema, IRiderModel } from "../models/Rider";
 import { $saveRiderAddress, $updateRiderAddress, IRiderAddressModel } from "../models/RiderAddress";
 import { IRiderLocationModel } from "../models/RiderLocation";
 import { $licenseSchema, IRiderLicenseModel } from "../models/RiderLicense";
+import DeliveryTrackingService from "../services/DeliveryTrackingService";
+import LocationHistoryService from "../services/LocationHistoryService";
+import RiderKycService from "../services/RiderKycService";
+import LicenseExpiryService from "../services/LicenseExpiryService";
+import RiderVehicleService from "../services/RiderVehicleService";
 
 const redisService = new RedisService();
-const sendMailService = new SendMailService();
+const messageService = new MessageService();
+const deliveryTrackingService = new DeliveryTrackingService();
+const locationHistoryService = new LocationHistoryService();
+const riderKycService = new RiderKycService();
+const licenseExpiryService = new LicenseExpiryService();
+const riderVehicleService = new RiderVehicleService();
 const form = formidable({ uploadDir: UPLOAD_BASE_PATH });
 
 export const riderRequestSchema: Joi.SchemaMap<any> =
@@ -132,7 +142,7 @@ export default class RiderController {
         const response: HttpResponse<any> = {
             code: HttpStatus.OK.code,
             message: rider_level === 5
-                        ? 'Verification of your license is ongoing this would take 2 working days'
+                        ? 'Submit your verification documents so your license can be reviewed'
                         : HttpStatus.OK.value,
             result: license
         };
@@ -225,6 +235,40 @@ export default class RiderController {
         return Promise.resolve(response);
     }
 
+    @TryCatch
+    @HasPermission([MANAGE_ALL, FETCH_LICENSE])
+    public async getLicenseExpiryReports(req: Request) {
+        const { error, value } = Joi.object<any>({
+            before: Joi.date().label('before'),
+            limit: Joi.number().integer().min(1).max(100).label('limit')
+        }).validate(req.query);
+        if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+        const reports = await licenseExpiryService.reports(value);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            results: reports
+        };
+
+        return Promise.resolve(response);
+    }
+
+    @TryCatch
+    @HasPermission([MANAGE_ALL, FETCH_LICENSE])
+    public async getLicenseExpiryReport(req: Request) {
+        const report = await licenseExpiryService.report(req.params.reportId);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            result: report
+        };
+
+        return Promise.resolve(response);
+    }
+
     @TryCatch
     @HasPermission([RIDER_PERMISSION])
     public async updateRiderLicense(req: Request) {
@@ -361,6 +405,15 @@ export default class RiderController {
             await datasources.riderLocationDAOService.create(locationValues as IRiderLocationModel)
         }
 
+        //@ts-ignore
+        const userId = req.user._id;
+
+        //only what the rider pushes is streamed to the customer of their delivery and kept as history
+        if(`${userId}` === `${rider._id}`) {
+            await locationHistoryService.record(rider._id, longitude, latitude);
+            await deliveryTrackingService.publish(rider._id, longitude, latitude);
+        }
+
         const response: HttpResponse<IRiderLocationModel> = {
             code: HttpStatus.OK.code,
             message: 'Location updated successfully'
@@ -479,12 +532,8 @@ export default class RiderController {
                 {passwordResetCode: token}
             )
 
-            sendMailService.sendMail({
-                from: settings.nodemailer.email,
-                to: value.email,
-                subject: 'Password Reset',
-                text: `Your password reset code is: ${token}`,
-            });
+            //the code is saved already, a failed email is logged and the rider can ask for a new code
+            await messageService.email(value.email as string, TEMPLATE_PASSWORD_RESET, { code: token }, messageService.localeOf(req)).catch(() => null);
 
             const response: HttpResponse<any> = {
                 code: HttpStatus.OK.code,
@@ -745,6 +794,9 @@ export default class RiderController {
             if(!rider.firstName || !rider.lastName || !rider.phone || !rider.email || !rider.gender) {
                 newStatus = RIDER_STATUS_OFFLINE
             } else {
+                if(!await riderKycService.isApproved(riderId))
+                    return Promise.reject(CustomAPIError.response('Rider verification has not been approved', HttpStatus.BAD_REQUEST.code));
+
                 newStatus = RIDER_STATUS_ONLINE
             }
         } else {
@@ -790,6 +842,20 @@ export default class RiderController {
         } else {
             if(riderLicense.isExpired)
                 return Promise.reject(CustomAPIError.response('Your vehicle license has expired please renew license', HttpStatus.BAD_REQUEST.code));
+
+            if(!await riderKycService.isApproved(riderId))
+                return Promise.reject(CustomAPIError.response('Your verification has to be approved before you can go online', HttpStatus.BAD_REQUEST.code));
+
+            // the rider picks which of their vehicles they work with today, the last one is kept otherwise
+            const { error, value } = Joi.object<any>({
+                vehicleId: Joi.string().label('vehicle id')
+            }).unknown().validate(req.body || {});
+            if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+            if(value.vehicleId)
+                await riderVehicleService.setActive(riderId, value.vehicleId);
+            else if(!await riderVehicleService.activeVehicleOf(riderId))
+                return Promise.reject(CustomAPIError.response('Vehicle is required to go online', HttpStatus.BAD_REQUEST.code));
             
             newStatus = RIDER_STATUS_ONLINE;
             updateStatus = true
@@ -983,7 +1049,12 @@ export default class RiderController {
 
                 const licenseValues = {
                     ...value,
-                    licenseImageUrl: license_image && licenseImageUrl
+                    licenseImageUrl: license_image && licenseImageUrl,
+                    //a renewed license is warned about again and no longer counts as expired
+                    ...(+expiryDate !== +new Date(rider.expiryDate) && {
+                        expiryWarnings: [],
+                        isExpired: expiryDate <= new Date()
+                    })
                 };
                 console.log(licenseValues)
                 const license = await datasources.riderLicenseDAOService.updateByAny(
@@ -8,16 +8,22 @@ import CustomAPIError from "../exceptions/CustomAPIError";
 import { HasPermission, TryCatch } from "../decorators";
 import { ITransactionModel } from "../models/Transaction";
 import axiosClient from '../services/api/axiosClient';
-import { INIT_TRANSACTION, PAYMENT_CHANNELS, PAYMENT_DONE, PAYMENT_IN_PROGRESS, SEVEN_DAYS_IN_MS } from "../config/constants";
+import { INIT_TRANSACTION, NOTIFICATION_PAYOUT_REQUESTED, PAYMENT_CHANNELS, PAYMENT_CURRENCY, PAYMENT_DONE, PAYMENT_IN_PROGRESS, PAYSTACK_PAYMENT_SUCCESS, PAYSTACK_SIGNATURE_HEADER, SEVEN_DAYS_IN_MS, TEMPLATE_PAYOUT_CONFIRMATION } from "../config/constants";
 import { IWalletModel } from "../models/Wallet";
 import { appEventEmitter } from "../services/AppEventEmitter";
 import { CUSTOMER_PERMISSION, MAKE_PAYMENT, MANAGE_ALL, MANAGE_SOME, READ_ADMIN_FEES, READ_PAYMENT_REQUEST, READ_TRANSACTION, RIDER_PERMISSION } from "../config/settings";
 import PaystackService from "../services/PaystackService";
 import Generic from "../utils/Generic";
-import RedisService from "../services/RedisService";
+import WalletLedgerService from "../services/WalletLedgerService";
+import PaystackWebhookService from "../services/PaystackWebhookService";
+import NotificationInboxService from "../services/NotificationInboxService";
+import MessageService from "../services/MessageService";
 
-const redisService = new RedisService();
 const paystackService = new PaystackService();
+const walletLedgerService = new WalletLedgerService();
+const paystackWebhookService = new PaystackWebhookService();
+const notificationInboxService = new NotificationInboxService();
+const messageService = new MessageService();
 
 interface IAddToWallet {
     customer: string,
@@ -109,6 +115,8 @@ export default class TransactionController {
             type: 'Payment',
             status: initResponse.data.message,
             amount: value.amount,
+            amountCharged: _amount,
+            currency: PAYMENT_CURRENCY,
             customer: customer._id
         };
 
@@ -159,36 +167,22 @@ export default class TransactionController {
 
         const data = axiosResponse.data.data;
 
-        const findWallet = await datasources.walletDAOService.findByAny({
-            customer: customer
-        });
-
-        // create wallet/update wallet
-        if(!findWallet) {
-
-            const walletValue: Partial<IWalletModel> = {
-                balance: transaction.amount,
-                customer: customer
-            }
-
-            const wallet = await datasources.walletDAOService.create(walletValue as IWalletModel)
-
-            wallet.transactions.push(transaction._id);
-            await wallet.save();
-        
-        } else {
-            const walletValue = {
-                balance: findWallet.balance + transaction.amount
-            }
-
-            const wallet = await datasources.walletDAOService.updateByAny(
-                {_id: findWallet._id},
-                walletValue
+        //an abandoned or failed payment is recorded but credits nothing
+        if (data.status !== 'success') {
+            await datasources.transactionDAOService.updateByAny(
+                { _id: transaction._id },
+                { status: data.status }
             );
 
-            wallet?.transactions.push(transaction._id);
-            await wallet?.save();
+            return Promise.reject(CustomAPIError.response('Payment was not successful.', HttpStatus.BAD_REQUEST.code));
         }
+
+        // create wallet/update wallet, a reference is only credited once
+        await walletLedgerService.fundCustomerWallet(customer, transaction.amount, transaction.reference);
+        await datasources.walletDAOService.updateByAny(
+            { customer: customer },
+            { $addToSet: { transactions: transaction._id } }
+        );
         
         const $transaction = {
             reference: data.reference,
@@ -242,55 +236,56 @@ export default class TransactionController {
         if(!customer)
             return Promise.reject(CustomAPIError.response('Customer does not exist', HttpStatus.NOT_FOUND.code));
 
+        //a reference recorded for another customer is never credited to this one
+        const existing = await datasources.transactionDAOService.findByAny({ reference: value.reference });
+        if(existing && `${existing.customer?._id}` !== `${customer._id}`)
+            return Promise.reject(CustomAPIError.response('Transaction does not belong to you', HttpStatus.FORBIDDEN.code));
+
+        //only what paystack charged the customer is credited, whatever the app reports
+        const data = await paystackService.verifyTransaction(value.reference);
+
+        if(data.status !== PAYSTACK_PAYMENT_SUCCESS || data.currency !== PAYMENT_CURRENCY)
+            return Promise.reject(CustomAPIError.response('Payment was not successful.', HttpStatus.BAD_REQUEST.code));
 
+        if(data.customer?.email !== customer.email)
+            return Promise.reject(CustomAPIError.response('Transaction does not belong to you', HttpStatus.FORBIDDEN.code));
+
+        const authorization = data.authorization || {};
         const $transaction = {
             reference: value.reference,
-            channel: value.channel,
-            amount: value.amount,
-            status: value.status === true && 'success',
-            cardType: value.cardType,
-            last4: value.last4,
-            expMonth: value.expMonth,
-            expYear: value.expYear,
-            currency: "NGN",
-            paidAt: new Date(),
+            channel: authorization.channel ?? value.channel,
+            amount: data.amount / 100,
+            amountCharged: data.amount,
+            status: data.status,
+            cardType: authorization.card_type ?? value.cardType,
+            last4: authorization.last4 ?? value.last4,
+            expMonth: authorization.exp_month ?? value.expMonth,
+            expYear: authorization.exp_year ?? value.expYear,
+            currency: data.currency,
+            paidAt: data.paid_at,
             type: "Payment",
             customer: customer._id
         };
 
-        const transaction = await datasources.transactionDAOService.create($transaction as ITransactionModel);
-
-        const findWallet = await datasources.walletDAOService.findByAny({
-            customer: customer._id
-        });
-
-        // create wallet/update wallet
-        let _wallet;
-        if(!findWallet) {
-
-            const walletValue: Partial<IWalletModel> = {
-                balance: value.amount,
-                customer: customer._id
-            }
-
-            const wallet = await datasources.walletDAOService.create(walletValue as IWalletModel)
+        //the paystack webhook may have recorded this reference already
+        const transaction = await datasources.transactionDAOService.updateByAny(
+            { reference: value.reference },
+            { $setOnInsert: $transaction },
+            { upsert: true, new: true }
+        ) as ITransactionModel;
 
-            wallet.transactions.push(transaction._id);
-            _wallet = await wallet.save();
-        
-        } else {
-            const walletValue = {
-                balance: findWallet.balance + transaction.amount
-            }
+        if(`${transaction.customer?._id ?? transaction.customer}` !== `${customer._id}`)
+            return Promise.reject(CustomAPIError.response('Transaction does not belong to you', HttpStatus.FORBIDDEN.code));
 
-            const wallet = await datasources.walletDAOService.updateByAny(
-                {_id: findWallet._id},
-                walletValue
-            );
+        if(transaction.amountCharged !== data.amount)
+            return Promise.reject(CustomAPIError.response('Payment does not match the transaction', HttpStatus.BAD_REQUEST.code));
 
-            wallet?.transactions.push(transaction._id);
-            _wallet = await wallet?.save();
-        }
+        // create wallet/update wallet, a reference is only credited once
+        await walletLedgerService.fundCustomerWallet(customer._id, transaction.amount, transaction.reference);
+        const _wallet = await datasources.walletDAOService.updateByAny(
+            { customer: customer._id },
+            { $addToSet: { transactions: transaction._id } }
+        );
 
         const response: HttpResponse<IWalletModel> = {
             code: HttpStatus.OK.code,
@@ -301,6 +296,31 @@ export default class TransactionController {
         return Promise.resolve(response);
     }
 
+    /**
+   * @name paystackWebhook
+   * @description Receives payment and transfer events from paystack, so a wallet is
+   * @description credited even when the app never reports the payment back.
+   * @description Requests without a valid signature are rejected.
+   * @param req
+   */
+    @TryCatch
+    public async paystackWebhook(req: Request) {
+        const signature = req.headers[PAYSTACK_SIGNATURE_HEADER] as string | undefined;
+
+        //@ts-ignore
+        if (!paystackService.verifySignature(req.rawBody, signature))
+            return Promise.reject(CustomAPIError.response('Invalid signature', HttpStatus.UNAUTHORIZED.code));
+
+        await paystackWebhookService.handle(req.body);
+
+        const response: HttpResponse<void> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+        };
+
+        return Promise.resolve(response);
+    }
+
     @TryCatch
     public async updateTransaction(req: Request) {
         const value = req.body;
@@ -501,7 +521,13 @@ export default class TransactionController {
     @HasPermission([RIDER_PERMISSION])
     public async requestPayment(req: Request) {
 
-        const value = req.body;
+        const { error, value } = Joi.object<any>({
+            amountRequested: Joi.number().positive().required().label('Amount requested')
+        }).validate(req.body);
+        if (error) return Promise.reject(
+            CustomAPIError.response(
+                error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
         //@ts-ignore
         const riderId = req.user._id;
         const rider = await datasources.riderDAOService.findById(riderId);
@@ -538,13 +564,19 @@ export default class TransactionController {
                     status: PAYMENT_IN_PROGRESS,
                     refNumber: Generic.generatePaymentRefNumber(6)
                 }
+
+                //fails without creating the request when the wallet can not cover it
+                await walletLedgerService.requestRiderPayout(riderId, values.amountRequested, values.refNumber);
         
-                const payment = await datasources.paymentRequestDAOService.create(values as any);
-        
-                await datasources.riderWalletDAOService.update(
-                    { rider: riderId },
-                    { balance: riderWallet.balance - payment.amountRequested }
-                )
+                await datasources.paymentRequestDAOService.create(values as any);
+
+                await notificationInboxService.notifyAdmins({
+                    type: NOTIFICATION_PAYOUT_REQUESTED,
+                    title: 'Payout requested',
+                    body: `A rider requested a payout of N${values.amountRequested}`,
+                    data: { riderId, refNumber: values.refNumber, amount: values.amountRequested },
+                    dedupeKey: `payout_requested:${values.refNumber}`
+                });
               
             } else {
                 return Promise.reject(CustomAPIError.response("Your withdrawal duration is not complete", HttpStatus.INTERNAL_SERVER_ERROR.code))
@@ -565,13 +597,19 @@ export default class TransactionController {
                     status: PAYMENT_IN_PROGRESS,
                     refNumber: Generic.generateRandomStringCrypto(6)
                 }
+
+                //fails without creating the request when the wallet can not cover it
+                await walletLedgerService.requestRiderPayout(riderId, values.amountRequested, values.refNumber);
         
-                const payment = await datasources.paymentRequestDAOService.create(values as any);
-        
-                await datasources.riderWalletDAOService.update(
-                    { rider: riderId },
-                    { balance: riderWallet.balance - payment.amountRequested }
-                )
+                await datasources.paymentRequestDAOService.create(values as any);
+
+                await notificationInboxService.notifyAdmins({
+                    type: NOTIFICATION_PAYOUT_REQUESTED,
+                    title: 'Payout requested',
+                    body: `A rider requested a payout of N${values.amountRequested}`,
+                    data: { riderId, refNumber: values.refNumber, amount: values.amountRequested },
+                    dedupeKey: `payout_requested:${values.refNumber}`
+                });
               
             } else {
                 return Promise.reject(CustomAPIError.response("Your withdrawal duration is not complete", HttpStatus.INTERNAL_SERVER_ERROR.code))
@@ -620,8 +658,15 @@ export default class TransactionController {
                     );
                 }
 
+                //the paystack webhook reports the outcome of the transfer against this reference
+                const transferReference = `payout_${paymentReq._id}`;
+                await datasources.paymentRequestDAOService.updateByAny(
+                    { _id: paymentReq._id },
+                    { transferReference }
+                );
+
                 const amountInKobo = paymentReq.amountRequested * 100;
-                await paystackService.sendMoneyToAccount(accNum, bankCode, amountInKobo, "Payment");
+                await paystackService.sendMoneyToAccount(accNum, bankCode, amountInKobo, "Payment", transferReference);
 
                 const paid = await datasources.paymentRequestDAOService.updateByAny(
                     { _id: paymentReq._id },
@@ -630,9 +675,10 @@ export default class TransactionController {
 
                 //Send notification to rider phone as text
                 if(paid) {
-                    await redisService.sendNotification(
+                    await messageService.sms(
                         rider.phone,
-                        `You have been credited NGN${Generic.formatNumberToIntl(+paid?.amountRequested)}.`
+                        TEMPLATE_PAYOUT_CONFIRMATION,
+                        { amount: Generic.formatNumberToIntl(+paid?.amountRequested) }
                     )
                 }
                 
@@ -11,13 +11,13 @@ import HttpResponse = appCommonTypes.HttpResponse;
 import BcryptPasswordEncoder = appCommonTypes.BcryptPasswordEncoder;
 import settings, { MANAGE_ALL, CREATE_USER, UPDATE_USER, DELETE_USER, READ_CUSTOMER, READ_USER, MANAGE_SOME } from '../config/settings';
 import Generic from '../utils/Generic';
-import { ALLOWED_FILE_TYPES, MAX_SIZE_IN_BYTE, MESSAGES, UPLOAD_BASE_PATH } from '../config/constants';
+import { ALLOWED_FILE_TYPES, MAX_SIZE_IN_BYTE, MESSAGES, TEMPLATE_PASSWORD_RESET, UPLOAD_BASE_PATH } from '../config/constants';
 import RedisService from '../services/RedisService';
-import SendMailService from '../services/SendMailService';
+import MessageService from '../services/MessageService';
 
 const form = formidable({ uploadDir: UPLOAD_BASE_PATH });
 const redisService = new RedisService();
-const sendMailService = new SendMailService();
+const messageService = new MessageService();
 
 export default class UserController {
   private declare readonly passwordEncoder: BcryptPasswordEncoder;
@@ -226,12 +226,7 @@ export default class UserController {
               {passwordResetCode: token}
           )
 
-          sendMailService.sendMail({
-              from: settings.nodemailer.email,
-              to: value.email,
-              subject: 'Password Reset',
-              text: `Your password reset code is: ${token}`,
-          });
+          await messageService.email(value.email, TEMPLATE_PASSWORD_RESET, { code: token }, messageService.localeOf(req)).catch(() => null);
 
           const response: HttpResponse<any> = {
               code: HttpStatus.OK.code,
@@ -11,6 +11,8 @@ import formidable, { File } from 'formidable';
 import {
     ALLOWED_FILE_TYPES,
     CREATE_VEHICLE,
+    DOCUMENT_FILE_TYPES,
+    DOCUMENT_MAX_SIZE,
     MAX_SIZE_IN_BYTE,
     MESSAGES,
     UPDATE_VEHICLE,
@@ -21,6 +23,7 @@ import { $saveVehicleSchema } from "../models/Vehicle";
 import Generic from "../utils/Generic";
 import {
     MANAGE_ALL,
+    MANAGE_SOME,
     READ_VEHICLE,
     RIDER_PERMISSION,
     CREATE_VEHICLE_NAME,
@@ -34,8 +37,14 @@ import {
 } from "../config/settings";
 import { $saveVehicleNameSchema, IVehicleNameModel } from "../models/VehicleName";
 import { $saveVehicleTypeSchema, $updateVehicleTypeSchema, IVehicleTypeModel } from "../models/VehicleType";
+import { $saveFareRuleSchema, IFareRuleModel } from "../models/FareRule";
+import { $vehicleDocumentSchema, IVehicleDocumentModel } from "../models/VehicleDocument";
+import VehicleDocumentService from "../services/VehicleDocumentService";
+import RiderVehicleService from "../services/RiderVehicleService";
 
 const form = formidable({ uploadDir: UPLOAD_BASE_PATH });
+const vehicleDocumentService = new VehicleDocumentService();
+const riderVehicleService = new RiderVehicleService();
 
 export default class VehicleController {
 
@@ -75,9 +84,7 @@ export default class VehicleController {
 
         const riderId = req.params.riderId
 
-        const vehicle = await datasources.vehicleDAOService.findByAny({
-            rider: riderId
-        });
+        const vehicle = await riderVehicleService.activeVehicleOf(riderId);
         if(!vehicle)
             return Promise.reject(CustomAPIError.response('Vehicle does not exist', HttpStatus.NOT_FOUND.code));
 
@@ -90,6 +97,30 @@ export default class VehicleController {
         return Promise.resolve(response);
     }
 
+    @TryCatch
+    @HasPermission([RIDER_PERMISSION, MANAGE_ALL])
+    public async getRiderVehicles(req: Request) {
+        const riderId = req.params.riderId
+
+        //@ts-ignore
+        if(this.isRider(req) && riderId !== `${req.user._id}`)
+            return Promise.reject(CustomAPIError.response('You can only view your own vehicles', HttpStatus.FORBIDDEN.code));
+
+        const vehicles = await riderVehicleService.vehiclesOf(riderId);
+        const active = await riderVehicleService.activeVehicleOf(riderId);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            results: vehicles.map(vehicle => ({
+                ...vehicle.toObject(),
+                isActive: `${vehicle._id}` === `${active?._id}`
+            }))
+        };
+
+        return Promise.resolve(response);
+    }
+
     @TryCatch
     @HasPermission([MANAGE_ALL, READ_VEHICLE])
     public async getVehicles(req: Request) {
@@ -105,6 +136,105 @@ export default class VehicleController {
         return Promise.resolve(response);
     }
 
+    /**
+     * @name uploadVehicleDocument
+     * @param req type, documentNumber, issuedDate and expiryDate with the document file
+     * @desc uploads the insurance, roadworthiness or registration of the rider's
+     * @desc vehicle for verification, a verified one stays in use until then
+     */
+    @TryCatch
+    @HasPermission([RIDER_PERMISSION])
+    public async uploadVehicleDocument(req: Request) {
+        const document = await this.doUploadVehicleDocument(req)
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Document uploaded, it will be verified shortly',
+            result: document
+        };
+
+        return Promise.resolve(response);
+    };
+
+    @TryCatch
+    @HasPermission([RIDER_PERMISSION, MANAGE_ALL, READ_VEHICLE])
+    public async getVehicleDocuments(req: Request) {
+        const vehicleId = req.params.vehicleId;
+
+        if(this.isRider(req)) {
+            const vehicle = await datasources.vehicleDAOService.findByAny({
+                _id: vehicleId,
+                //@ts-ignore
+                rider: req.user._id
+            });
+            if(!vehicle)
+                return Promise.reject(CustomAPIError.response('Vehicle does not exist', HttpStatus.NOT_FOUND.code));
+        }
+
+        const documents = await vehicleDocumentService.documentsOf(vehicleId);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            results: documents
+        };
+
+        return Promise.resolve(response);
+    }
+
+    @TryCatch
+    @HasPermission([MANAGE_ALL, READ_VEHICLE])
+    public async getPendingVehicleDocuments(req: Request) {
+        const documents = await vehicleDocumentService.pending();
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            results: documents
+        };
+
+        return Promise.resolve(response);
+    }
+
+    @TryCatch
+    @HasPermission([MANAGE_ALL, MANAGE_SOME])
+    public async verifyVehicleDocument(req: Request) {
+        //@ts-ignore
+        const userId = req.user._id;
+
+        const document = await vehicleDocumentService.verify(req.params.documentId, userId);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Document verified',
+            result: document
+        };
+
+        return Promise.resolve(response);
+    }
+
+    @TryCatch
+    @HasPermission([MANAGE_ALL, MANAGE_SOME])
+    public async rejectVehicleDocument(req: Request) {
+        //@ts-ignore
+        const userId = req.user._id;
+
+        const { error, value } = Joi.object<any>({
+            reason: Joi.string().required().label('reason')
+        }).validate(req.body);
+        if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+        const document = await vehicleDocumentService.reject(req.params.documentId, userId, value.reason);
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Document rejected',
+            result: document
+        };
+
+        return Promise.resolve(response);
+    }
+
     @TryCatch
     @HasPermission([MANAGE_ALL, READ_VEHICLE])
     public async deleteVehicle(req: Request) {
@@ -112,6 +242,7 @@ export default class VehicleController {
         const vehicleId = req.params.vehicleId
 
         await datasources.vehicleDAOService.deleteById(vehicleId);
+        await riderVehicleService.release(vehicleId);
 
         const response: HttpResponse<any> = {
             code: HttpStatus.OK.code,
@@ -305,6 +436,7 @@ export default class VehicleController {
         
 
         await datasources.vehicleTypeDAOService.deleteById(vehicleTypeId);
+        await datasources.fareRuleDAOService.deleteByAny({ vehicleType: vehicleTypeId });
 
         const response: HttpResponse<any> = {
             code: HttpStatus.OK.code,
@@ -340,14 +472,14 @@ export default class VehicleController {
                 if(error) return reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
                     
                 const _vehicle = await datasources.vehicleDAOService.findByAny({
-                    $or: [
-                        { rider: riderId },
-                        { licencePlateNumber: value.licencePlateNumber }
-                    ]
+                    licencePlateNumber: value.licencePlateNumber
                 });
                 if(_vehicle)
                     return reject(CustomAPIError.response('Vehicle already exist', HttpStatus.BAD_REQUEST.code));
 
+                // a rider can own several vehicles, the first one registered starts as the active one
+                const vehicles = await riderVehicleService.vehiclesOf(riderId);
+
                 const vehicle_image = files.vehicleImageUrl as File;
                 const basePath = `${UPLOAD_BASE_PATH}/vehicle`;
 
@@ -379,12 +511,14 @@ export default class VehicleController {
                     slug: Generic.generateSlug(value.vehicleName)
                 };
 
-                await datasources.riderDAOService.update(
-                    { _id: riderId },
-                    { level: 3 }
-                )
                 const vehicle = await datasources.vehicleDAOService.create(vehicleValues as IVehicleModel);
 
+                if(!vehicles.length)
+                    await datasources.riderDAOService.updateByAny(
+                        { _id: riderId },
+                        { level: 3, activeVehicle: vehicle._id }
+                    )
+
                 //@ts-ignore
                 return resolve(vehicle)
                 
@@ -448,4 +582,103 @@ export default class VehicleController {
         })
 
     }
-}
\ No newline at end of file
+
+    //a rider reads only their own vehicles, admins read any
+    private isRider(req: Request) {
+        return !req.permissions.some(permission => [MANAGE_ALL, READ_VEHICLE].includes(permission.name));
+    }
+
+    private async doUploadVehicleDocument(req: Request): Promise<IVehicleDocumentModel | null> {
+        return new Promise((resolve, reject) => {
+            form.parse(req, async (err, fields, files) => {
+                try {
+                    //@ts-ignore
+                    const riderId = req.user._id
+
+                    const { error, value } = Joi.object<IVehicleDocumentModel>($vehicleDocumentSchema).validate(fields);
+                    if(error) return reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+                    const vehicle = await datasources.vehicleDAOService.findByAny({
+                        _id: req.params.vehicleId,
+                        rider: riderId
+                    });
+                    if(!vehicle)
+                        return reject(CustomAPIError.response('Vehicle does not exist', HttpStatus.NOT_FOUND.code));
+
+                    const document_file = files.document as File;
+                    if(!document_file)
+                        return reject(CustomAPIError.response('Document file is required', HttpStatus.BAD_REQUEST.code));
+
+                    // File size validation
+                    if (document_file.size > DOCUMENT_MAX_SIZE)
+                        return reject(CustomAPIError.response('Document size exceeds the allowed limit', HttpStatus.BAD_REQUEST.code));
+
+                    // File type validation
+                    if (!DOCUMENT_FILE_TYPES.includes(document_file.mimetype as string))
+                        return reject(CustomAPIError.response('Invalid document format. Only JPEG, PNG, JPG and PDF files are allowed', HttpStatus.BAD_REQUEST.code));
+
+                    const documentUrl = await Generic.getImagePath({
+                        tempPath: document_file.filepath,
+                        filename: document_file.originalFilename as string,
+                        basePath: `${UPLOAD_BASE_PATH}/vehicle-documents`,
+                    });
+
+                    const document = await vehicleDocumentService.upload(vehicle, { ...value, documentUrl });
+
+                    return resolve(document)
+                } catch (error) {
+                    return reject(error)
+                }
+            })
+        })
+    }
+
+    /**
+     * @name saveFareRule
+     * @param req vehicle type id
+     * @desc creates or replaces the fare rule used
+     * @desc to price deliveries of a vehicle type
+     */
+    @TryCatch
+    @HasPermission([MANAGE_ALL, UPDATE_VEHICLE_TYPE])
+    public async saveFareRule(req: Request) {
+
+        const vehicleTypeId = req.params.vehicleTypeId;
+
+        const { error, value } = Joi.object<IFareRuleModel>($saveFareRuleSchema).validate(req.body);
+        if(error) return Promise.reject(CustomAPIError.response(error.details[0].message, HttpStatus.BAD_REQUEST.code));
+
+        const vehicleType = await datasources.vehicleTypeDAOService.findById(vehicleTypeId);
+        if(!vehicleType)
+            return Promise.reject(CustomAPIError.response('Vehicle type not found', HttpStatus.NOT_FOUND.code));
+
+        const fareRule = await datasources.fareRuleDAOService.updateByAny(
+            { vehicleType: vehicleType._id },
+            { ...value, vehicleType: vehicleType._id },
+            { upsert: true }
+        );
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: 'Fare rule saved successfully.',
+            result: fareRule
+        };
+      
+        return Promise.resolve(response);
+    };
+
+    @TryCatch
+    @HasPermission([MANAGE_ALL, READ_VEHICLE_TYPE])
+    public async getFareRules(req: Request) {
+
+        const fareRules = await datasources.fareRuleDAOService.findAll({});
+
+        const response: HttpResponse<any> = {
+            code: HttpStatus.OK.code,
+            message: HttpStatus.OK.value,
+            results: fareRules
+        };
+      
+        return Promise.resolve(response);
+    };
+}
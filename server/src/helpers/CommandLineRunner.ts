@@ -21,6 +21,10 @@ import Generic from '../utils/Generic';
 import { UPLOAD_BASE_PATH } from '../config/constants';
 import VehicleTypeRepository from '../repositories/VehicleTypeRepository';
 import vehicleTypes from '../resources/data/vehicleType.json';
+import MessageTemplateRepository from '../repositories/MessageTemplateRepository';
+import messageTemplates from '../resources/data/messageTemplates.json';
+import VehicleDocument from '../models/VehicleDocument';
+import LedgerEntry from '../models/LedgerEntry';
 
 export default class CommandLineRunner {
   public static singleton: CommandLineRunner = new CommandLineRunner();
@@ -29,6 +33,7 @@ export default class CommandLineRunner {
   private userRepository: AbstractCrudRepository;
   private bankRepository: BankRepository;
   private vehicleTypeRepository: VehicleTypeRepository;
+  private messageTemplateRepository: MessageTemplateRepository;
 
   constructor() {
     this.bankRepository = new BankRepository();
@@ -36,6 +41,7 @@ export default class CommandLineRunner {
     this.permissionRepository = new PermissionRepository();
     this.userRepository = new UserRepository();
     this.vehicleTypeRepository = new VehicleTypeRepository();
+    this.messageTemplateRepository = new MessageTemplateRepository();
   }
 
   public static async run() {
@@ -43,6 +49,9 @@ export default class CommandLineRunner {
     await this.singleton.loadDefaultSuperAdmin();
     await this.singleton.loadPayStackBanks();
     await this.singleton.loadVehicleTypes();
+    await this.singleton.loadMessageTemplates();
+    await this.singleton.syncVehicleDocumentIndexes();
+    await this.singleton.syncLedgerEntryIndexes();
     // await this.singleton.syncRolesAndPermission()
   }
 
@@ -276,4 +285,32 @@ export default class CommandLineRunner {
     }
   }
 
+  //vehicle documents were unique per vehicle and type before renewals were kept next to them
+  async syncVehicleDocumentIndexes() {
+    await VehicleDocument.syncIndexes();
+  }
+
+  //ledger entries were unique per account of a journal before each line was numbered
+  async syncLedgerEntryIndexes() {
+    await LedgerEntry.syncIndexes();
+  }
+
+  //the first version of every template, versions edited by admins are left alone
+  async loadMessageTemplates() {
+    for (const template of messageTemplates) {
+      const exist = await this.messageTemplateRepository.findOne({
+        key: template.key,
+        locale: template.locale
+      });
+
+      if (!exist) {
+        await this.messageTemplateRepository.save({
+          ...template,
+          version: 1,
+          createdBy: null
+        } as any);
+      }
+    }
+  }
+
 }
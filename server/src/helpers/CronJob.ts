@@ -1,21 +1,43 @@
-import RiderLicenseRepository from "../repositories/RiderLicenseRepository";
+import DeliverySchedulerService from "../services/DeliverySchedulerService";
+import DeliverySettlementService from "../services/DeliverySettlementService";
+import LicenseExpiryService from "../services/LicenseExpiryService";
+import RabbitMqService from "../services/RabbitMqService";
+import RefundPolicyService from "../services/RefundPolicyService";
+import WalletLedgerService from "../services/WalletLedgerService";
 
-const riderLicenseRepository = new RiderLicenseRepository()
+const deliverySchedulerService = new DeliverySchedulerService();
+const licenseExpiryService = new LicenseExpiryService();
+const walletLedgerService = new WalletLedgerService();
+const refundPolicyService = new RefundPolicyService();
+const deliverySettlementService = new DeliverySettlementService();
 
 export default class CronJob {
     public static async vehicleLicenseIsExpired () {
-        console.log('cron job started')
-        const riders = await riderLicenseRepository.findAll({});
-        const currentDate = new Date();
-
-        for (const rider of riders) {
-            if(new Date(rider.expiryDate) <= currentDate) {
-                await riderLicenseRepository.update(
-                    { _id: rider._id },
-                    { isExpired: true }
-                )
-            };
-        }
+        await licenseExpiryService.run();
     }
-}
 
+    public static async releaseScheduledDelivery (deliveryId: string) {
+        await deliverySchedulerService.release(deliveryId);
+    }
+
+    public static async remindScheduledDelivery (deliveryId: string) {
+        await deliverySchedulerService.remind(deliveryId);
+    }
+
+    public static async expireDispatchOffer (deliveryRefNumber: string, riderId: string) {
+        const rabbitMqService = await RabbitMqService.shared();
+        await rabbitMqService.expireOffer(deliveryRefNumber, riderId);
+    }
+
+    public static async finishLedgerJournals () {
+        await walletLedgerService.finishPending();
+    }
+
+    public static async finishDeliveryRefunds () {
+        await refundPolicyService.finishPending();
+    }
+
+    public static async finishDeliverySettlements () {
+        await deliverySettlementService.finishPending();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { Socket } from 'socket.io';
+import { verify } from 'jsonwebtoken';
+
+import { appCommonTypes } from '../@types/app-common';
+import AppLogger from '../utils/AppLogger';
+import settings from '../config/settings';
+import cookieParser = require('cookie-parser');
+import CustomJwtPayload = appCommonTypes.CustomJwtPayload;
+import SocketUser = appCommonTypes.SocketUser;
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import CustomerRepository from '../repositories/CustomerRepository';
+import UserRepository from '../repositories/UserRepository';
+import RiderRepository from '../repositories/RiderRepository';
+
+const customerRepository = new CustomerRepository();
+const userRepository = new UserRepository();
+const riderRepository = new RiderRepository();
+
+const logger = AppLogger.init(authenticateSocket.name).logger;
+
+/**
+ * @name authenticateSocket
+ * @desc Socket.IO middleware that accepts a connection only with the JWT the
+ * @desc http routes take, sent as the `token` of the handshake auth, a Bearer
+ * @desc authorization header or the signed auth cookie. The identity in the
+ * @desc token is kept on socket.data and is the only one event handlers trust.
+ */
+export default async function authenticateSocket(
+  socket: Socket<any, any, any, any>,
+  next: (error?: Error) => void
+) {
+  try {
+    const jwt = handshakeToken(socket);
+
+    if (!jwt) {
+      logger.error(`malformed socket handshake: token missing`);
+
+      return next(CustomAPIError.response(HttpStatus.UNAUTHORIZED.value, HttpStatus.UNAUTHORIZED.code));
+    }
+
+    const payload = verify(jwt, settings.jwt.key) as CustomJwtPayload;
+
+    const identity = await findIdentity(payload);
+    if (!identity) return next(CustomAPIError.response(HttpStatus.UNAUTHORIZED.value, HttpStatus.UNAUTHORIZED.code));
+
+    socket.data = { ...identity, permissions: payload.permissions } as SocketUser;
+
+    return next();
+  } catch (error: any) {
+    logger.error(`socket authentication failed: ${error.message}`);
+
+    return next(CustomAPIError.response(HttpStatus.UNAUTHORIZED.value, HttpStatus.UNAUTHORIZED.code));
+  }
+}
+
+function handshakeToken(socket: Socket<any, any, any, any>): string | null {
+  const { auth, headers } = socket.handshake;
+
+  if (auth?.token) return `${auth.token}`.replace(/^Bearer\s+/, '').trim();
+
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer')) return authorization.split(' ')[1].trim();
+
+  const cookie = (headers.cookie || '')
+    .split(';')
+    .map(pair => pair.trim().split('='))
+    .find(([name]) => name === settings.cookie.name);
+
+  if (!cookie) return null;
+
+  const jwt = cookieParser.signedCookie(decodeURIComponent(cookie.slice(1).join('=')), settings.cookie.secret);
+
+  return jwt || null;
+}
+
+async function findIdentity(payload: CustomJwtPayload): Promise<Omit<SocketUser, 'permissions'> | null> {
+  if (!payload.userId) return null;
+
+  const { userId } = payload;
+
+  const user = await userRepository.findById(userId);
+  if (user) return { userId: `${user._id}`, userType: 'user' };
+
+  const customer = await customerRepository.findById(userId);
+  if (customer) return { userId: `${customer._id}`, userType: 'customer' };
+
+  const rider = await riderRepository.findById(userId);
+  if (rider) return { userId: `${rider._id}`, userType: 'rider' };
+
+  return null;
+}
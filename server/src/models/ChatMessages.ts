@@ -7,6 +7,15 @@ interface IChatMessage {
     senderStatus: string;
     receiverStatus: string;
     message: string;
+    type: string;
+    attachment: {
+        url: string,
+        mimeType: string,
+        size: number
+    };
+    clientMessageId: string | null;
+    deliveredAt: Date | null;
+    readAt: Date | null;
 };
 
 const chatMessageSchema = new Schema<IChatMessage>({
@@ -15,9 +24,26 @@ const chatMessageSchema = new Schema<IChatMessage>({
     chatId: { type: String },
     senderStatus: { type: String, default: 'unread' },
     receiverStatus: { type: String, default: 'unread' },
-    message: { type: String }
+    message: { type: String },
+    type: { type: String, default: 'text' },
+    attachment: {
+        url: { type: String },
+        mimeType: { type: String },
+        size: { type: Number }
+    },
+    //set by the app so a message sent twice is stored once
+    clientMessageId: { type: String, allowNull: true },
+    deliveredAt: { type: Date, allowNull: true },
+    readAt: { type: Date, allowNull: true }
 },{timestamps: true});
 
+//undelivered messages of a receiver, oldest first
+chatMessageSchema.index({ receiverId: 1, receiverStatus: 1, createdAt: 1 });
+chatMessageSchema.index(
+    { senderId: 1, clientMessageId: 1 },
+    { unique: true, partialFilterExpression: { clientMessageId: { $type: 'string' } } }
+);
+
 export interface IChatMessageModel extends Document, IChatMessage {}
 
 const ChatMessage = mongoose.model<IChatMessageModel>('ChatMessage', chatMessageSchema as any);
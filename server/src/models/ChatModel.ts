@@ -1,15 +1,27 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
 interface IChat {
-    members: string[]
+    members: string[],
+    delivery: mongoose.Types.ObjectId | null,
+    deliveryRefNumber: string | null,
+    closesAt: Date | null
 }
 
 const chatSchema = new Schema<IChat>({
-    members: [{ type: String }]
+    members: [{ type: String }],
+    //chats opened for a delivery become read-only once closesAt has passed
+    delivery: { type: Schema.Types.ObjectId, ref: 'Delivery', allowNull: true },
+    deliveryRefNumber: { type: String, allowNull: true },
+    closesAt: { type: Date, allowNull: true }
 },{ timestamps: true });
 
+chatSchema.index(
+    { delivery: 1 },
+    { unique: true, partialFilterExpression: { delivery: { $type: 'objectId' } } }
+);
+
 export interface IChatModel extends Document, IChat {}
 
 const Chat = mongoose.model<IChatModel>('Chat', chatSchema as any);
 
-export default Chat;
\ No newline at end of file
+export default Chat;
@@ -1,5 +1,21 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import Joi from 'joi';
+import { MAX_DELIVERY_STOPS, STOP_DELIVERED, STOP_PENDING } from '../config/constants';
+
+export interface IDeliveryStop {
+  _id?: mongoose.Types.ObjectId,
+  recipientName: string,
+  recipientAddress: string,
+  recipientLocation: {
+    type: "Point",
+    coordinates: [number, number]
+  },
+  recipientPhone: string,
+  item: string,
+  status: string,
+  deliveredAt: Date | null,
+  otpVerifiedAt: Date | null
+};
 
 interface IDelivery {
   senderName: string,
@@ -16,10 +32,12 @@ interface IDelivery {
     coordinates: [number, number]
   },
   recipientPhone: string,
+  stops: IDeliveryStop[],
   // packageSize: string,
   packageType: string,
   vehicle: string,
   packageOtherDetails: string,
+  packageWeight: number,
   status: string,
   deliveryTime: Date,
   pickupTime: Date,
@@ -27,15 +45,56 @@ interface IDelivery {
   estimatedValue: string,
   rating: number | null,
   deliveryFee: number,
+  fareBreakdown: {
+    baseFare: number,
+    distanceFare: number,
+    timeFare: number,
+    weightSurcharge: number,
+    nightSurcharge: number,
+    minimumFareAdjustment: number,
+    total: number
+  },
   riderName: string,
   riderPhone: string,
   rider: mongoose.Types.ObjectId | null,
   customer: mongoose.Types.ObjectId,
   estimatedDeliveryTime: string,
   deliveryRefNumber: string
+  proofOfDelivery: {
+    otpVerifiedAt: Date | null,
+    pickupPhotoUrl: string,
+    dropOffPhotoUrl: string,
+    signatureUrl: string
+  },
+  //who canceled and from which status, until the escrow is refunded
+  pendingRefund: { actorType: string, canceledFrom: string } | null,
+  //from delivery until the rider and platform are paid
+  pendingSettlement: boolean,
   createdAt: Date
 };
 
+//drop-offs of a multi-stop delivery, in the order the rider visits them
+const deliveryStopSchema = new Schema<IDeliveryStop>({
+  recipientName: { type: String },
+  recipientAddress: { type: String },
+  recipientLocation: {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true
+    },
+    coordinates: {
+      type: [Number],
+      required: true
+    }
+  },
+  recipientPhone: { type: String },
+  item: { type: String },
+  status: { type: String, enum: [STOP_PENDING, STOP_DELIVERED], default: STOP_PENDING },
+  deliveredAt: { type: Date, allowNull: true },
+  otpVerifiedAt: { type: Date, allowNull: true }
+});
+
 const deliverySchema = new Schema<IDelivery>({
   senderName: { type: String },
   senderAddress: { type: String },
@@ -65,10 +124,12 @@ const deliverySchema = new Schema<IDelivery>({
     }
   },
   recipientPhone: { type: String },
+  stops: { type: [deliveryStopSchema], default: [] },
   // packageSize: { type: String },
   packageType: { type: String },
   vehicle: { type: String },
   packageOtherDetails: { type: String },
+  packageWeight: { type: Number, default: 0 }, //in kg
   status: { type: String },
   deliveryTime: { type: Date },
   pickupTime: { type: Date },
@@ -76,15 +137,38 @@ const deliverySchema = new Schema<IDelivery>({
   estimatedValue: { type: String },
   rating: { type: Number, allowNull: true },
   deliveryFee: { type: Number },
+  fareBreakdown: {
+    baseFare: { type: Number },
+    distanceFare: { type: Number },
+    timeFare: { type: Number },
+    weightSurcharge: { type: Number },
+    nightSurcharge: { type: Number },
+    minimumFareAdjustment: { type: Number },
+    total: { type: Number }
+  },
   riderName: { type: String },
   riderPhone: { type: String },
   rider: { type: Schema.Types.ObjectId, ref: 'Rider', allowNull: true },
   customer: { type: Schema.Types.ObjectId, ref: 'Customer' },
   estimatedDeliveryTime: { type: String },
   deliveryRefNumber: { type: String },
+  proofOfDelivery: {
+    otpVerifiedAt: { type: Date, allowNull: true },
+    pickupPhotoUrl: { type: String },
+    dropOffPhotoUrl: { type: String },
+    signatureUrl: { type: String }
+  },
+  pendingRefund: {
+    type: new Schema({ actorType: { type: String }, canceledFrom: { type: String } }, { _id: false }),
+    default: null
+  },
+  pendingSettlement: { type: Boolean, default: false },
   createdAt: { type: Date, default: new Date() }
 });
 
+deliverySchema.index({ pendingRefund: 1 }, { sparse: true });
+deliverySchema.index({ pendingSettlement: 1 });
+
 deliverySchema.index({ senderLocation: '2dsphere' });
 deliverySchema.index({ recipientLocation: '2dsphere' });
 
@@ -92,24 +176,65 @@ export interface IDeliveryModel extends Document, IDelivery {}
 
 const Delivery = mongoose.model<IDeliveryModel>('Delivery', deliverySchema);
 
+export const $deliveryStopSchema: Joi.SchemaMap = {
+  recipientName: Joi.string().required().label('Recipient Name'),
+  recipientAddress: Joi.string().optional().allow('').label('Recipient Address'),
+  recipientLon: Joi.number().required().label('Recipient Longitude'),
+  recipientLat: Joi.number().required().label('Recipient Latitude'),
+  recipientPhone: Joi.string().required().label('Recipient Phone'),
+  item: Joi.string().required().label('Item')
+};
+
+//the recipient fields describe the drop-off of a single-stop delivery,
+//a multi-stop delivery lists its drop-offs in stops instead
+const singleStop = (schema: Joi.Schema) => schema.when('stops', {
+  is: Joi.exist(),
+  then: Joi.forbidden(),
+  otherwise: Joi.required()
+});
+
 export const $deliverySchema: Joi.SchemaMap = {
   senderName: Joi.string().required().label('Sender Name'),
   senderAddress: Joi.string().required().label('Sender Address'),
   senderLon: Joi.number().required().label('Sender Longitude'),
   senderLat: Joi.number().required().label('Sender Latitude'),
   senderPhone: Joi.string().required().label('Sender Phone'),
-  recipientName: Joi.string().required().label('Recipient Name'),
+  recipientName: singleStop(Joi.string()).label('Recipient Name'),
   recipientAddress: Joi.string().optional().allow('').label('Recipient Address'),
-  recipientLon: Joi.number().required().label('Recipient Longitude'),
-  recipientLat: Joi.number().required().label('Recipient Latitude'),
-  recipientPhone: Joi.string().required().label('Recipient Phone'),
+  recipientLon: singleStop(Joi.number()).label('Recipient Longitude'),
+  recipientLat: singleStop(Joi.number()).label('Recipient Latitude'),
+  recipientPhone: singleStop(Joi.string()).label('Recipient Phone'),
+  stops: Joi.array().items(Joi.object($deliveryStopSchema)).min(2).max(MAX_DELIVERY_STOPS).optional().label('Stops'),
   // packageSize: Joi.string().optional().allow('').label('Package Size'),
   packageType: Joi.string().required().label('Package Type'),
   vehicle: Joi.string().required().label('Vehicle'),
   packageOtherDetails: Joi.string().label('Package Detail'),
-  item: Joi.string().required().label('Item'),
+  packageWeight: Joi.number().min(0).optional().label('Package Weight'),
+  item: singleStop(Joi.string()).label('Item'),
   estimatedValue: Joi.number().required().label('Item Estimated Value'),
-  rating: Joi.number().allow(null).label('Rating')
+  rating: Joi.number().allow(null).label('Rating'),
+  quoteId: Joi.string().optional().label('Quote Id'),
+  pickupTime: Joi.date().iso().optional().label('Pickup Time'),
+  deliveryTime: Joi.date().iso().when('pickupTime', {
+    is: Joi.exist(),
+    then: Joi.date().min(Joi.ref('pickupTime'))
+  }).optional().label('Delivery Time')
+};
+
+export const $deliveryQuoteSchema: Joi.SchemaMap = {
+  senderLon: Joi.number().required().label('Sender Longitude'),
+  senderLat: Joi.number().required().label('Sender Latitude'),
+  recipientLon: singleStop(Joi.number()).label('Recipient Longitude'),
+  recipientLat: singleStop(Joi.number()).label('Recipient Latitude'),
+  stops: Joi.array().items(Joi.object({
+    recipientLon: Joi.number().required().label('Recipient Longitude'),
+    recipientLat: Joi.number().required().label('Recipient Latitude')
+  }).unknown(true)).min(2).max(MAX_DELIVERY_STOPS).optional().label('Stops'),
+  packageType: Joi.string().optional().label('Package Type'),
+  packageWeight: Joi.number().min(0).optional().label('Package Weight'),
+  pickupTime: Joi.date().iso().optional().label('Pickup Time'),
+  item: Joi.string().optional().label('Item'),
+  estimatedValue: Joi.number().optional().label('Item Estimated Value')
 };
 
 export const $editDeliverySchema: Joi.SchemaMap = {
@@ -127,6 +252,7 @@ export const $editDeliverySchema: Joi.SchemaMap = {
   packageType: Joi.string().label('Package Type'),
   vehicle: Joi.string().label('Vehicle'),
   packageOtherDetails: Joi.string().label('Package Detail'),
+  packageWeight: Joi.number().min(0).label('Package Weight'),
   item: Joi.string().label('Item'),
   estimatedValue: Joi.number().label('Item Estimated Value'),
   rating: Joi.number().allow(null).label('Rating')
@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IDeliveryEvent {
+    delivery: mongoose.Types.ObjectId,
+    deliveryRefNumber: string,
+    fromStatus: string,
+    toStatus: string,
+    actor: mongoose.Types.ObjectId | null,
+    actorType: string,
+    location: {
+        type: "Point",
+        coordinates: [number, number]
+    },
+    note: string,
+    createdAt: Date
+};
+
+const deliveryEventSchema = new Schema<IDeliveryEvent>({
+    delivery: { type: Schema.Types.ObjectId, ref: 'Delivery' },
+    deliveryRefNumber: { type: String },
+    fromStatus: { type: String },
+    toStatus: { type: String },
+    actor: { type: Schema.Types.ObjectId, allowNull: true },
+    actorType: { type: String },
+    location: {
+        type: {
+            type: String,
+            enum: ['Point']
+        },
+        coordinates: {
+            type: [Number],
+            default: undefined
+        }
+    },
+    note: { type: String },
+    createdAt: { type: Date, default: Date.now }
+});
+
+deliveryEventSchema.index({ delivery: 1, createdAt: 1 });
+deliveryEventSchema.index({ actor: 1, createdAt: -1 });
+
+export interface IDeliveryEventModel extends Document, IDeliveryEvent {}
+
+const DeliveryEvent = mongoose.model<IDeliveryEventModel>('DeliveryEvent', deliveryEventSchema);
+
+export default DeliveryEvent;
@@ -0,0 +1,27 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IDeviceToken {
+    owner: string,
+    token: string,
+    platform: string,
+    provider: string,
+    lastSeenAt: Date
+};
+
+//the push token of every app a customer, rider or admin is signed in to
+const deviceTokenSchema = new Schema<IDeviceToken>({
+    owner: { type: String, required: true },
+    //a token belongs to one install, it moves to whoever signs in on it last
+    token: { type: String, required: true, unique: true },
+    platform: { type: String, enum: ['android', 'ios', 'web'] },
+    provider: { type: String, enum: ['fcm', 'apns'] },
+    lastSeenAt: { type: Date, default: Date.now }
+},{ timestamps: true });
+
+deviceTokenSchema.index({ owner: 1 });
+
+export interface IDeviceTokenModel extends Document, IDeviceToken {}
+
+const DeviceToken = mongoose.model<IDeviceTokenModel>('DeviceToken', deviceTokenSchema);
+
+export default DeviceToken;
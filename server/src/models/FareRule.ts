@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import Joi from 'joi';
+
+interface IFareRule {
+    vehicleType: mongoose.Types.ObjectId;
+    baseFare: number;
+    minimumFare: number;
+    costPerMinute: number;
+    freeWeight: number;
+    costPerKg: number;
+    nightSurchargePercent: number;
+    nightStartHour: number;
+    nightEndHour: number;
+};
+
+const fareRuleSchema = new Schema<IFareRule>({
+    vehicleType: { type: Schema.Types.ObjectId, ref: 'VehicleType', unique: true },
+    baseFare: { type: Number, default: 0 },
+    minimumFare: { type: Number, default: 0 },
+    costPerMinute: { type: Number, default: 0 },
+    freeWeight: { type: Number, default: 0 }, //in kg
+    costPerKg: { type: Number, default: 0 },
+    nightSurchargePercent: { type: Number, default: 0 },
+    nightStartHour: { type: Number, default: 22 },
+    nightEndHour: { type: Number, default: 6 }
+});
+
+export interface IFareRuleModel extends Document, IFareRule {}
+
+const FareRule = mongoose.model<IFareRuleModel>('FareRule', fareRuleSchema);
+
+export const $saveFareRuleSchema: Joi.SchemaMap<IFareRuleModel> = {
+    baseFare: Joi.number().min(0).required().label('base fare'),
+    minimumFare: Joi.number().min(0).required().label('minimum fare'),
+    costPerMinute: Joi.number().min(0).required().label('cost per minute'),
+    freeWeight: Joi.number().min(0).required().label('free weight'),
+    costPerKg: Joi.number().min(0).required().label('cost per kg'),
+    nightSurchargePercent: Joi.number().min(0).max(100).required().label('night surcharge percent'),
+    nightStartHour: Joi.number().integer().min(0).max(23).required().label('night start hour'),
+    nightEndHour: Joi.number().integer().min(0).max(23).required().label('night end hour')
+};
+
+export default FareRule;
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IInboxNotification {
+    recipient: string,
+    recipientType: string,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, any>,
+    read: boolean,
+    readAt: Date | null,
+    dedupeKey: string | null
+};
+
+//what a customer, rider or admin was told, kept until they read it in the app
+const inboxNotificationSchema = new Schema<IInboxNotification>({
+    recipient: { type: String, required: true },
+    recipientType: { type: String, enum: ['user', 'customer', 'rider'] },
+    type: { type: String, required: true },
+    title: { type: String },
+    body: { type: String },
+    //what the app opens when the notification is tapped
+    data: { type: Schema.Types.Mixed, default: {} },
+    read: { type: Boolean, default: false },
+    readAt: { type: Date, allowNull: true },
+    //events that can be replayed, like webhooks, notify once per key
+    dedupeKey: { type: String, allowNull: true }
+},{ timestamps: true });
+
+inboxNotificationSchema.index({ recipient: 1, read: 1, createdAt: -1 });
+inboxNotificationSchema.index(
+    { recipient: 1, dedupeKey: 1 },
+    { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } }
+);
+
+export interface IInboxNotificationModel extends Document, IInboxNotification {}
+
+const InboxNotification = mongoose.model<IInboxNotificationModel>('InboxNotification', inboxNotificationSchema);
+
+export default InboxNotification;
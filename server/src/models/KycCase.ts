@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IKycCase {
+    rider: mongoose.Types.ObjectId,
+    status: string,
+    license: {
+        record: mongoose.Types.ObjectId,
+        licenseNumber: string,
+        expiryDate: Date,
+        imageUrl: string
+    },
+    vehicle: {
+        record: mongoose.Types.ObjectId,
+        vehicleType: string,
+        licencePlateNumber: string,
+        photoUrl: string,
+        papersUrl: string
+    },
+    selfieUrl: string,
+    bank: {
+        bankName: string,
+        accountName: string,
+        accountNumber: string
+    },
+    reviewer: mongoose.Types.ObjectId | null,
+    reason: string | null,
+    submittedAt: Date,
+    reviewedAt: Date | null
+};
+
+//what a rider submitted for verification, copied when submitted so later profile edits do not change what was reviewed
+const kycCaseSchema = new Schema<IKycCase>({
+    rider: { type: Schema.Types.ObjectId, ref: 'Rider', unique: true },
+    status: { type: String },
+    license: {
+        record: { type: Schema.Types.ObjectId, ref: 'RiderLicense' },
+        licenseNumber: { type: String },
+        expiryDate: { type: Date },
+        imageUrl: { type: String }
+    },
+    vehicle: {
+        record: { type: Schema.Types.ObjectId, ref: 'Vehicle' },
+        vehicleType: { type: String },
+        licencePlateNumber: { type: String },
+        photoUrl: { type: String },
+        papersUrl: { type: String }
+    },
+    selfieUrl: { type: String },
+    bank: {
+        bankName: { type: String },
+        accountName: { type: String },
+        accountNumber: { type: String }
+    },
+    reviewer: { type: Schema.Types.ObjectId, ref: 'User', allowNull: true },
+    //why the case was rejected or what the rider has to submit again
+    reason: { type: String, allowNull: true },
+    submittedAt: { type: Date },
+    reviewedAt: { type: Date, allowNull: true }
+},{ timestamps: true });
+
+kycCaseSchema.index({ status: 1, submittedAt: 1 });
+
+export interface IKycCaseModel extends Document, IKycCase {}
+
+const KycCase = mongoose.model<IKycCaseModel>('KycCase', kycCaseSchema);
+
+export default KycCase;
@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IKycEvent {
+    kycCase: mongoose.Types.ObjectId,
+    rider: mongoose.Types.ObjectId,
+    fromStatus: string | null,
+    toStatus: string,
+    actor: mongoose.Types.ObjectId | null,
+    actorType: string,
+    note: string,
+    createdAt: Date
+};
+
+const kycEventSchema = new Schema<IKycEvent>({
+    kycCase: { type: Schema.Types.ObjectId, ref: 'KycCase' },
+    rider: { type: Schema.Types.ObjectId, ref: 'Rider' },
+    fromStatus: { type: String, allowNull: true },
+    toStatus: { type: String },
+    actor: { type: Schema.Types.ObjectId, allowNull: true },
+    actorType: { type: String },
+    note: { type: String },
+    createdAt: { type: Date, default: Date.now }
+});
+
+kycEventSchema.index({ kycCase: 1, createdAt: 1 });
+
+export interface IKycEventModel extends Document, IKycEvent {}
+
+const KycEvent = mongoose.model<IKycEventModel>('KycEvent', kycEventSchema);
+
+export default KycEvent;
@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface ILedgerEntry {
+    journal: string,
+    line: number,
+    account: string,
+    owner: mongoose.Types.ObjectId | null,
+    direction: string,
+    amount: number,
+    reference: string,
+    description: string,
+    createdAt: Date
+};
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>({
+    journal: { type: String, required: true },
+    line: { type: Number, required: true },
+    account: { type: String, required: true },
+    owner: { type: Schema.Types.ObjectId, default: null },
+    direction: { type: String, enum: ['debit', 'credit'], required: true },
+    amount: { type: Number, min: 0, required: true },
+    reference: { type: String },
+    description: { type: String },
+    createdAt: { type: Date, default: Date.now, immutable: true }
+});
+
+//entries are never changed or removed, writing a line of a journal again is rejected by this index
+ledgerEntrySchema.index({ journal: 1, line: 1 }, { unique: true });
+ledgerEntrySchema.index({ account: 1, owner: 1 });
+ledgerEntrySchema.index({ reference: 1 });
+
+export interface ILedgerEntryModel extends Document, ILedgerEntry {}
+
+const LedgerEntry = mongoose.model<ILedgerEntryModel>('LedgerEntry', ledgerEntrySchema);
+
+export default LedgerEntry;
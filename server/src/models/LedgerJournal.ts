@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface ILedgerJournalLine {
+    account: string,
+    owner: mongoose.Types.ObjectId | null,
+    direction: string,
+    amount: number
+};
+
+interface ILedgerJournal {
+    journal: string,
+    reference: string,
+    description: string,
+    lines: ILedgerJournalLine[],
+    status: string,
+    lockedUntil: Date,
+    appliedAt: Date | null,
+    createdAt: Date
+};
+
+const ledgerJournalSchema = new Schema<ILedgerJournal>({
+    journal: { type: String, required: true },
+    reference: { type: String },
+    description: { type: String },
+    lines: [{
+        _id: false,
+        account: { type: String, required: true },
+        owner: { type: Schema.Types.ObjectId, default: null },
+        direction: { type: String, enum: ['debit', 'credit'], required: true },
+        amount: { type: Number, min: 0, required: true }
+    }],
+    status: { type: String, enum: ['pending', 'applied'], default: 'pending' },
+    lockedUntil: { type: Date, default: Date.now },
+    appliedAt: { type: Date, default: null },
+    createdAt: { type: Date, default: Date.now, immutable: true }
+});
+
+//a journal is posted once, posting it again finds the journal already there
+ledgerJournalSchema.index({ journal: 1 }, { unique: true });
+ledgerJournalSchema.index({ status: 1, lockedUntil: 1 });
+
+export interface ILedgerJournalModel extends Document, ILedgerJournal {}
+
+const LedgerJournal = mongoose.model<ILedgerJournalModel>('LedgerJournal', ledgerJournalSchema);
+
+export default LedgerJournal;
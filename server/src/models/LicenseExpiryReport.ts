@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface ILicenseExpiryReport {
+    startedAt: Date,
+    finishedAt: Date | null,
+    warned: {
+        rider: mongoose.Types.ObjectId,
+        license: mongoose.Types.ObjectId,
+        days: number
+    }[],
+    expired: mongoose.Types.ObjectId[],
+    expiredVehicleDocuments: mongoose.Types.ObjectId[],
+    offline: mongoose.Types.ObjectId[],
+    deferred: mongoose.Types.ObjectId[],
+    failures: {
+        rider: mongoose.Types.ObjectId,
+        error: string
+    }[]
+};
+
+//what one run of the license expiry job did, deferred riders were mid-delivery and left online
+const licenseExpiryReportSchema = new Schema<ILicenseExpiryReport>({
+    startedAt: { type: Date },
+    finishedAt: { type: Date, allowNull: true },
+    warned: [{
+        rider: { type: Schema.Types.ObjectId, ref: 'Rider' },
+        license: { type: Schema.Types.ObjectId, ref: 'RiderLicense' },
+        days: { type: Number }
+    }],
+    expired: [{ type: Schema.Types.ObjectId, ref: 'RiderLicense' }],
+    expiredVehicleDocuments: [{ type: Schema.Types.ObjectId, ref: 'VehicleDocument' }],
+    offline: [{ type: Schema.Types.ObjectId, ref: 'Rider' }],
+    deferred: [{ type: Schema.Types.ObjectId, ref: 'Rider' }],
+    failures: [{
+        rider: { type: Schema.Types.ObjectId, ref: 'Rider' },
+        error: { type: String }
+    }]
+});
+
+licenseExpiryReportSchema.index({ startedAt: -1 });
+
+export interface ILicenseExpiryReportModel extends Document, ILicenseExpiryReport {}
+
+const LicenseExpiryReport = mongoose.model<ILicenseExpiryReportModel>('LicenseExpiryReport', licenseExpiryReportSchema);
+
+export default LicenseExpiryReport;
@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import settings from '../config/settings';
+
+interface ILocationPing {
+    rider: mongoose.Types.ObjectId,
+    delivery: mongoose.Types.ObjectId | null,
+    deliveryRefNumber: string | null,
+    location: {
+        type: "Point",
+        coordinates: [number, number]
+    },
+    recordedAt: Date
+};
+
+//time-series of every location a rider pushed, pings expire after the retention period
+const locationPingSchema = new Schema<ILocationPing>({
+    rider: { type: Schema.Types.ObjectId, ref: 'Rider' },
+    delivery: { type: Schema.Types.ObjectId, ref: 'Delivery', allowNull: true },
+    deliveryRefNumber: { type: String, allowNull: true },
+    location: {
+        type: {
+            type: String,
+            enum: ['Point'],
+            required: true
+        },
+        coordinates: {
+            type: [Number],
+            required: true
+        }
+    },
+    recordedAt: { type: Date, default: Date.now }
+}, {
+    timeseries: {
+        timeField: 'recordedAt',
+        metaField: 'rider',
+        granularity: 'seconds'
+    },
+    expireAfterSeconds: settings.locationHistory.retentionDays * 24 * 60 * 60
+});
+
+locationPingSchema.index({ delivery: 1, recordedAt: 1 });
+
+export interface ILocationPingModel extends Document, ILocationPing {}
+
+const LocationPing = mongoose.model<ILocationPingModel>('LocationPing', locationPingSchema);
+
+export default LocationPing;
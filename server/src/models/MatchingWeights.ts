@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import Joi from 'joi';
+
+interface IMatchingWeights {
+    distance: number;
+    rating: number;
+    acceptance: number;
+    cancellation: number;
+    idle: number;
+    historyDays: number;
+    idleCapMinutes: number;
+    updatedBy: mongoose.Types.ObjectId | null;
+};
+
+//the one set of weights riders are scored with when a delivery is matched, kept by admins
+const matchingWeightsSchema = new Schema<IMatchingWeights>({
+    distance: { type: Number, default: 0 },
+    rating: { type: Number, default: 0 },
+    acceptance: { type: Number, default: 0 },
+    cancellation: { type: Number, default: 0 },
+    idle: { type: Number, default: 0 },
+    historyDays: { type: Number }, //how far back acceptance and cancellation rates look
+    idleCapMinutes: { type: Number }, //riders idle for longer all get the full idle score
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User', allowNull: true }
+},{ timestamps: true });
+
+export interface IMatchingWeightsModel extends Document, IMatchingWeights {}
+
+const MatchingWeights = mongoose.model<IMatchingWeightsModel>('MatchingWeights', matchingWeightsSchema);
+
+export const $saveMatchingWeightsSchema: Joi.SchemaMap<IMatchingWeightsModel> = {
+    distance: Joi.number().min(0).required().label('distance weight'),
+    rating: Joi.number().min(0).required().label('rating weight'),
+    acceptance: Joi.number().min(0).required().label('acceptance weight'),
+    cancellation: Joi.number().min(0).required().label('cancellation weight'),
+    idle: Joi.number().min(0).required().label('idle weight'),
+    historyDays: Joi.number().integer().min(1).max(365).required().label('history days'),
+    idleCapMinutes: Joi.number().integer().min(1).required().label('idle cap minutes')
+};
+
+export default MatchingWeights;
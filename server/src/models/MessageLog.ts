@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IMessageLog {
+    channel: string,
+    to: string,
+    templateKey: string | null,
+    templateVersion: number | null,
+    locale: string | null,
+    subject: string | null,
+    body: string,
+    status: string,
+    error: string | null
+};
+
+//every email and sms that left the server, with the template version it was rendered from
+const messageLogSchema = new Schema<IMessageLog>({
+    channel: { type: String, enum: ['email', 'sms'] },
+    to: { type: String, required: true },
+    templateKey: { type: String, allowNull: true },
+    templateVersion: { type: Number, allowNull: true },
+    locale: { type: String, allowNull: true },
+    subject: { type: String, allowNull: true },
+    body: { type: String },
+    status: { type: String, enum: ['sent', 'failed'] },
+    error: { type: String, allowNull: true }
+},{ timestamps: true });
+
+messageLogSchema.index({ createdAt: -1 });
+messageLogSchema.index({ to: 1, createdAt: -1 });
+
+export interface IMessageLogModel extends Document, IMessageLog {}
+
+const MessageLog = mongoose.model<IMessageLogModel>('MessageLog', messageLogSchema);
+
+export default MessageLog;
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IMessageTemplate {
+    key: string,
+    locale: string,
+    version: number,
+    subject: string,
+    text: string,
+    html: string,
+    variables: string[],
+    createdBy: string | null
+};
+
+//every edit of a template is a new version, the highest version of a key and locale is the one sent
+const messageTemplateSchema = new Schema<IMessageTemplate>({
+    key: { type: String, required: true },
+    locale: { type: String, required: true },
+    version: { type: Number, required: true },
+    subject: { type: String },
+    //sms sends the text body, email sends both
+    text: { type: String, required: true },
+    html: { type: String },
+    variables: { type: [String], default: [] },
+    createdBy: { type: String, allowNull: true }
+},{ timestamps: true });
+
+messageTemplateSchema.index({ key: 1, locale: 1, version: -1 }, { unique: true });
+
+export interface IMessageTemplateModel extends Document, IMessageTemplate {}
+
+const MessageTemplate = mongoose.model<IMessageTemplateModel>('MessageTemplate', messageTemplateSchema);
+
+export default MessageTemplate;
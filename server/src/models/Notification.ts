@@ -16,6 +16,8 @@ const notificationSchema = new Schema<INotification>({
     delivery: { type: Schema.Types.ObjectId, ref: 'Delivery' }
 });
 
+notificationSchema.index({ rider: 1 });
+
 notificationSchema.pre('findOne', function (next) {
     this.populate({
         path: 'customer',
@@ -0,0 +1,22 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface INotificationPreference {
+    owner: string,
+    event: string,
+    channels: string[]
+};
+
+//the channels, in fallback order, a user wants an event on, events without one use the defaults
+const notificationPreferenceSchema = new Schema<INotificationPreference>({
+    owner: { type: String, required: true },
+    event: { type: String, required: true },
+    channels: { type: [String], default: [] }
+},{ timestamps: true });
+
+notificationPreferenceSchema.index({ owner: 1, event: 1 }, { unique: true });
+
+export interface INotificationPreferenceModel extends Document, INotificationPreference {}
+
+const NotificationPreference = mongoose.model<INotificationPreferenceModel>('NotificationPreference', notificationPreferenceSchema);
+
+export default NotificationPreference;
@@ -5,6 +5,7 @@ interface IPaymentRequest {
     rider: mongoose.Types.ObjectId,
     status: string,
     refNumber: string,
+    transferReference: string | null,
     createdAt: Date
 };
 
@@ -13,6 +14,7 @@ const paymentRequestSchema = new Schema<IPaymentRequest>({
     rider: { type: Schema.Types.ObjectId, ref: 'Rider' },
     status: { type: String },
     refNumber: { type: String },
+    transferReference: { type: String, allowNull: true },
     createdAt: { type: Date, default: Date.now }
 });
 
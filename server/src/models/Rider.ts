@@ -28,6 +28,7 @@ interface IRider {
   bankName: string | null;
   accountName: string | null;
   accountNumber: string | null;
+  activeVehicle: mongoose.Types.ObjectId | null;
   createdAt: Date;
   rating: number;
 }
@@ -58,6 +59,8 @@ const riderSchema = new Schema<IRider>({
   bankName: { type: String, allowNull: true },
   accountName: { type: String, allowNull: true },
   accountNumber: { type: String, allowNull: true },
+  //the vehicle the rider is matched and shown to customers with, picked when going online
+  activeVehicle: { type: Schema.Types.ObjectId, ref: 'Vehicle', allowNull: true },
   createdAt: { type: Date, default: Date.now },
   rating: { type: Number, default: 0}
 });
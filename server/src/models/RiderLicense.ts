@@ -8,6 +8,7 @@ interface IRiderLicense {
     licenseImageUrl: string;
     slug: string;
     isExpired: boolean;
+    expiryWarnings: number[];
     rider: mongoose.Types.ObjectId;
 }
 
@@ -18,9 +19,13 @@ const riderLicenseSchema = new Schema<IRiderLicense>({
     licenseImageUrl: { type: String },
     slug: { type: String },
     isExpired: { type: Boolean },
+    //the LICENSE_EXPIRY_WARNING_DAYS the rider was already warned at, cleared when the expiry date changes
+    expiryWarnings: { type: [Number], default: [] },
     rider: { type: Schema.Types.ObjectId, ref: 'Rider' }
 })
 
+riderLicenseSchema.index({ expiryDate: 1 });
+
 riderLicenseSchema.pre('findOne', function (next) {
     this.populate({
         path: 'rider',
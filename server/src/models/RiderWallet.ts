@@ -2,11 +2,14 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 interface IRiderWallet {
     balance: number,
+    pendingJournals: string[],
     rider: mongoose.Types.ObjectId,
 };
 
 const riderWalletSchema = new Schema<IRiderWallet>({
     balance: { type: Number, default: 0 },
+    //journals applied to this wallet that are not marked applied yet
+    pendingJournals: [{ type: String }],
     rider: { type: Schema.Types.ObjectId, ref: 'Rider' }
 });
 
@@ -3,6 +3,8 @@ import mongoose, { Document, Schema } from 'mongoose';
 interface ITransactions {
     reference: string,
     amount: number,
+    //what paystack charges for the payment in kobo, fees included
+    amountCharged: number | null,
     status: string,
     type: string,
     serviceStatus: string | null,
@@ -23,6 +25,7 @@ interface ITransactions {
 const transactionSchema = new Schema<ITransactions>({
     reference: { type: String },
     amount: { type: Number },
+    amountCharged: { type: Number, allowNull: true },
     status: { type: String },
     type: { type: String },
     serviceStatus: { type: String, allowNull: true },
@@ -23,6 +23,8 @@ const vehicleSchema = new Schema<IVehicle>({
     rider: { type: Schema.Types.ObjectId, ref: 'Rider' }
 })
 
+vehicleSchema.index({ rider: 1 });
+
 vehicleSchema.pre('findOne', function (next) {
     this.populate({
         path: 'rider',
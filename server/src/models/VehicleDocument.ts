@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import Joi from 'joi';
+
+interface IVehicleDocument {
+    vehicle: mongoose.Types.ObjectId;
+    rider: mongoose.Types.ObjectId;
+    type: string;
+    documentNumber: string;
+    issuedDate: Date;
+    expiryDate: Date;
+    documentUrl: string;
+    status: string;
+    isExpired: boolean;
+    verifiedBy: mongoose.Types.ObjectId | null;
+    verifiedAt: Date | null;
+    reason: string | null;
+}
+
+//an insurance, roadworthiness or registration of a vehicle, a renewal waits for verification next to the verified one it replaces
+const vehicleDocumentSchema = new Schema<IVehicleDocument>({
+    vehicle: { type: Schema.Types.ObjectId, ref: 'Vehicle' },
+    rider: { type: Schema.Types.ObjectId, ref: 'Rider' },
+    type: { type: String, enum: ['insurance', 'roadworthiness', 'registration'] },
+    documentNumber: { type: String },
+    issuedDate: { type: Date },
+    expiryDate: { type: Date },
+    documentUrl: { type: String },
+    status: { type: String, enum: ['pending', 'verified', 'rejected', 'superseded'] },
+    isExpired: { type: Boolean, default: false },
+    verifiedBy: { type: Schema.Types.ObjectId, ref: 'User', allowNull: true },
+    verifiedAt: { type: Date, allowNull: true },
+    //why an admin rejected the document
+    reason: { type: String, allowNull: true }
+},{ timestamps: true });
+
+vehicleDocumentSchema.index({ vehicle: 1, type: 1, status: 1 });
+//one upload of each type waits for verification at a time
+vehicleDocumentSchema.index(
+    { vehicle: 1, type: 1 },
+    { name: 'vehicle_type_pending', unique: true, partialFilterExpression: { status: 'pending' } }
+);
+vehicleDocumentSchema.index({ expiryDate: 1 });
+vehicleDocumentSchema.index({ status: 1, createdAt: 1 });
+
+export interface IVehicleDocumentModel extends Document, IVehicleDocument {}
+
+const VehicleDocument = mongoose.model<IVehicleDocumentModel>('VehicleDocument', vehicleDocumentSchema);
+
+export const $vehicleDocumentSchema: Joi.SchemaMap<IVehicleDocumentModel> = {
+    type: Joi.string().valid('insurance', 'roadworthiness', 'registration').required().label('document type'),
+    documentNumber: Joi.string().required().label('document number'),
+    issuedDate: Joi.date().required().label('issued date'),
+    expiryDate: Joi.date().required().label('expiry date')
+};
+
+export default VehicleDocument;
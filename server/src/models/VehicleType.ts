@@ -5,14 +5,16 @@ interface IVehicleType {
     vehicleType: string;
     slug: string;
     speed: number;
-    costPerKm: number
+    costPerKm: number;
+    active: boolean
 };
 
 const vehicleTypeSchema = new Schema<IVehicleTypeModel>({
     vehicleType: { type: String },
     slug: { type: String },
     speed: { type: Number },
-    costPerKm: { type: Number }
+    costPerKm: { type: Number },
+    active: { type: Boolean, default: true }
 });
 
 export interface IVehicleTypeModel extends Document, IVehicleType {}
@@ -23,14 +25,16 @@ export const $saveVehicleTypeSchema: Joi.SchemaMap<IVehicleTypeModel> = {
     vehicleType: Joi.string().required().label('Vehicle type'),
     slug: Joi.string().optional().label('slug'),
     speed: Joi.number().required().label('vehicle speed'),
-    costPerKm: Joi.number().required().label('cost per km')
+    costPerKm: Joi.number().required().label('cost per km'),
+    active: Joi.boolean().optional().label('active')
 };
 
 export const $updateVehicleTypeSchema: Joi.SchemaMap<IVehicleTypeModel> = {
     vehicleType: Joi.string().label('Vehicle type'),
     slug: Joi.string().optional().label('slug'),
     speed: Joi.number().label('vehicle speed'),
-    costPerKm: Joi.number().label('cost per km')
+    costPerKm: Joi.number().label('cost per km'),
+    active: Joi.boolean().label('active')
 };
 
 export default VehicleType
\ No newline at end of file
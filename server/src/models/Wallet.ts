@@ -2,12 +2,15 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 interface IWallet {
     balance: number,
+    pendingJournals: string[],
     customer: mongoose.Types.ObjectId,
     transactions: mongoose.Types.ObjectId[]
 };
 
 const walletSchema = new Schema<IWallet>({
     balance: { type: Number, default: 0 },
+    //journals applied to this wallet that are not marked applied yet
+    pendingJournals: [{ type: String }],
     customer: { type: Schema.Types.ObjectId, ref: 'Customer' },
     transactions: [{ type: Schema.Types.ObjectId, ref: 'Transaction' }]
 });
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import DeliveryEvent, { IDeliveryEventModel } from '../models/DeliveryEvent';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class DeliveryEventRepository extends CrudRepository<IDeliveryEventModel, Types.ObjectId> {
+  constructor() {
+    super(DeliveryEvent as Model<IDeliveryEventModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import DeviceToken, { IDeviceTokenModel } from '../models/DeviceToken';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class DeviceTokenRepository extends CrudRepository<IDeviceTokenModel, Types.ObjectId> {
+  constructor() {
+    super(DeviceToken as Model<IDeviceTokenModel>);
+  }
+}
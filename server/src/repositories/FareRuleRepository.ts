@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import FareRule, { IFareRuleModel } from '../models/FareRule';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class FareRuleRepository extends CrudRepository<IFareRuleModel, Types.ObjectId> {
+  constructor() {
+    super(FareRule as Model<IFareRuleModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import InboxNotification, { IInboxNotificationModel } from '../models/InboxNotification';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class InboxNotificationRepository extends CrudRepository<IInboxNotificationModel, Types.ObjectId> {
+  constructor() {
+    super(InboxNotification as Model<IInboxNotificationModel>);
+  }
+}
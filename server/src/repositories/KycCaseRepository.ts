@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import KycCase, { IKycCaseModel } from '../models/KycCase';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class KycCaseRepository extends CrudRepository<IKycCaseModel, Types.ObjectId> {
+  constructor() {
+    super(KycCase as Model<IKycCaseModel>);
+  }
+}
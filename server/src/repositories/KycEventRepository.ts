@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import KycEvent, { IKycEventModel } from '../models/KycEvent';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class KycEventRepository extends CrudRepository<IKycEventModel, Types.ObjectId> {
+  constructor() {
+    super(KycEvent as Model<IKycEventModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import LedgerEntry, { ILedgerEntryModel } from '../models/LedgerEntry';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class LedgerEntryRepository extends CrudRepository<ILedgerEntryModel, Types.ObjectId> {
+  constructor() {
+    super(LedgerEntry as Model<ILedgerEntryModel>);
+  }
+}
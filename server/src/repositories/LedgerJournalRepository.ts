@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import LedgerJournal, { ILedgerJournalModel } from '../models/LedgerJournal';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class LedgerJournalRepository extends CrudRepository<ILedgerJournalModel, Types.ObjectId> {
+  constructor() {
+    super(LedgerJournal as Model<ILedgerJournalModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import LicenseExpiryReport, { ILicenseExpiryReportModel } from '../models/LicenseExpiryReport';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class LicenseExpiryReportRepository extends CrudRepository<ILicenseExpiryReportModel, Types.ObjectId> {
+  constructor() {
+    super(LicenseExpiryReport as Model<ILicenseExpiryReportModel>);
+  }
+}
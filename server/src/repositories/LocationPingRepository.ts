@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import LocationPing, { ILocationPingModel } from '../models/LocationPing';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class LocationPingRepository extends CrudRepository<ILocationPingModel, Types.ObjectId> {
+  constructor() {
+    super(LocationPing as Model<ILocationPingModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import MatchingWeights, { IMatchingWeightsModel } from '../models/MatchingWeights';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class MatchingWeightsRepository extends CrudRepository<IMatchingWeightsModel, Types.ObjectId> {
+  constructor() {
+    super(MatchingWeights as Model<IMatchingWeightsModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import MessageLog, { IMessageLogModel } from '../models/MessageLog';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class MessageLogRepository extends CrudRepository<IMessageLogModel, Types.ObjectId> {
+  constructor() {
+    super(MessageLog as Model<IMessageLogModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import MessageTemplate, { IMessageTemplateModel } from '../models/MessageTemplate';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class MessageTemplateRepository extends CrudRepository<IMessageTemplateModel, Types.ObjectId> {
+  constructor() {
+    super(MessageTemplate as Model<IMessageTemplateModel>);
+  }
+}
@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import NotificationPreference, { INotificationPreferenceModel } from '../models/NotificationPreference';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class NotificationPreferenceRepository extends CrudRepository<INotificationPreferenceModel, Types.ObjectId> {
+  constructor() {
+    super(NotificationPreference as Model<INotificationPreferenceModel>);
+  }
+}
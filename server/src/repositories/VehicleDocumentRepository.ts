@@ -0,0 +1,9 @@
+import { Model, Types } from 'mongoose';
+import VehicleDocument, { IVehicleDocumentModel } from '../models/VehicleDocument';
+import CrudRepository from '../helpers/CrudRepository';
+
+export default class VehicleDocumentRepository extends CrudRepository<IVehicleDocumentModel, Types.ObjectId> {
+  constructor() {
+    super(VehicleDocument as Model<IVehicleDocumentModel>);
+  }
+}
@@ -16,6 +16,12 @@ export const initTransactionCallbackHandler = async (req: Request, res: Response
     res.status(response.code).json(response);
 };
   
+export const paystackWebhookHandler = async (req: Request, res: Response) => {
+    const response = await transactionController.paystackWebhook(req);
+
+    res.status(response.code).json(response);
+};
+
 export const updateTransactionHandler = authenticateRouteWrapper(async (req, res) => {
     const response = await transactionController.updateTransaction(req);
 
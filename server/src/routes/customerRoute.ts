@@ -149,6 +149,12 @@ export const createChatMessageHandler = authenticateRouteWrapper(async (req, res
     res.status(response.code).json(response);
 });
 
+export const uploadChatAttachmentHandler = authenticateRouteWrapper(async (req, res) => {
+    const response = await customerController.uploadChatAttachment(req);
+
+    res.status(response.code).json(response);
+});
+
 export const getChatMessagesHandler = authenticateRouteWrapper(async (req, res) => {
     const response = await customerController.getChatMessages(req);
 
@@ -11,6 +11,12 @@ export const createDeliveryHandler = authenticateRouteWrapper( async (req, res)
     res.status(response.code).json(response);
 });
 
+export const deliveryQuoteHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await deliveryController.deliveryQuote(req);
+
+    res.status(response.code).json(response);
+});
+
 export const payForDeliveryHandler = authenticateRouteWrapper( async (req, res) =>  {
     const response = await deliveryController.payForDelivery(req);
 
@@ -29,6 +35,30 @@ export const getSingleDeliveryHandler = authenticateRouteWrapper( async (req, re
     res.status(response.code).json(response);
 });
 
+export const getDeliveryTimelineHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await deliveryController.getDeliveryTimeline(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getDeliveryRouteHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await deliveryController.getDeliveryRoute(req);
+
+    res.status(response.code).json(response);
+});
+
+export const resendDeliveryOtpHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await deliveryController.resendDeliveryOtp(req);
+
+    res.status(response.code).json(response);
+});
+
+export const uploadDeliveryProofHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await deliveryController.uploadDeliveryProof(req);
+
+    res.status(response.code).json(response);
+});
+
 export const getDeliveriesHandler = authenticateRouteWrapper( async (req, res) =>  {
     const response = await deliveryController.getDeliveries(req);
 
@@ -59,6 +89,12 @@ export const cancelDeliveryHandler = authenticateRouteWrapper( async (req, res)
     res.status(response.code).json(response);
 });
 
+export const releaseDeliveryHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await deliveryController.releaseDelivery(req);
+
+    res.status(response.code).json(response);
+});
+
 export const findRidersHandler = authenticateRouteWrapper( async (req, res) =>  {
     const response = await deliveryController.findRiders(req);
 
@@ -69,11 +105,11 @@ export const packageReqHandler = async (req: Request, res: Response, socket: Soc
     await deliveryController.packageRequest(req, socket);
 };
 
-export const driverResHandler = async (req: Request, res: Response) =>  {
+export const driverResHandler = authenticateRouteWrapper( async (req: Request, res: Response) =>  {
     const response = await deliveryController.sendDriverResponse(req);
 
     res.status(response.code).json(response);
-};
+});
 
 export const customerActiveDeliveriesHandler = authenticateRouteWrapper( async (req: Request, res: Response) =>  {
     const response = await deliveryController.getActiveCustomerDeliveries(req);
@@ -0,0 +1,52 @@
+import KycController from "../controller/KycController";
+import authenticateRouteWrapper from "../middleware/authenticateRouteWrapper";
+
+const kycController = new KycController();
+
+export const submitKycHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.submitKyc(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getMyKycHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.getMyKyc(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getKycQueueHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.getKycQueue(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getKycCaseHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.getKycCase(req);
+
+    res.status(response.code).json(response);
+});
+
+export const claimKycCaseHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.claimKycCase(req);
+
+    res.status(response.code).json(response);
+});
+
+export const approveKycCaseHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.approveKycCase(req);
+
+    res.status(response.code).json(response);
+});
+
+export const rejectKycCaseHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.rejectKycCase(req);
+
+    res.status(response.code).json(response);
+});
+
+export const requestKycResubmissionHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await kycController.requestKycResubmission(req);
+
+    res.status(response.code).json(response);
+});
@@ -0,0 +1,22 @@
+import MatchingController from "../controller/MatchingController";
+import authenticateRouteWrapper from "../middleware/authenticateRouteWrapper";
+
+const matchingController = new MatchingController();
+
+export const getMatchingWeightsHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await matchingController.getMatchingWeights(req);
+
+    res.status(response.code).json(response);
+});
+
+export const saveMatchingWeightsHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await matchingController.saveMatchingWeights(req);
+
+    res.status(response.code).json(response);
+});
+
+export const explainMatchingHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await matchingController.explainMatching(req);
+
+    res.status(response.code).json(response);
+});
@@ -0,0 +1,34 @@
+import MessageTemplateController from "../controller/MessageTemplateController";
+import authenticateRouteWrapper from "../middleware/authenticateRouteWrapper";
+
+const messageTemplateController = new MessageTemplateController();
+
+export const getMessageTemplatesHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await messageTemplateController.getMessageTemplates(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getMessageTemplateVersionsHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await messageTemplateController.getMessageTemplateVersions(req);
+
+    res.status(response.code).json(response);
+});
+
+export const publishMessageTemplateHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await messageTemplateController.publishMessageTemplate(req);
+
+    res.status(response.code).json(response);
+});
+
+export const previewMessageTemplateHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await messageTemplateController.previewMessageTemplate(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getMessageLogHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await messageTemplateController.getMessageLog(req);
+
+    res.status(response.code).json(response);
+});
@@ -0,0 +1,46 @@
+import NotificationController from "../controller/NotificationController";
+import authenticateRouteWrapper from "../middleware/authenticateRouteWrapper";
+
+const notificationController = new NotificationController();
+
+export const getNotificationsHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.getNotifications(req);
+
+    res.status(response.code).json(response);
+});
+
+export const markNotificationReadHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.markNotificationRead(req);
+
+    res.status(response.code).json(response);
+});
+
+export const markAllNotificationsReadHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.markAllNotificationsRead(req);
+
+    res.status(response.code).json(response);
+});
+
+export const registerDeviceHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.registerDevice(req);
+
+    res.status(response.code).json(response);
+});
+
+export const removeDeviceHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.removeDevice(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getNotificationPreferencesHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.getNotificationPreferences(req);
+
+    res.status(response.code).json(response);
+});
+
+export const updateNotificationPreferenceHandler = authenticateRouteWrapper(async (req, res) =>  {
+    const response = await notificationController.updateNotificationPreference(req);
+
+    res.status(response.code).json(response);
+});
@@ -172,6 +172,18 @@ export const fetchRiderLicensesHandler = authenticateRouteWrapper(async (req, re
     res.status(response.code).json(response);
 });
 
+export const getLicenseExpiryReportsHandler = authenticateRouteWrapper(async (req, res) => {
+    const response = await riderController.getLicenseExpiryReports(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getLicenseExpiryReportHandler = authenticateRouteWrapper(async (req, res) => {
+    const response = await riderController.getLicenseExpiryReport(req);
+
+    res.status(response.code).json(response);
+});
+
 export const updateRiderBankDetailHandler = authenticateRouteWrapper(async (req, res) => {
     const response = await riderController.bankDetails(req);
 
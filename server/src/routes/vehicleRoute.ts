@@ -22,6 +22,12 @@ export const getSingleVehicleHandler = authenticateRouteWrapper( async (req, res
     res.status(response.code).json(response);
 });
 
+export const getRiderVehiclesHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.getRiderVehicles(req);
+
+    res.status(response.code).json(response);
+});
+
 export const getVehiclesHandler = authenticateRouteWrapper( async (req, res) =>  {
     const response = await vehicleController.getVehicles(req);
 
@@ -81,3 +87,45 @@ export const getVehicleTypeHandler = async (req: Request, res: Response) =>  {
 
     res.status(response.code).json(response);
 };
+
+export const saveFareRuleHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.saveFareRule(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getFareRulesHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.getFareRules(req);
+
+    res.status(response.code).json(response);
+});
+
+export const uploadVehicleDocumentHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.uploadVehicleDocument(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getVehicleDocumentsHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.getVehicleDocuments(req);
+
+    res.status(response.code).json(response);
+});
+
+export const getPendingVehicleDocumentsHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.getPendingVehicleDocuments(req);
+
+    res.status(response.code).json(response);
+});
+
+export const verifyVehicleDocumentHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.verifyVehicleDocument(req);
+
+    res.status(response.code).json(response);
+});
+
+export const rejectVehicleDocumentHandler = authenticateRouteWrapper( async (req, res) =>  {
+    const response = await vehicleController.rejectVehicleDocument(req);
+
+    res.status(response.code).json(response);
+});
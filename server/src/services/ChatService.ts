@@ -0,0 +1,331 @@
+import { Socket } from 'socket.io';
+import { Types } from 'mongoose';
+import datasources from './dao';
+import SocketGatewayService from './SocketGatewayService';
+import ChatMessage, { IChatMessageModel } from '../models/ChatMessages';
+import { IChatModel } from '../models/ChatModel';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import settings from '../config/settings';
+import {
+  CHAT_MESSAGE_DELIVERED,
+  CHAT_MESSAGE_READ,
+  CHAT_MESSAGE_SYSTEM,
+  CHAT_MESSAGE_TEXT,
+  CHAT_MESSAGE_UNREAD,
+  CHAT_SYSTEM_SENDER
+} from '../config/constants';
+import { appCommonTypes } from '../@types/app-common';
+import { appModelTypes } from '../@types/app-model';
+import SocketUser = appCommonTypes.SocketUser;
+import IDispatchSession = appModelTypes.IDispatchSession;
+
+const socketGatewayService = new SocketGatewayService();
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+interface IChatContent {
+  type: string,
+  message: string,
+  attachment?: IChatMessageModel['attachment']
+}
+
+/**
+ * @name ChatService
+ * @desc Private messages between the two members of a chat. Every message is
+ * @desc stored for its receiver and stays unread until their app confirms it
+ * @desc arrived, messages a receiver missed while offline are sent again, oldest
+ * @desc first, when they reconnect. Senders get a receipt each time the status
+ * @desc of their messages changes and a badge with how many are still unread.
+ * @desc A delivery gets its own chat between customer and rider once the rider
+ * @desc accepts it, with system messages for each step, and the chat turns
+ * @desc read-only settings.chat.closeAfter minutes after the delivery ends.
+ */
+class ChatService {
+
+  /**
+   * @name send
+   * @desc stores a message from {@param senderId} and sends it to the other
+   * @desc member of the chat, a message already stored under the same
+   * @desc {@param clientMessageId} is returned instead of a new one
+   */
+  public async send(
+    chatId: string,
+    senderId: any,
+    message: string,
+    clientMessageId?: string
+  ): Promise<IChatMessageModel> {
+    return this.post(chatId, senderId, { type: CHAT_MESSAGE_TEXT, message }, clientMessageId);
+  }
+
+  /**
+   * @name sendAttachment
+   * @desc sends an uploaded image or voice note with an optional caption
+   */
+  public async sendAttachment(
+    chatId: string,
+    senderId: any,
+    type: string,
+    attachment: IChatMessageModel['attachment'],
+    caption?: string,
+    clientMessageId?: string
+  ): Promise<IChatMessageModel> {
+    return this.post(chatId, senderId, { type, attachment, message: caption || '' }, clientMessageId);
+  }
+
+  /**
+   * @name openDeliveryChat
+   * @desc the chat between the customer and the rider who accepted the
+   * @desc delivery of {@param session}, created the first time
+   */
+  public async openDeliveryChat(session: IDispatchSession): Promise<IChatModel> {
+    const { deliveryId, deliveryRefNumber, customerId, riderId, riderFirstName } = session;
+
+    let chat = await datasources.chatDAOService.findByAny({ delivery: deliveryId });
+    if (chat) return this.joinDeliveryChat(chat, session);
+
+    try {
+      chat = await datasources.chatDAOService.create({
+        members: [`${customerId}`, `${riderId}`],
+        delivery: deliveryId,
+        deliveryRefNumber,
+        closesAt: null
+      } as unknown as IChatModel);
+    } catch (error: any) {
+      //opened by a concurrent acceptance
+      if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+
+      return await datasources.chatDAOService.findByAny({ delivery: deliveryId }) as IChatModel;
+    }
+
+    await this.system(deliveryId, `${riderFirstName} accepted delivery ${deliveryRefNumber}`);
+
+    return chat;
+  }
+
+  /**
+   * @name system
+   * @desc posts a step of the delivery to its chat, there is nothing
+   * @desc to post to when the delivery has no chat yet
+   */
+  public async system(deliveryId: any, message: string): Promise<void> {
+    const chat = await datasources.chatDAOService.findByAny({ delivery: deliveryId });
+    if (!chat) return;
+
+    //no one has to read a system message, it never counts as unread
+    const chatMessage = await datasources.chatMessageDAOService.create({
+      chatId: `${chat._id}`,
+      senderId: CHAT_SYSTEM_SENDER,
+      type: CHAT_MESSAGE_SYSTEM,
+      message,
+      senderStatus: CHAT_MESSAGE_READ,
+      receiverStatus: CHAT_MESSAGE_READ
+    } as IChatMessageModel);
+
+    for (const member of chat.members)
+      socketGatewayService.emitToUser(member, 'receivePrivateMessage', this.payload(chatMessage));
+  }
+
+  //a rider who released the delivery no longer reads or writes its chat
+  public async leaveDeliveryChat(deliveryId: any, riderId: any, message: string): Promise<void> {
+    await this.system(deliveryId, message);
+
+    await datasources.chatDAOService.updateByAny(
+      { delivery: deliveryId },
+      { $pull: { members: `${riderId}` } }
+    );
+  }
+
+  //the chat of a delivery that ended stays open for settings.chat.closeAfter minutes
+  public async closeDeliveryChat(deliveryId: any): Promise<void> {
+    const closesAt = new Date(Date.now() + settings.chat.closeAfter * 60 * 1000);
+
+    await datasources.chatDAOService.updateByAny(
+      { delivery: deliveryId, closesAt: null },
+      { closesAt }
+    );
+  }
+
+  //the next rider to accept a released delivery takes over its chat
+  private async joinDeliveryChat(chat: IChatModel, session: IDispatchSession): Promise<IChatModel> {
+    const { deliveryId, deliveryRefNumber, customerId, riderId, riderFirstName } = session;
+    if (chat.members.includes(`${riderId}`)) return chat;
+
+    const joined = await datasources.chatDAOService.updateByAny(
+      { _id: chat._id },
+      { members: [`${customerId}`, `${riderId}`] }
+    ) as IChatModel;
+
+    await this.system(deliveryId, `${riderFirstName} accepted delivery ${deliveryRefNumber}`);
+
+    return joined;
+  }
+
+  public isClosed(chat: IChatModel): boolean {
+    return !!chat.closesAt && new Date(chat.closesAt).getTime() <= Date.now();
+  }
+
+  /**
+   * @name flush
+   * @desc sends the user of {@param socket} the messages they have not
+   * @desc confirmed yet, oldest first
+   */
+  public async flush(socket: Socket<any, any, any, any>): Promise<void> {
+    const { userId } = socket.data as SocketUser;
+
+    const messages = await datasources.chatMessageDAOService.findAll(
+      { receiverId: userId, receiverStatus: CHAT_MESSAGE_UNREAD },
+      { sort: { createdAt: 1 } }
+    );
+    if (!messages.length) return;
+
+    socket.emit('queuedPrivateMessages', messages.map(message => this.payload(message)));
+  }
+
+  //the app of {@param receiverId} confirms it has the messages
+  public async markDelivered(receiverId: string, messageIds: string[]): Promise<void> {
+    const ids = (messageIds || []).filter(messageId => Types.ObjectId.isValid(messageId));
+    if (!ids.length) return;
+
+    const messages = await datasources.chatMessageDAOService.findAll({
+      _id: { $in: ids },
+      receiverId,
+      receiverStatus: CHAT_MESSAGE_UNREAD
+    });
+    if (!messages.length) return;
+
+    await ChatMessage.updateMany(
+      { _id: { $in: messages.map(message => message._id) }, receiverStatus: CHAT_MESSAGE_UNREAD },
+      { $set: { receiverStatus: CHAT_MESSAGE_DELIVERED, deliveredAt: new Date() } }
+    );
+
+    this.receipts(messages, CHAT_MESSAGE_DELIVERED);
+  }
+
+  //{@param receiverId} opened the chat, everything sent to them in it is read
+  public async markRead(receiverId: string, chatId: string): Promise<void> {
+    const messages = await datasources.chatMessageDAOService.findAll({
+      chatId,
+      receiverId: `${receiverId}`,
+      receiverStatus: { $ne: CHAT_MESSAGE_READ }
+    });
+    if (!messages.length) return;
+
+    await ChatMessage.updateMany(
+      { _id: { $in: messages.map(message => message._id) } },
+      { $set: { receiverStatus: CHAT_MESSAGE_READ, readAt: new Date() } }
+    );
+
+    this.receipts(messages, CHAT_MESSAGE_READ);
+
+    const senderIds = [...new Set(messages.map(message => message.senderId))];
+    for (const senderId of senderIds) await this.unreadBadge(senderId, chatId);
+  }
+
+  //the chat, when {@param memberId} is one of its members
+  public async chatOf(chatId: string, memberId: any): Promise<IChatModel> {
+    const chat = chatId && Types.ObjectId.isValid(chatId)
+      ? await datasources.chatDAOService.findById(chatId)
+      : null;
+
+    if (!chat || !chat.members.includes(`${memberId}`))
+      throw CustomAPIError.response('Chat not found', HttpStatus.NOT_FOUND.code);
+
+    return chat;
+  }
+
+  private async post(
+    chatId: string,
+    senderId: any,
+    content: IChatContent,
+    clientMessageId?: string
+  ): Promise<IChatMessageModel> {
+    const chat = await this.chatOf(chatId, senderId);
+
+    if (this.isClosed(chat))
+      throw CustomAPIError.response('Chat is closed, the delivery has ended', HttpStatus.FORBIDDEN.code);
+
+    const receiverId = chat.members.find(member => member !== `${senderId}`);
+    if (!receiverId)
+      throw CustomAPIError.response('Chat has no receiver', HttpStatus.BAD_REQUEST.code);
+
+    if (clientMessageId) {
+      const sent = await datasources.chatMessageDAOService.findByAny({ senderId: `${senderId}`, clientMessageId });
+      if (sent) return sent;
+    }
+
+    let chatMessage: IChatMessageModel;
+    try {
+      chatMessage = await datasources.chatMessageDAOService.create({
+        ...content,
+        chatId,
+        senderId: `${senderId}`,
+        receiverId,
+        clientMessageId: clientMessageId || null
+      } as IChatMessageModel);
+    } catch (error: any) {
+      //the same message was stored by a concurrent request
+      if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+
+      return await datasources.chatMessageDAOService.findByAny({
+        senderId: `${senderId}`,
+        clientMessageId
+      }) as IChatMessageModel;
+    }
+
+    socketGatewayService.emitToUser(receiverId, 'receivePrivateMessage', this.payload(chatMessage));
+
+    await this.unreadBadge(`${senderId}`, chatId);
+
+    return chatMessage;
+  }
+
+  private receipts(messages: IChatMessageModel[], receiverStatus: string): void {
+    const bySender = new Map<string, IChatMessageModel[]>();
+
+    for (const message of messages) {
+      const key = `${message.senderId}|${message.chatId}`;
+      bySender.set(key, [...(bySender.get(key) || []), message]);
+    }
+
+    for (const [key, sent] of bySender) {
+      const [senderId, chatId] = key.split('|');
+
+      socketGatewayService.emitToUser(senderId, 'messageStatus', {
+        chatId,
+        receiverStatus,
+        messageIds: sent.map(message => message._id)
+      });
+    }
+  }
+
+  private async unreadBadge(senderId: string, chatId: string): Promise<void> {
+    const unread = await ChatMessage.countDocuments({
+      chatId,
+      senderId,
+      receiverStatus: { $ne: CHAT_MESSAGE_READ }
+    });
+
+    socketGatewayService.emitToUser(senderId, 'unreadCount', { chatId, unread });
+  }
+
+  private payload(message: IChatMessageModel) {
+    return {
+      _id: message._id,
+      chatId: message.chatId,
+      senderId: message.senderId,
+      receiverId: message.receiverId,
+      type: message.type,
+      message: message.message,
+      attachment: message.attachment?.url ? message.attachment : null,
+      clientMessageId: message.clientMessageId,
+      receiverStatus: message.receiverStatus,
+      //@ts-ignore
+      createdAt: message.createdAt,
+      //@ts-ignore
+      updatedAt: message.updatedAt
+    };
+  }
+}
+
+export default ChatService;
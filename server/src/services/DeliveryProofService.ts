@@ -0,0 +1,100 @@
+import RedisService from './RedisService';
+import MessageService from './MessageService';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import AppLogger from '../utils/AppLogger';
+import {
+  DELIVERY_OTP_ATTEMPTS_PREFIX,
+  DELIVERY_OTP_ATTEMPTS_TTL,
+  DELIVERY_OTP_MAX_ATTEMPTS,
+  DELIVERY_OTP_PREFIX,
+  STOP_PENDING,
+  TEMPLATE_DELIVERY_CODE
+} from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+
+const logger = AppLogger.init('server').logger;
+const redisService = new RedisService();
+const messageService = new MessageService();
+
+interface IDeliveryOtp {
+  otp: string
+}
+
+/**
+ * @name DeliveryProofService
+ * @desc Issues the one-time code a recipient hands to the rider at drop-off.
+ * @desc The code is sent to the recipient phone and kept in redis until the
+ * @desc delivery is completed, it is locked after DELIVERY_OTP_MAX_ATTEMPTS
+ * @desc entries and has to be resent by the customer. Every entry is counted
+ * @desc with an atomic redis counter, so guesses sent at once are all counted.
+ * @desc Each stop of a
+ * @desc multi-stop delivery gets its own code, sent to the stop's recipient.
+ */
+class DeliveryProofService {
+
+  public async issueOtp(delivery: IDeliveryModel): Promise<void> {
+    if (!delivery.stops?.length)
+      return this.send(delivery.deliveryRefNumber, delivery.recipientPhone, delivery.deliveryRefNumber);
+
+    for (const stop of delivery.stops.filter(stop => stop.status === STOP_PENDING))
+      await this.send(this.stopRef(delivery.deliveryRefNumber, stop._id), stop.recipientPhone, delivery.deliveryRefNumber);
+  }
+
+  /**
+   * @name verifyOtp
+   * @desc {@param deliveryRefNumber} is the reference of the delivery,
+   * @desc or of one of its stops for a multi-stop delivery
+   */
+  public async verifyOtp(deliveryRefNumber: string, otp: any): Promise<void> {
+    const record: any = await redisService.getToken(this.otpKey(deliveryRefNumber));
+    if (!record)
+      throw CustomAPIError.response('Delivery code not found, ask the customer to resend it', HttpStatus.NOT_FOUND.code);
+
+    const deliveryOtp = record as IDeliveryOtp;
+
+    //the entry that gets past DELIVERY_OTP_MAX_ATTEMPTS wrong ones is refused, right or wrong
+    const attempts = await redisService.increment(this.attemptsKey(deliveryRefNumber), DELIVERY_OTP_ATTEMPTS_TTL);
+    if (attempts > DELIVERY_OTP_MAX_ATTEMPTS)
+      throw CustomAPIError.response('Too many wrong codes, ask the customer to resend the delivery code', HttpStatus.BAD_REQUEST.code);
+
+    if (!otp || deliveryOtp.otp !== `${otp}`)
+      throw CustomAPIError.response('Invalid delivery code', HttpStatus.BAD_REQUEST.code);
+  }
+
+  public async clearOtp(deliveryRefNumber: string): Promise<void> {
+    await redisService.deleteRedisKey(this.otpKey(deliveryRefNumber));
+    await redisService.deleteRedisKey(this.attemptsKey(deliveryRefNumber));
+  }
+
+  public stopRef(deliveryRefNumber: string, stopId: any): string {
+    return `${deliveryRefNumber}_${stopId}`;
+  }
+
+  private async send(otpRef: string, phone: string, deliveryRefNumber: string): Promise<void> {
+    const otp = redisService.generateToken();
+
+    await this.save(otpRef, { otp });
+    await redisService.deleteRedisKey(this.attemptsKey(otpRef));
+
+    try {
+      await messageService.sms(phone, TEMPLATE_DELIVERY_CODE, { deliveryRefNumber, otp });
+    } catch (error: any) {
+      logger.error(`Could not send delivery code for ${deliveryRefNumber}: ${error.message}`);
+    }
+  }
+
+  private async save(deliveryRefNumber: string, deliveryOtp: IDeliveryOtp): Promise<void> {
+    await redisService.saveToken(this.otpKey(deliveryRefNumber), JSON.stringify(deliveryOtp));
+  }
+
+  private otpKey(deliveryRefNumber: string) {
+    return `${DELIVERY_OTP_PREFIX}${deliveryRefNumber}`;
+  }
+
+  private attemptsKey(deliveryRefNumber: string) {
+    return `${DELIVERY_OTP_ATTEMPTS_PREFIX}${deliveryRefNumber}`;
+  }
+}
+
+export default DeliveryProofService;
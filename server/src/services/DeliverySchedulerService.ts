@@ -0,0 +1,191 @@
+import datasources from './dao';
+import agenda from '../config/agenda';
+import settings from '../config/settings';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import DeliveryStatusService from './DeliveryStatusService';
+import DispatchSessionService from './DispatchSessionService';
+import RiderMatchingService from './RiderMatchingService';
+import WalletLedgerService from './WalletLedgerService';
+import RabbitMqService from './RabbitMqService';
+import MessageService from './MessageService';
+import AppLogger from '../utils/AppLogger';
+import {
+  ACTOR_SYSTEM,
+  DISPATCH_MATCHED,
+  DISPATCH_REQUESTED,
+  PAID,
+  PENDING,
+  PRICING_TIMEZONE,
+  SCHEDULED,
+  SCHEDULED_DELIVERY_RELEASE,
+  SCHEDULED_DELIVERY_REMINDER,
+  TEMPLATE_DELIVERY_REMINDER,
+  TEMPLATE_SCHEDULE_NOT_DISPATCHED,
+  TEMPLATE_SCHEDULE_PAYMENT_REQUIRED
+} from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+
+const logger = AppLogger.init('server').logger;
+const deliveryStatusService = new DeliveryStatusService();
+const dispatchSessionService = new DispatchSessionService();
+const riderMatchingService = new RiderMatchingService();
+const walletLedgerService = new WalletLedgerService();
+const messageService = new MessageService();
+
+const MINUTE_IN_MS = 60 * 1000;
+
+/**
+ * @name DeliverySchedulerService
+ * @desc Holds deliveries booked for a future pickup in the SCHEDULED status.
+ * @desc An agenda job releases each one settings.schedule.leadTime minutes
+ * @desc before pickup and hands it to the dispatch engine, and a second job
+ * @desc reminds the customer settings.schedule.reminderLeadTime minutes
+ * @desc before that. Hours are read in PRICING_TIMEZONE.
+ */
+class DeliverySchedulerService {
+
+  /**
+   * @name validatePickupTime
+   * @desc a pickup must fall within service hours, leave room for
+   * @desc dispatch to start and be at most maxDaysAhead days away
+   */
+  public validatePickupTime(pickupTime: Date): void {
+    const { leadTime, serviceStartHour, serviceEndHour, maxDaysAhead } = settings.schedule;
+    const time = new Date(pickupTime).getTime();
+
+    if (time < Date.now() + leadTime * MINUTE_IN_MS)
+      throw CustomAPIError.response(
+        `Pickup time must be at least ${leadTime} minutes from now`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    if (time > Date.now() + maxDaysAhead * 24 * 60 * MINUTE_IN_MS)
+      throw CustomAPIError.response(
+        `Pickup can only be scheduled up to ${maxDaysAhead} days ahead`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    const hour = this.localHour(pickupTime);
+    if (hour < serviceStartHour || hour >= serviceEndHour)
+      throw CustomAPIError.response(
+        `Pickup can only be scheduled between ${serviceStartHour}:00 and ${serviceEndHour}:00`,
+        HttpStatus.BAD_REQUEST.code
+      );
+  }
+
+  /**
+   * @name schedule
+   * @desc queues the release and reminder jobs of {@param delivery},
+   * @desc jobs queued for it before are replaced
+   */
+  public async schedule(delivery: IDeliveryModel): Promise<void> {
+    await this.unschedule(delivery);
+
+    const { leadTime, reminderLeadTime } = settings.schedule;
+    const deliveryId = `${delivery._id}`;
+
+    const releaseAt = new Date(new Date(delivery.pickupTime).getTime() - leadTime * MINUTE_IN_MS);
+    const remindAt = new Date(releaseAt.getTime() - reminderLeadTime * MINUTE_IN_MS);
+
+    await agenda.schedule(releaseAt, SCHEDULED_DELIVERY_RELEASE, { deliveryId });
+
+    if (remindAt.getTime() > Date.now())
+      await agenda.schedule(remindAt, SCHEDULED_DELIVERY_REMINDER, { deliveryId });
+  }
+
+  public async unschedule(delivery: IDeliveryModel): Promise<void> {
+    await agenda.cancel({
+      name: { $in: [SCHEDULED_DELIVERY_RELEASE, SCHEDULED_DELIVERY_REMINDER] },
+      'data.deliveryId': `${delivery._id}`
+    });
+  }
+
+  /**
+   * @name release
+   * @desc moves a scheduled delivery back into the normal flow, paid or
+   * @desc pending, and offers a paid one to the nearest rider. The customer
+   * @desc is told to pay first, or to request a rider themselves when none
+   * @desc can be found.
+   */
+  public async release(deliveryId: string): Promise<void> {
+    const delivery = await datasources.deliveryDAOService.findById(deliveryId);
+    if (!delivery || delivery.status !== SCHEDULED) return;
+
+    const escrow = await walletLedgerService.escrowBalance(delivery.deliveryRefNumber);
+
+    const released = await deliveryStatusService.transition(delivery._id, {
+      to: escrow > 0 ? PAID : PENDING,
+      actorType: ACTOR_SYSTEM,
+      note: 'Scheduled pickup released for dispatch'
+    });
+
+    if (released.status !== PAID) {
+      await this.notifyCustomer(released, TEMPLATE_SCHEDULE_PAYMENT_REQUIRED, {
+        deliveryRefNumber: released.deliveryRefNumber
+      });
+      return;
+    }
+
+    try {
+      const candidates = await riderMatchingService.rank(released);
+      if (!candidates.length)
+        throw CustomAPIError.response('No rider is currently online', HttpStatus.NOT_FOUND.code);
+
+      const packageRequestData = await riderMatchingService.packageRequest(released, candidates[0]);
+      await dispatchSessionService.open(packageRequestData, candidates);
+
+      const session = await dispatchSessionService.transition(
+        released.deliveryRefNumber,
+        [DISPATCH_MATCHED],
+        DISPATCH_REQUESTED
+      );
+
+      const rabbitMqService = await RabbitMqService.shared();
+      await rabbitMqService.submitPackageRequest(session);
+    } catch (error: any) {
+      logger.error(`Scheduled delivery ${released.deliveryRefNumber} was not dispatched: ${error.message}`);
+
+      await this.notifyCustomer(released, TEMPLATE_SCHEDULE_NOT_DISPATCHED, {
+        deliveryRefNumber: released.deliveryRefNumber
+      });
+    }
+  }
+
+  public async remind(deliveryId: string): Promise<void> {
+    const delivery = await datasources.deliveryDAOService.findById(deliveryId);
+    if (!delivery || delivery.status !== SCHEDULED) return;
+
+    const pickupTime = new Date(delivery.pickupTime).toLocaleString('en-GB', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: PRICING_TIMEZONE
+    });
+
+    await this.notifyCustomer(delivery, TEMPLATE_DELIVERY_REMINDER, {
+      deliveryRefNumber: delivery.deliveryRefNumber,
+      pickupTime
+    });
+  }
+
+  private async notifyCustomer(delivery: IDeliveryModel, template: string, variables: Record<string, any>): Promise<void> {
+    const customer = await datasources.customerDAOService.findById(delivery.customer);
+    if (!customer?.phone) return;
+
+    try {
+      await messageService.sms(customer.phone, template, variables);
+    } catch (error: any) {
+      logger.error(`Could not notify customer of delivery ${delivery.deliveryRefNumber}: ${error.message}`);
+    }
+  }
+
+  private localHour(at: Date): number {
+    return +new Intl.DateTimeFormat('en-GB', {
+      hour: 'numeric',
+      hourCycle: 'h23',
+      timeZone: PRICING_TIMEZONE
+    }).format(new Date(at));
+  }
+}
+
+export default DeliverySchedulerService;
@@ -0,0 +1,68 @@
+import datasources from './dao';
+import WalletLedgerService from './WalletLedgerService';
+import NotificationInboxService from './NotificationInboxService';
+import { IDeliveryModel } from '../models/Delivery';
+import AppLogger from '../utils/AppLogger';
+import { ADMIN_CHARGES, DELIVERED, NOTIFICATION_WALLET_CREDITED } from '../config/constants';
+
+const logger = AppLogger.init('server').logger;
+const walletLedgerService = new WalletLedgerService();
+const notificationInboxService = new NotificationInboxService();
+
+/**
+ * @name DeliverySettlementService
+ * @desc Pays the rider and the platform their share of the fee a delivered
+ * @desc delivery holds in escrow. The write that delivers it marks it
+ * @desc pendingSettlement and the mark is only cleared once the rider was
+ * @desc paid, so a settlement that fails is finished by finishPending. Every
+ * @desc step is keyed by the delivery and may run again.
+ */
+class DeliverySettlementService {
+
+  public async settle(delivery: IDeliveryModel): Promise<void> {
+    if (!delivery.pendingSettlement) return;
+
+    const { deliveryRefNumber, rider } = delivery;
+
+    const adminFee = Math.round(ADMIN_CHARGES/100 * delivery.deliveryFee);
+    const riderFee = delivery.deliveryFee - adminFee;
+
+    //releases the escrowed fee to the rider wallet and the platform
+    await walletLedgerService.settleDelivery(rider, delivery, riderFee, adminFee);
+
+    //saves the admin charges for the delivery
+    await datasources.adminFeeDAOService.updateByAny(
+      { deliveryRefNumber },
+      { $setOnInsert: { deliveryRefNumber, rider, adminFee } },
+      { upsert: true }
+    );
+
+    await notificationInboxService.notify({ id: rider, type: 'rider' }, {
+      type: NOTIFICATION_WALLET_CREDITED,
+      title: 'Wallet credited',
+      body: `${riderFee} was added to your wallet for delivery ${deliveryRefNumber}.`,
+      data: { deliveryId: delivery._id, deliveryRefNumber, amount: riderFee },
+      dedupeKey: `rider_earning:${deliveryRefNumber}`
+    });
+
+    await datasources.deliveryDAOService.updateByAny({ _id: delivery._id }, { pendingSettlement: false });
+  }
+
+  //run by the DELIVERY_SETTLEMENT_RECOVERY_JOB for deliveries whose settlement failed
+  public async finishPending(): Promise<void> {
+    const deliveries = await datasources.deliveryDAOService.findAll({
+      status: DELIVERED,
+      pendingSettlement: true
+    });
+
+    for (const delivery of deliveries) {
+      try {
+        await this.settle(delivery);
+      } catch (error: any) {
+        logger.error(`Settlement of delivery ${delivery.deliveryRefNumber} was not finished: ${error.message}`);
+      }
+    }
+  }
+}
+
+export default DeliverySettlementService;
@@ -0,0 +1,104 @@
+import { UpdateQuery } from 'mongoose';
+import datasources from './dao';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import { ACTOR_SYSTEM, DELIVERY_STATUS_TRANSITIONS } from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+import { IDeliveryEventModel } from '../models/DeliveryEvent';
+import { appModelTypes } from '../@types/app-model';
+import IDeliveryStatusChange = appModelTypes.IDeliveryStatusChange;
+
+/**
+ * @name DeliveryStatusService
+ * @desc Single place where a delivery changes status. Every move is checked
+ * @desc against DELIVERY_STATUS_TRANSITIONS and recorded as a DeliveryEvent
+ * @desc with the actor, time and location of the change.
+ */
+class DeliveryStatusService {
+
+  public canTransition(from: string, to: string): boolean {
+    const allowed = DELIVERY_STATUS_TRANSITIONS[from];
+    return !!allowed && allowed.includes(to);
+  }
+
+  /**
+   * @name transition
+   * @desc moves a delivery to {@param change.to} and applies {@param update}
+   * @desc in the same write, the write only succeeds while the delivery is
+   * @desc still in the status it was read in
+   */
+  public async transition(
+    deliveryId: any,
+    change: IDeliveryStatusChange,
+    update: UpdateQuery<IDeliveryModel> = {}
+  ): Promise<IDeliveryModel> {
+    const delivery = await datasources.deliveryDAOService.findById(deliveryId);
+    if (!delivery)
+      throw CustomAPIError.response('Delivery not found.', HttpStatus.NOT_FOUND.code);
+
+    const from = delivery.status;
+
+    if (!this.canTransition(from, change.to))
+      throw CustomAPIError.response(
+        `Delivery can not move from ${from} to ${change.to}`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    const updated = await datasources.deliveryDAOService.updateByAny(
+      { _id: delivery._id, status: from },
+      { ...update, status: change.to }
+    );
+    if (!updated)
+      throw CustomAPIError.response(
+        'Delivery status was changed by another request, please try again.',
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    await datasources.deliveryEventDAOService.create({
+      delivery: delivery._id,
+      deliveryRefNumber: delivery.deliveryRefNumber,
+      fromStatus: from,
+      toStatus: change.to,
+      actor: change.actor || null,
+      actorType: change.actorType || ACTOR_SYSTEM,
+      location: change.location
+        ? { type: 'Point', coordinates: change.location }
+        : undefined,
+      note: change.note
+    } as any);
+
+    return updated;
+  }
+
+  /**
+   * @name note
+   * @desc records something that happened to {@param delivery}
+   * @desc on its timeline without changing its status
+   */
+  public async note(
+    delivery: IDeliveryModel,
+    change: Omit<IDeliveryStatusChange, 'to'>
+  ): Promise<IDeliveryEventModel> {
+    return datasources.deliveryEventDAOService.create({
+      delivery: delivery._id,
+      deliveryRefNumber: delivery.deliveryRefNumber,
+      fromStatus: delivery.status,
+      toStatus: delivery.status,
+      actor: change.actor || null,
+      actorType: change.actorType || ACTOR_SYSTEM,
+      location: change.location
+        ? { type: 'Point', coordinates: change.location }
+        : undefined,
+      note: change.note
+    } as any);
+  }
+
+  public async timeline(deliveryId: any): Promise<IDeliveryEventModel[]> {
+    return datasources.deliveryEventDAOService.findAll(
+      { delivery: deliveryId },
+      { sort: { createdAt: 1 } }
+    );
+  }
+}
+
+export default DeliveryStatusService;
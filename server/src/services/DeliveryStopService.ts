@@ -0,0 +1,136 @@
+import datasources from './dao';
+import DeliveryProofService from './DeliveryProofService';
+import DeliveryStatusService from './DeliveryStatusService';
+import MessageService from './MessageService';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import AppLogger from '../utils/AppLogger';
+import {
+  ACTOR_RIDER,
+  ON_TRANSIT,
+  STOP_DELIVERED,
+  STOP_PENDING,
+  TEMPLATE_STOP_DELIVERED,
+  TEMPLATE_STOP_NEXT
+} from '../config/constants';
+import { IDeliveryModel, IDeliveryStop } from '../models/Delivery';
+
+const logger = AppLogger.init('server').logger;
+const deliveryProofService = new DeliveryProofService();
+const deliveryStatusService = new DeliveryStatusService();
+const messageService = new MessageService();
+
+interface ICompletedStop {
+  delivery: IDeliveryModel,
+  stop: IDeliveryStop,
+  sequence: number,
+  next: IDeliveryStop | null
+}
+
+/**
+ * @name DeliveryStopService
+ * @desc Drop-offs of a multi-stop delivery. The rider visits the stops in the
+ * @desc order the customer listed them and confirms each one with the code its
+ * @desc recipient received. The delivery ends once the last stop is confirmed.
+ */
+class DeliveryStopService {
+
+  public isMultiStop(delivery: IDeliveryModel): boolean {
+    return !!delivery.stops?.length;
+  }
+
+  public pendingStops(delivery: IDeliveryModel): IDeliveryStop[] {
+    return (delivery.stops || []).filter(stop => stop.status === STOP_PENDING);
+  }
+
+  /**
+   * @name completeStop
+   * @desc confirms the next stop of an on-transit delivery with the
+   * @desc code its recipient gives the rider
+   */
+  public async completeStop(
+    deliveryRefNumber: string,
+    stopId: string,
+    riderId: any,
+    otp: any,
+    location: [number, number] | null
+  ): Promise<ICompletedStop> {
+    const delivery = await datasources.deliveryDAOService.findByAny({ deliveryRefNumber });
+    if (!delivery || !this.isMultiStop(delivery))
+      throw CustomAPIError.response('Multi-stop delivery not found', HttpStatus.NOT_FOUND.code);
+
+    if (delivery.status !== ON_TRANSIT)
+      throw CustomAPIError.response('Delivery has not been started', HttpStatus.BAD_REQUEST.code);
+
+    if (`${delivery.rider}` !== `${riderId}`)
+      throw CustomAPIError.response('Delivery is assigned to another rider', HttpStatus.FORBIDDEN.code);
+
+    const [stop, next = null] = this.pendingStops(delivery);
+    if (!stop)
+      throw CustomAPIError.response('All stops have been delivered', HttpStatus.BAD_REQUEST.code);
+
+    if (`${stop._id}` !== `${stopId}`)
+      throw CustomAPIError.response(
+        `Stops are delivered in order, the next stop is ${stop.recipientName}`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    const otpRef = deliveryProofService.stopRef(deliveryRefNumber, stop._id);
+    await deliveryProofService.verifyOtp(otpRef, otp);
+
+    const now = new Date();
+    const updated = await datasources.deliveryDAOService.updateByAny(
+      { _id: delivery._id, stops: { $elemMatch: { _id: stop._id, status: STOP_PENDING } } },
+      {
+        $set: {
+          'stops.$.status': STOP_DELIVERED,
+          'stops.$.deliveredAt': now,
+          'stops.$.otpVerifiedAt': now
+        }
+      }
+    );
+    if (!updated)
+      throw CustomAPIError.response('Stop has already been delivered', HttpStatus.BAD_REQUEST.code);
+
+    await deliveryProofService.clearOtp(otpRef);
+
+    const sequence = delivery.stops.findIndex(_stop => `${_stop._id}` === `${stop._id}`) + 1;
+
+    await deliveryStatusService.note(updated, {
+      actor: riderId,
+      actorType: ACTOR_RIDER,
+      location,
+      note: `Stop ${sequence} of ${delivery.stops.length} delivered to ${stop.recipientName}`
+    });
+
+    return { delivery: updated, stop, sequence, next };
+  }
+
+  /**
+   * @name notifyRecipients
+   * @desc tells the recipient of {@param delivered} their package was
+   * @desc dropped off and the recipient of {@param next} that the rider
+   * @desc is on the way to them
+   */
+  public async notifyRecipients(
+    deliveryRefNumber: string,
+    delivered: IDeliveryStop | null,
+    next: IDeliveryStop | null
+  ): Promise<void> {
+    if (delivered)
+      await this.sms(delivered.recipientPhone, TEMPLATE_STOP_DELIVERED, { deliveryRefNumber, item: delivered.item });
+
+    if (next)
+      await this.sms(next.recipientPhone, TEMPLATE_STOP_NEXT, { deliveryRefNumber, item: next.item });
+  }
+
+  private async sms(phone: string, template: string, variables: Record<string, any>): Promise<void> {
+    try {
+      await messageService.sms(phone, template, variables);
+    } catch (error: any) {
+      logger.error(`Could not send stop notification to ${phone}: ${error.message}`);
+    }
+  }
+}
+
+export default DeliveryStopService;
@@ -0,0 +1,155 @@
+import { Socket } from 'socket.io';
+import datasources from './dao';
+import DispatchSessionService from './DispatchSessionService';
+import DeliveryStopService from './DeliveryStopService';
+import SocketGatewayService from './SocketGatewayService';
+import dataStore from '../config/dataStore';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import Generic from '../utils/Generic';
+import {
+  ACTIVE_DISPATCH_STATUSES,
+  AVERAGE_SPEED,
+  LOCATION_BROADCAST_INTERVAL,
+  ON_TRANSIT,
+  RIDER_READY_TO_COLLECT_PACKAGE,
+  RIDER_REQUESTED,
+  TRACKING_ROOM_PREFIX,
+  TRACKING_THROTTLE_PREFIX
+} from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+
+const dispatchSessionService = new DispatchSessionService();
+const deliveryStopService = new DeliveryStopService();
+const socketGatewayService = new SocketGatewayService();
+
+const TRACKED_STATUSES = [RIDER_REQUESTED, RIDER_READY_TO_COLLECT_PACKAGE, ON_TRANSIT];
+
+//one connection for the whole process, dataStore opens a new one on every call
+const client = dataStore.init();
+
+interface ITrackingUpdate {
+  deliveryRefNumber: string,
+  latitude: number,
+  longitude: number,
+  heading: 'pickup' | 'dropoff',
+  etaMinutes: number,
+  updatedAt: Date
+}
+
+/**
+ * @name DeliveryTrackingService
+ * @desc Streams the location of the assigned rider to a Socket.IO room of its
+ * @desc delivery. The customer joins the room while the delivery is active and
+ * @desc gets at most one update every LOCATION_BROADCAST_INTERVAL, each with
+ * @desc the ETA to the pickup or to the next drop-off. The throttle lives in
+ * @desc Redis next to the presence keys, so it holds across every node. The
+ * @desc room is emptied when the delivery ends.
+ */
+class DeliveryTrackingService {
+
+  /**
+   * @name join
+   * @desc adds the socket of {@param customerId} to the room of one of
+   * @desc their active deliveries and sends it the last known location
+   */
+  public async join(socket: Socket<any, any, any, any>, deliveryRefNumber: string, customerId: any): Promise<void> {
+    const delivery = await datasources.deliveryDAOService.findByAny({ deliveryRefNumber });
+    if (!delivery || `${delivery.customer}` !== `${customerId}`)
+      throw CustomAPIError.response('Delivery not found.', HttpStatus.NOT_FOUND.code);
+
+    if (!TRACKED_STATUSES.includes(delivery.status) || !delivery.rider)
+      throw CustomAPIError.response('Delivery is not active, it can not be tracked', HttpStatus.BAD_REQUEST.code);
+
+    await socket.join(this.room(deliveryRefNumber));
+
+    const riderLocation = await datasources.riderLocationDAOService.findByAny({ rider: delivery.rider });
+    if (!riderLocation) return;
+
+    const [longitude, latitude] = riderLocation.location.coordinates;
+    socket.emit('riderLocation', await this.update(delivery, longitude, latitude));
+  }
+
+  public async leave(socket: Socket<any, any, any, any>, deliveryRefNumber: string): Promise<void> {
+    await socket.leave(this.room(deliveryRefNumber));
+  }
+
+  /**
+   * @name publish
+   * @desc broadcasts a location pushed by {@param riderId} to the room
+   * @desc of the delivery they are handling, updates are dropped while
+   * @desc the throttle key of the last broadcast has not expired
+   */
+  public async publish(riderId: any, longitude: number, latitude: number): Promise<void> {
+    const io = socketGatewayService.server();
+    if (!io) return;
+
+    const session = await dispatchSessionService.getByRider(`${riderId}`);
+    if (!session || !ACTIVE_DISPATCH_STATUSES.includes(session.status)) return;
+
+    const { deliveryRefNumber } = session;
+
+    //only the first update of each interval sets the key, on any node
+    const claimed = await client.set(
+      `${TRACKING_THROTTLE_PREFIX}${deliveryRefNumber}`,
+      `${riderId}`,
+      'PX',
+      LOCATION_BROADCAST_INTERVAL,
+      'NX'
+    );
+    if (!claimed) return;
+
+    const delivery = await datasources.deliveryDAOService.findByAny({ deliveryRefNumber });
+    if (!delivery || !TRACKED_STATUSES.includes(delivery.status)) return;
+
+    io.to(this.room(deliveryRefNumber)).emit('riderLocation', await this.update(delivery, longitude, latitude));
+  }
+
+  /**
+   * @name stop
+   * @desc tells the room the stream has ended and empties it
+   */
+  public stop(deliveryRefNumber: string): void {
+    const io = socketGatewayService.server();
+    if (!io) return;
+
+    const room = this.room(deliveryRefNumber);
+    io.to(room).emit('trackingEnded', { deliveryRefNumber });
+    io.in(room).socketsLeave(room);
+  }
+
+  private async update(delivery: IDeliveryModel, longitude: number, latitude: number): Promise<ITrackingUpdate> {
+    const heading = delivery.status === ON_TRANSIT ? 'dropoff' : 'pickup';
+
+    //on transit the rider heads to the next stop that has not been delivered
+    const [nextStop] = deliveryStopService.pendingStops(delivery);
+    const target = heading === 'pickup'
+      ? delivery.senderLocation
+      : nextStop?.recipientLocation || delivery.recipientLocation;
+
+    const vehicleType = await datasources.vehicleTypeDAOService.findByAny({ vehicleType: delivery.vehicle });
+
+    const distance = Generic.location_difference(
+      latitude,
+      longitude,
+      target.coordinates[1],
+      target.coordinates[0],
+      vehicleType?.speed || AVERAGE_SPEED
+    );
+
+    return {
+      deliveryRefNumber: delivery.deliveryRefNumber,
+      latitude,
+      longitude,
+      heading,
+      etaMinutes: distance.hours * 60 + distance.minutes,
+      updatedAt: new Date()
+    };
+  }
+
+  private room(deliveryRefNumber: string): string {
+    return `${TRACKING_ROOM_PREFIX}${deliveryRefNumber}`;
+  }
+}
+
+export default DeliveryTrackingService;
@@ -0,0 +1,156 @@
+import type RabbitMqService from './RabbitMqService';
+import DispatchSessionService from './DispatchSessionService';
+import NotificationInboxService from './NotificationInboxService';
+import agenda from '../config/agenda';
+import settings from '../config/settings';
+import {
+  DISPATCH_OFFER_EXPIRY,
+  DISPATCH_REQUESTED,
+  NOTIFICATION_NO_RIDER_FOUND,
+  NOTIFICATION_OFFER_EXPIRED
+} from '../config/constants';
+import AppLogger from '../utils/AppLogger';
+import { appModelTypes } from '../@types/app-model';
+import IDispatchSession = appModelTypes.IDispatchSession;
+import IDispatchCandidate = appModelTypes.IDispatchCandidate;
+
+const logger = AppLogger.init('server').logger;
+const dispatchSessionService = new DispatchSessionService();
+const notificationInboxService = new NotificationInboxService();
+
+/**
+ * @name DispatchEngineService
+ * @desc Offers a delivery to the ranked riders of its dispatch session one
+ * @desc at a time. Each offer is open for settings.dispatch.offerTimeout
+ * @desc seconds; a decline or an expired offer moves the job to the next
+ * @desc rider that has not declined it, and the customer is only told once
+ * @desc the list of candidates runs out. The window is closed by an Agenda
+ * @desc job so it survives a restart and runs on whichever node picks it up.
+ */
+class DispatchEngineService {
+  private rabbitMqService: RabbitMqService;
+
+  constructor(rabbitMqService: RabbitMqService) {
+    this.rabbitMqService = rabbitMqService;
+  }
+
+  /**
+   * @name watchOffer
+   * @desc starts the accept window of the current offer, the offer
+   * @desc is treated as declined when the window closes unanswered
+   */
+  public async watchOffer(session: IDispatchSession): Promise<IDispatchSession> {
+    let offered = session;
+
+    if (!offered.offerExpiresAt)
+      offered = await dispatchSessionService.offer(
+        session.deliveryRefNumber,
+        this.currentCandidate(session),
+        this.expiresAt()
+      );
+
+    const { deliveryRefNumber, riderId } = offered;
+
+    await this.clearOffer(deliveryRefNumber);
+    await agenda.schedule(new Date(offered.offerExpiresAt as string), DISPATCH_OFFER_EXPIRY, {
+      deliveryRefNumber,
+      riderId: `${riderId}`
+    });
+
+    return offered;
+  }
+
+  public async clearOffer(deliveryRefNumber: string): Promise<void> {
+    await agenda.cancel({ name: DISPATCH_OFFER_EXPIRY, 'data.deliveryRefNumber': deliveryRefNumber });
+  }
+
+  public isOfferOpen(session: IDispatchSession): boolean {
+    if (session.status !== DISPATCH_REQUESTED) return false;
+    if (!session.offerExpiresAt) return true;
+
+    return new Date(session.offerExpiresAt).getTime() > Date.now();
+  }
+
+  /**
+   * @name advance
+   * @desc marks {@param riderId} as declined and offers the delivery to the
+   * @desc next ranked rider, returns null when no candidate is left
+   */
+  public async advance(deliveryRefNumber: string, riderId: string): Promise<IDispatchSession | null> {
+    await this.clearOffer(deliveryRefNumber);
+
+    const session = await dispatchSessionService.decline(deliveryRefNumber, riderId);
+    const candidate = dispatchSessionService.nextCandidate(session);
+
+    if (!candidate) {
+      await dispatchSessionService.close(deliveryRefNumber);
+
+      this.rabbitMqService.notifyCustomer(session.customerId, 'riderDeclined', {
+        body: 'No rider accepted your request, please try again later',
+        riderName: session.riderFirstName,
+        riderPhoto: session.riderPhoto,
+        deliveryRefNumber
+      });
+
+      await notificationInboxService.notify({ id: session.customerId, type: 'customer' }, {
+        type: NOTIFICATION_NO_RIDER_FOUND,
+        title: 'No rider available',
+        body: `No rider accepted your delivery ${deliveryRefNumber}, please try again later.`,
+        data: { deliveryId: session.deliveryId, deliveryRefNumber }
+      });
+
+      return null;
+    }
+
+    const offered = await dispatchSessionService.offer(deliveryRefNumber, candidate, this.expiresAt());
+    await this.rabbitMqService.assignPackageToDriver(offered);
+
+    return offered;
+  }
+
+  /**
+   * @name release
+   * @desc {@param riderId} gave back the delivery they accepted, it is
+   * @desc offered to the next ranked rider that has not declined it
+   */
+  public async release(deliveryRefNumber: string, riderId: string): Promise<IDispatchSession | null> {
+    return this.advance(deliveryRefNumber, riderId);
+  }
+
+  //run by the DISPATCH_OFFER_EXPIRY job, an offer that was answered in the meantime is left alone
+  public async expireOffer(deliveryRefNumber: string, riderId: string): Promise<void> {
+    const session = await dispatchSessionService.get(deliveryRefNumber);
+    if (!session || session.status !== DISPATCH_REQUESTED || `${session.riderId}` !== riderId) return;
+
+    logger.info(`Offer for delivery ${deliveryRefNumber} expired for rider ${riderId}`);
+
+    await this.rabbitMqService.sendNotificationToDriver(riderId, {
+      title: 'Delivery request expired',
+      body: 'The delivery request was passed on to another rider.',
+      deliveryRefNumber
+    }, NOTIFICATION_OFFER_EXPIRED);
+
+    await this.advance(deliveryRefNumber, riderId);
+  }
+
+  private currentCandidate(session: IDispatchSession): IDispatchCandidate {
+    const candidate = session.candidates.find(
+      candidate => `${candidate.riderId}` === `${session.riderId}`
+    );
+
+    return candidate ?? {
+      riderId: session.riderId,
+      riderFirstName: session.riderFirstName,
+      riderPhoto: session.riderPhoto,
+      arrivalTime: session.arrivalTime,
+      arrivalMinutes: 0,
+      distance: 0
+    };
+  }
+
+  private expiresAt(): Date {
+    return new Date(Date.now() + settings.dispatch.offerTimeout * 1000);
+  }
+}
+
+export default DispatchEngineService;
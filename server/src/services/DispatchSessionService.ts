@@ -0,0 +1,214 @@
+import RedisService from './RedisService';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import {
+  ACTIVE_DISPATCH_STATUSES,
+  DISPATCH_MATCHED,
+  DISPATCH_REQUESTED,
+  DISPATCH_RIDER_PREFIX,
+  DISPATCH_SESSION_PREFIX,
+  DISPATCH_SESSION_TTL
+} from '../config/constants';
+import { appModelTypes } from '../@types/app-model';
+import IDispatchSession = appModelTypes.IDispatchSession;
+import IPackageRequestData = appModelTypes.IPackageRequestData;
+import IDispatchCandidate = appModelTypes.IDispatchCandidate;
+
+const redisService = new RedisService();
+
+interface ISessionLookup {
+  deliveryRefNumber?: string,
+  riderId?: string
+}
+
+/**
+ * @name DispatchSessionService
+ * @desc Keeps the matched rider/customer payload of each delivery in redis,
+ * @desc keyed by delivery reference number, with a second key pointing a rider
+ * @desc to the delivery they are currently handling. Both keys expire after
+ * @desc DISPATCH_SESSION_TTL and are refreshed on every transition.
+ */
+class DispatchSessionService {
+
+  //a session a rider accepted is never matched again, the rider keeps it until it is closed
+  public async open(data: IPackageRequestData, candidates: IDispatchCandidate[] = []): Promise<IDispatchSession> {
+    const previous = await this.get(data.deliveryRefNumber);
+    if (previous && ACTIVE_DISPATCH_STATUSES.includes(previous.status))
+      throw CustomAPIError.response('A rider is already handling this delivery', HttpStatus.BAD_REQUEST.code);
+
+    if (previous && `${previous.riderId}` !== `${data.riderId}`)
+      await redisService.deleteRedisKey(this.riderKey(previous.riderId));
+
+    const session: IDispatchSession = {
+      ...data,
+      status: DISPATCH_MATCHED,
+      updatedAt: new Date().toISOString(),
+      candidates,
+      declined: previous ? previous.declined : [],
+      offerExpiresAt: null
+    };
+
+    await this.save(session);
+
+    return session;
+  }
+
+  public async get(deliveryRefNumber: string): Promise<IDispatchSession | null> {
+    if (!deliveryRefNumber) return null;
+
+    const session: any = await redisService.getToken(this.sessionKey(deliveryRefNumber));
+    return session;
+  }
+
+  public async getByRider(riderId: string): Promise<IDispatchSession | null> {
+    if (!riderId) return null;
+
+    const deliveryRefNumber: any = await redisService.getToken(this.riderKey(riderId));
+    if (!deliveryRefNumber) return null;
+
+    return this.get(deliveryRefNumber);
+  }
+
+  /**
+   * @name resolve
+   * @desc finds the session from a delivery reference number
+   * @desc and falls back to the rider's current session
+   */
+  public async resolve(lookup: ISessionLookup): Promise<IDispatchSession | null> {
+    if (lookup.deliveryRefNumber) return this.get(lookup.deliveryRefNumber);
+
+    if (lookup.riderId) return this.getByRider(`${lookup.riderId}`);
+
+    return null;
+  }
+
+  /**
+   * @name transition
+   * @desc moves a session to the next lifecycle status, the current
+   * @desc status must be one of the statuses listed in {@param from}
+   */
+  public async transition(deliveryRefNumber: string, from: string[], to: string): Promise<IDispatchSession> {
+    const session = await this.get(deliveryRefNumber);
+    if (!session)
+      throw CustomAPIError.response('Dispatch session not found or expired', HttpStatus.NOT_FOUND.code);
+
+    if (!from.includes(session.status))
+      throw CustomAPIError.response(
+        `Dispatch session can not move from ${session.status} to ${to}`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    const updated: IDispatchSession = {
+      ...session,
+      status: to,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.save(updated);
+
+    return updated;
+  }
+
+  /**
+   * @name offer
+   * @desc hands the session over to {@param candidate} and
+   * @desc starts a new accept window for the offer
+   */
+  public async offer(deliveryRefNumber: string, candidate: IDispatchCandidate, expiresAt: Date): Promise<IDispatchSession> {
+    const session = await this.get(deliveryRefNumber);
+    if (!session)
+      throw CustomAPIError.response('Dispatch session not found or expired', HttpStatus.NOT_FOUND.code);
+
+    if (`${session.riderId}` !== `${candidate.riderId}`)
+      await redisService.deleteRedisKey(this.riderKey(session.riderId));
+
+    const updated: IDispatchSession = {
+      ...session,
+      riderId: candidate.riderId,
+      riderFirstName: candidate.riderFirstName,
+      riderPhoto: candidate.riderPhoto,
+      arrivalTime: candidate.arrivalTime,
+      status: DISPATCH_REQUESTED,
+      offerExpiresAt: expiresAt.toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.save(updated);
+
+    return updated;
+  }
+
+  /**
+   * @name decline
+   * @desc records that {@param riderId} declined or let the offer expire
+   */
+  public async decline(deliveryRefNumber: string, riderId: string): Promise<IDispatchSession> {
+    const session = await this.get(deliveryRefNumber);
+    if (!session)
+      throw CustomAPIError.response('Dispatch session not found or expired', HttpStatus.NOT_FOUND.code);
+
+    const declined = session.declined.includes(`${riderId}`)
+      ? session.declined
+      : [...session.declined, `${riderId}`];
+
+    const updated: IDispatchSession = {
+      ...session,
+      declined,
+      offerExpiresAt: null,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.save(updated);
+
+    return updated;
+  }
+
+  /**
+   * @name nextCandidate
+   * @desc the nearest ranked rider that has not declined the delivery yet
+   */
+  public nextCandidate(session: IDispatchSession): IDispatchCandidate | null {
+    const candidate = session.candidates.find(
+      candidate => !session.declined.includes(`${candidate.riderId}`)
+    );
+
+    return candidate ?? null;
+  }
+
+  public async close(deliveryRefNumber: string): Promise<void> {
+    const session = await this.get(deliveryRefNumber);
+
+    await redisService.deleteRedisKey(this.sessionKey(deliveryRefNumber));
+
+    if (session) {
+      const current: any = await redisService.getToken(this.riderKey(session.riderId));
+      if (current === deliveryRefNumber)
+        await redisService.deleteRedisKey(this.riderKey(session.riderId));
+    }
+  }
+
+  private async save(session: IDispatchSession): Promise<void> {
+    await Promise.all([
+      redisService.saveToken(
+        this.sessionKey(session.deliveryRefNumber),
+        JSON.stringify(session),
+        DISPATCH_SESSION_TTL
+      ),
+      redisService.saveToken(
+        this.riderKey(session.riderId),
+        JSON.stringify(session.deliveryRefNumber),
+        DISPATCH_SESSION_TTL
+      )
+    ]);
+  }
+
+  private sessionKey(deliveryRefNumber: string) {
+    return `${DISPATCH_SESSION_PREFIX}${deliveryRefNumber}`;
+  }
+
+  private riderKey(riderId: string) {
+    return `${DISPATCH_RIDER_PREFIX}${riderId}`;
+  }
+}
+
+export default DispatchSessionService;
@@ -0,0 +1,227 @@
+import datasources from './dao';
+import MessageService from './MessageService';
+import NotificationInboxService from './NotificationInboxService';
+import VehicleDocumentService from './VehicleDocumentService';
+import RiderLicense, { IRiderLicenseModel } from '../models/RiderLicense';
+import { ILicenseExpiryReportModel } from '../models/LicenseExpiryReport';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import AppLogger from '../utils/AppLogger';
+import {
+  LICENSE_EXPIRY_REPORT_PAGE_SIZE,
+  LICENSE_EXPIRY_WARNING_DAYS,
+  NOTIFICATION_LICENSE_EXPIRED,
+  NOTIFICATION_LICENSE_EXPIRING,
+  PRICING_TIMEZONE,
+  RIDER_ACTIVE_DELIVERY_STATUSES,
+  RIDER_STATUS_OFFLINE,
+  RIDER_STATUS_ONLINE,
+  TEMPLATE_LICENSE_EXPIRY_WARNING
+} from '../config/constants';
+
+const logger = AppLogger.init('server').logger;
+const messageService = new MessageService();
+const notificationInboxService = new NotificationInboxService();
+const vehicleDocumentService = new VehicleDocumentService();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface ILicenseExpiryReportQuery {
+  before?: Date,
+  limit?: number
+}
+
+/**
+ * @name LicenseExpiryService
+ * @desc The daily license expiry job. Riders are warned LICENSE_EXPIRY_WARNING_DAYS
+ * @desc before their license expires, expired licenses are flagged and online
+ * @desc riders holding one are taken offline unless they are mid-delivery. Expired
+ * @desc vehicle documents are flagged in the same run. Only licenses around the
+ * @desc run date are read, and each run leaves a report.
+ */
+class LicenseExpiryService {
+
+  public async run(now: Date = new Date()): Promise<ILicenseExpiryReportModel | null> {
+    //stored before the work starts, a report without finishedAt is a run that did not complete
+    const report = await datasources.licenseExpiryReportDAOService.create({
+      startedAt: now,
+      finishedAt: null,
+      warned: [],
+      expired: [],
+      expiredVehicleDocuments: [],
+      offline: [],
+      deferred: [],
+      failures: []
+    } as unknown as ILicenseExpiryReportModel);
+
+    const failures: { rider: any, error: string }[] = [];
+
+    const warned = await this.warn(now, failures);
+    const expired = await this.expire(now);
+    const expiredVehicleDocuments = await vehicleDocumentService.expire(now);
+    const { offline, deferred } = await this.takeOffline(now, failures);
+
+    logger.info(
+      `License expiry job warned ${warned.length}, expired ${expired.length} licenses and ${expiredVehicleDocuments.length} vehicle documents, took ${offline.length} offline, deferred ${deferred.length}`
+    );
+
+    return datasources.licenseExpiryReportDAOService.updateByAny(
+      { _id: report._id },
+      { warned, expired, expiredVehicleDocuments, offline, deferred, failures, finishedAt: new Date() }
+    );
+  }
+
+  //newest first, pages are read by passing the startedAt of the last report as {@param query.before}
+  public async reports(query: ILicenseExpiryReportQuery): Promise<ILicenseExpiryReportModel[]> {
+    return datasources.licenseExpiryReportDAOService.findAll(
+      query.before ? { startedAt: { $lt: query.before } } : {},
+      { sort: { startedAt: -1 }, limit: query.limit || LICENSE_EXPIRY_REPORT_PAGE_SIZE }
+    );
+  }
+
+  public async report(reportId: string): Promise<ILicenseExpiryReportModel> {
+    const report = await datasources.licenseExpiryReportDAOService.findById(reportId);
+    if (!report)
+      throw CustomAPIError.response('Report not found', HttpStatus.NOT_FOUND.code);
+
+    return report;
+  }
+
+  /**
+   * @name warn
+   * @desc warns the riders whose license expires within the widest warning
+   * @desc window, a rider first seen inside a narrower window only gets that
+   * @desc warning and is not sent the wider ones afterwards
+   */
+  private async warn(now: Date, failures: { rider: any, error: string }[]) {
+    const horizon = new Date(now.getTime() + Math.max(...LICENSE_EXPIRY_WARNING_DAYS) * DAY);
+
+    const licenses = await datasources.riderLicenseDAOService.findAll(
+      { expiryDate: { $gt: now, $lte: horizon } },
+      { sort: { expiryDate: 1 } }
+    );
+
+    const warned: { rider: any, license: any, days: number }[] = [];
+
+    for (const license of licenses) {
+      const due = this.dueWarning(license, now);
+      if (!due) continue;
+
+      try {
+        await this.sendWarning(license, due);
+      } catch (error: any) {
+        failures.push({ rider: license.rider, error: error.message });
+        continue;
+      }
+
+      await datasources.riderLicenseDAOService.updateByAny(
+        { _id: license._id },
+        { $addToSet: { expiryWarnings: { $each: LICENSE_EXPIRY_WARNING_DAYS.filter(days => days >= due) } } }
+      );
+
+      warned.push({ rider: license.rider, license: license._id, days: due });
+    }
+
+    return warned;
+  }
+
+  //the narrowest window {@param license} is in, unless it was already warned at it
+  private dueWarning(license: IRiderLicenseModel, now: Date): number | null {
+    const left = new Date(license.expiryDate).getTime() - now.getTime();
+
+    const windows = LICENSE_EXPIRY_WARNING_DAYS.filter(days => left <= days * DAY);
+    if (!windows.length) return null;
+
+    const due = Math.min(...windows);
+
+    return (license.expiryWarnings || []).includes(due) ? null : due;
+  }
+
+  private async sendWarning(license: IRiderLicenseModel, days: number): Promise<void> {
+    const rider = await datasources.riderDAOService.findById(license.rider);
+    if (!rider) throw new Error('Rider not found');
+
+    const expiryDate = new Date(license.expiryDate)
+      .toLocaleDateString('en-GB', { dateStyle: 'medium', timeZone: PRICING_TIMEZONE });
+
+    await notificationInboxService.notify({ id: rider._id, type: 'rider' }, {
+      type: NOTIFICATION_LICENSE_EXPIRING,
+      title: 'Your license is expiring',
+      body: `Your driver's license expires on ${expiryDate}, upload your renewed license to keep receiving deliveries.`,
+      data: { licenseId: license._id, expiryDate: license.expiryDate, days },
+      dedupeKey: `license_expiring:${license._id}:${+new Date(license.expiryDate)}:${days}`
+    });
+
+    if (rider.email)
+      await messageService.email(rider.email, TEMPLATE_LICENSE_EXPIRY_WARNING, {
+        firstName: rider.firstName,
+        licenseNumber: license.licenseNumber,
+        expiryDate
+      });
+  }
+
+  //flags the licenses that expired since the last run
+  private async expire(now: Date) {
+    const licenses = await datasources.riderLicenseDAOService.findAll(
+      { expiryDate: { $lte: now }, isExpired: { $ne: true } }
+    );
+    if (!licenses.length) return [];
+
+    const ids = licenses.map(license => license._id);
+    await RiderLicense.updateMany({ _id: { $in: ids } }, { isExpired: true });
+
+    return ids;
+  }
+
+  /**
+   * @name takeOffline
+   * @desc takes the online riders holding an expired license offline, a rider
+   * @desc on a delivery is deferred to a later run so the package still arrives
+   */
+  private async takeOffline(now: Date, failures: { rider: any, error: string }[]) {
+    const online = await datasources.riderDAOService.findAll({ status: RIDER_STATUS_ONLINE });
+
+    const licenses = await datasources.riderLicenseDAOService.findAll({
+      rider: { $in: online.map(rider => rider._id) },
+      expiryDate: { $lte: now }
+    });
+
+    const offline: any[] = [];
+    const deferred: any[] = [];
+
+    for (const license of licenses) {
+      try {
+        const busy = await datasources.deliveryDAOService.findByAny({
+          rider: license.rider,
+          status: { $in: RIDER_ACTIVE_DELIVERY_STATUSES }
+        });
+        if (busy) {
+          deferred.push(license.rider);
+          continue;
+        }
+
+        const updated = await datasources.riderDAOService.updateByAny(
+          { _id: license.rider, status: RIDER_STATUS_ONLINE },
+          { status: RIDER_STATUS_OFFLINE }
+        );
+        //went offline by themselves since they were read
+        if (!updated) continue;
+
+        offline.push(license.rider);
+
+        await notificationInboxService.notify({ id: license.rider, type: 'rider' }, {
+          type: NOTIFICATION_LICENSE_EXPIRED,
+          title: 'Your license has expired',
+          body: 'You were taken offline because your driver\'s license has expired, upload your renewed license to go online again.',
+          data: { licenseId: license._id }
+        });
+      } catch (error: any) {
+        failures.push({ rider: license.rider, error: error.message });
+      }
+    }
+
+    return { offline, deferred };
+  }
+}
+
+export default LicenseExpiryService;
@@ -0,0 +1,133 @@
+import datasources from './dao';
+import DispatchSessionService from './DispatchSessionService';
+import Generic from '../utils/Generic';
+import { ACTIVE_DISPATCH_STATUSES, AVERAGE_SPEED, IDLE_MIN_DURATION, IDLE_RADIUS } from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+import { ILocationPingModel } from '../models/LocationPing';
+
+const dispatchSessionService = new DispatchSessionService();
+
+interface IIdlePeriod {
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  location: [number, number]
+}
+
+interface IRouteReplay {
+  type: 'Feature',
+  geometry: {
+    type: 'LineString',
+    coordinates: [number, number][]
+  },
+  properties: {
+    deliveryRefNumber: string,
+    rider: any,
+    startedAt: Date | null,
+    endedAt: Date | null,
+    pings: number,
+    distance: number, //in km
+    idlePeriods: IIdlePeriod[]
+  }
+}
+
+/**
+ * @name LocationHistoryService
+ * @desc Keeps every location a rider pushes as a LocationPing, tagged with the
+ * @desc delivery they were handling at the time, so the path of a finished
+ * @desc delivery can be replayed. Pings expire after the retention period in
+ * @desc settings.locationHistory.
+ */
+class LocationHistoryService {
+
+  public async record(riderId: any, longitude: number, latitude: number): Promise<ILocationPingModel> {
+    const session = await dispatchSessionService.getByRider(`${riderId}`);
+    const onJob = !!session && ACTIVE_DISPATCH_STATUSES.includes(session.status);
+
+    return datasources.locationPingDAOService.create({
+      rider: riderId,
+      delivery: onJob ? session.deliveryId : null,
+      deliveryRefNumber: onJob ? session.deliveryRefNumber : null,
+      location: {
+        type: 'Point',
+        coordinates: [longitude, latitude]
+      },
+      recordedAt: new Date()
+    } as ILocationPingModel);
+  }
+
+  /**
+   * @name replay
+   * @desc path of {@param delivery} as a GeoJSON LineString feature with
+   * @desc the distance driven and the periods the rider stood still
+   */
+  public async replay(delivery: IDeliveryModel): Promise<IRouteReplay> {
+    const pings = await datasources.locationPingDAOService.findAll(
+      { delivery: delivery._id },
+      { sort: { recordedAt: 1 } }
+    );
+
+    const coordinates = pings.map(ping => ping.location.coordinates);
+
+    let distance = 0;
+    for (let i = 1; i < coordinates.length; i++)
+      distance += this.distance(coordinates[i - 1], coordinates[i]);
+
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates
+      },
+      properties: {
+        deliveryRefNumber: delivery.deliveryRefNumber,
+        rider: delivery.rider,
+        startedAt: pings.length ? pings[0].recordedAt : null,
+        endedAt: pings.length ? pings[pings.length - 1].recordedAt : null,
+        pings: pings.length,
+        distance: +distance.toFixed(2),
+        idlePeriods: this.idlePeriods(pings)
+      }
+    };
+  }
+
+  /**
+   * @name idlePeriods
+   * @desc runs of pings that stay within IDLE_RADIUS of where the run
+   * @desc started and last at least IDLE_MIN_DURATION
+   */
+  private idlePeriods(pings: ILocationPingModel[]): IIdlePeriod[] {
+    const periods: IIdlePeriod[] = [];
+    let start = 0;
+
+    for (let i = 1; i <= pings.length; i++) {
+      const moved = i === pings.length
+        || this.distance(pings[start].location.coordinates, pings[i].location.coordinates) * 1000 > IDLE_RADIUS;
+
+      if (!moved) continue;
+
+      const from = pings[start].recordedAt;
+      const to = pings[i - 1].recordedAt;
+      const duration = new Date(to).getTime() - new Date(from).getTime();
+
+      if (duration >= IDLE_MIN_DURATION)
+        periods.push({
+          from,
+          to,
+          durationMinutes: Math.round(duration / 60000),
+          location: pings[start].location.coordinates
+        });
+
+      start = i;
+    }
+
+    return periods;
+  }
+
+  //in km, [longitude, latitude] points
+  private distance(from: [number, number], to: [number, number]): number {
+    return Generic.location_difference(from[1], from[0], to[1], to[0], AVERAGE_SPEED).distance;
+  }
+}
+
+export default LocationHistoryService;
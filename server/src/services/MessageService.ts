@@ -0,0 +1,126 @@
+import { Request } from 'express';
+import datasources from './dao';
+import RedisService from './RedisService';
+import SendMailService from './SendMailService';
+import MessageTemplateService from './MessageTemplateService';
+import { IMessageLogModel } from '../models/MessageLog';
+import AppLogger from '../utils/AppLogger';
+import settings from '../config/settings';
+import { CHANNEL_EMAIL, CHANNEL_SMS, MESSAGE_FAILED, MESSAGE_LOG_PAGE_SIZE, MESSAGE_SENT } from '../config/constants';
+
+const logger = AppLogger.init('server').logger;
+const messageTemplateService = new MessageTemplateService();
+
+interface IMessageContent {
+  subject?: string,
+  text: string,
+  html?: string,
+  redacted?: string
+}
+
+interface IMessageTemplateRef {
+  key: string,
+  version: number,
+  locale: string
+}
+
+interface IMessageLogQuery {
+  channel?: string,
+  to?: string,
+  templateKey?: string,
+  status?: string,
+  before?: Date,
+  limit?: number
+}
+
+/**
+ * @name MessageService
+ * @desc Sends the transactional emails and texts of the server from their
+ * @desc templates and keeps a log of every one of them, sent or failed. A
+ * @desc failed message is logged before the error is passed on to the caller.
+ * @desc Secrets such as codes are masked in the log.
+ */
+class MessageService {
+  private redisService = new RedisService();
+  private sendMailService = new SendMailService();
+
+  //the locale of {@param req} templates are written in, the default locale is used otherwise
+  public localeOf(req: Request): string | undefined {
+    return req.acceptsLanguages(settings.messaging.locales) || undefined;
+  }
+
+  public async email(to: string, key: string, variables: Record<string, any>, locale?: string): Promise<IMessageLogModel> {
+    const message = await messageTemplateService.render(key, variables, locale);
+
+    return this.send(CHANNEL_EMAIL, to, message, message);
+  }
+
+  public async sms(to: string, key: string, variables: Record<string, any>, locale?: string): Promise<IMessageLogModel> {
+    const message = await messageTemplateService.render(key, variables, locale);
+
+    return this.send(CHANNEL_SMS, to, message, message);
+  }
+
+  /**
+   * @name send
+   * @desc sends content that is already rendered, the notification channels
+   * @desc use it directly so their messages are logged too
+   */
+  public async send(
+    channel: string,
+    to: string,
+    content: IMessageContent,
+    template?: IMessageTemplateRef
+  ): Promise<IMessageLogModel> {
+    const entry = {
+      channel,
+      to,
+      templateKey: template?.key ?? null,
+      templateVersion: template?.version ?? null,
+      locale: template?.locale ?? null,
+      subject: content.subject ?? null,
+      body: content.redacted ?? content.text
+    };
+
+    try {
+      if (channel === CHANNEL_EMAIL)
+        await this.sendMailService.sendMail({
+          from: settings.nodemailer.email,
+          to,
+          subject: content.subject,
+          text: content.text,
+          html: content.html || undefined
+        });
+      else
+        await this.redisService.sendNotification(to, content.text);
+    } catch (error: any) {
+      logger.error(`Could not send ${template?.key ?? channel} to ${to}: ${error.message}`);
+
+      await datasources.messageLogDAOService.create({
+        ...entry,
+        status: MESSAGE_FAILED,
+        error: error.message
+      } as IMessageLogModel);
+
+      throw error;
+    }
+
+    return datasources.messageLogDAOService.create({
+      ...entry,
+      status: MESSAGE_SENT,
+      error: null
+    } as IMessageLogModel);
+  }
+
+  //newest first, pages are read by passing the createdAt of the last entry as {@param query.before}
+  public async log(query: IMessageLogQuery): Promise<IMessageLogModel[]> {
+    const { before, limit, ...filter } = query;
+
+    return datasources.messageLogDAOService.findAll(
+      before ? { ...filter, createdAt: { $lt: before } } : filter,
+      { sort: { createdAt: -1 }, limit: limit || MESSAGE_LOG_PAGE_SIZE }
+    );
+  }
+}
+
+export default MessageService;
@@ -0,0 +1,177 @@
+import datasources from './dao';
+import { IMessageTemplateModel } from '../models/MessageTemplate';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import settings from '../config/settings';
+import { MESSAGE_REDACTED, MESSAGE_SECRET_VARIABLES } from '../config/constants';
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+export interface IRenderedMessage {
+  key: string,
+  version: number,
+  locale: string,
+  subject: string,
+  text: string,
+  html: string,
+  redacted?: string
+}
+
+interface ITemplateDraft {
+  key: string,
+  locale: string,
+  subject: string,
+  text: string,
+  html: string,
+  variables: string[]
+}
+
+/**
+ * @name MessageTemplateService
+ * @desc The registry of the emails and texts the server sends. A template is
+ * @desc looked up by key and locale, falling back to the language of the locale
+ * @desc and then to settings.messaging.defaultLocale, and its {{variables}} are
+ * @desc filled in, escaped in the html body. Editing a template adds a version,
+ * @desc the latest one is sent and older ones stay for the message log.
+ */
+class MessageTemplateService {
+
+  /**
+   * @name render
+   * @desc the latest version of {@param key} with {@param variables} filled
+   * @desc in, every variable the template uses must be given. The redacted
+   * @desc text masks MESSAGE_SECRET_VARIABLES and is the one that is logged
+   */
+  public async render(key: string, variables: Record<string, any>, locale?: string): Promise<IRenderedMessage> {
+    const template = await this.resolve(key, locale);
+
+    const missing = this.missing(template, variables);
+    if (missing.length)
+      throw CustomAPIError.response(
+        `Template ${key} is missing ${missing.join(', ')}`,
+        HttpStatus.INTERNAL_SERVER_ERROR.code
+      );
+
+    const secrets = MESSAGE_SECRET_VARIABLES.reduce(
+      (masked, name) => name in variables ? { ...masked, [name]: MESSAGE_REDACTED } : masked,
+      {}
+    );
+
+    return { ...this.fill(template, variables), redacted: this.fill(template, { ...variables, ...secrets }).text };
+  }
+
+  /**
+   * @name preview
+   * @desc renders {@param version}, or the latest, the way it would be sent,
+   * @desc variables that are not given are left as they are and listed
+   */
+  public async preview(
+    key: string,
+    variables: Record<string, any>,
+    locale?: string,
+    version?: number
+  ): Promise<IRenderedMessage & { missing: string[] }> {
+    const template = await this.resolve(key, locale, version);
+
+    return { ...this.fill(template, variables), missing: this.missing(template, variables) };
+  }
+
+  public async versions(key: string, locale?: string): Promise<IMessageTemplateModel[]> {
+    const filter: any = { key };
+    if (locale) filter.locale = locale;
+
+    return datasources.messageTemplateDAOService.findAll(filter, { sort: { locale: 1, version: -1 } });
+  }
+
+  //the latest version of every template in every locale
+  public async latest(): Promise<IMessageTemplateModel[]> {
+    const templates = await datasources.messageTemplateDAOService.findAll({}, { sort: { key: 1, locale: 1, version: -1 } });
+
+    const seen = new Set<string>();
+    return templates.filter(template => {
+      const id = `${template.key}|${template.locale}`;
+      if (seen.has(id)) return false;
+
+      seen.add(id);
+      return true;
+    });
+  }
+
+  /**
+   * @name publish
+   * @desc adds {@param draft} as the next version of its key and locale, it
+   * @desc is sent from now on
+   */
+  public async publish(draft: ITemplateDraft, createdBy: any): Promise<IMessageTemplateModel> {
+    const [current] = await datasources.messageTemplateDAOService.findAll(
+      { key: draft.key, locale: draft.locale },
+      { sort: { version: -1 }, limit: 1 }
+    );
+
+    const undeclared = this.variablesOf(draft).filter(variable => !draft.variables.includes(variable));
+    if (undeclared.length)
+      throw CustomAPIError.response(
+        `Template uses undeclared variables ${undeclared.join(', ')}`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    return datasources.messageTemplateDAOService.create({
+      ...draft,
+      version: current ? current.version + 1 : 1,
+      createdBy: `${createdBy}`
+    } as IMessageTemplateModel);
+  }
+
+  private async resolve(key: string, locale?: string, version?: number): Promise<IMessageTemplateModel> {
+    const { defaultLocale } = settings.messaging;
+    const locales = [...new Set([locale, locale?.split('-')[0], defaultLocale].filter(Boolean))];
+
+    for (const candidate of locales) {
+      const filter: any = { key, locale: candidate };
+      if (version) filter.version = version;
+
+      const [template] = await datasources.messageTemplateDAOService.findAll(filter, { sort: { version: -1 }, limit: 1 });
+      if (template) return template;
+    }
+
+    throw CustomAPIError.response(`Template ${key} not found`, HttpStatus.NOT_FOUND.code);
+  }
+
+  private fill(template: IMessageTemplateModel, variables: Record<string, any>): IRenderedMessage {
+    const replace = (body: string, escape: boolean) => (body || '').replace(VARIABLE, (match, name) => {
+      if (variables[name] === undefined || variables[name] === null) return match;
+
+      return escape ? this.escape(`${variables[name]}`) : `${variables[name]}`;
+    });
+
+    return {
+      key: template.key,
+      version: template.version,
+      locale: template.locale,
+      subject: replace(template.subject, false),
+      text: replace(template.text, false),
+      html: replace(template.html, true)
+    };
+  }
+
+  private missing(template: IMessageTemplateModel, variables: Record<string, any>): string[] {
+    return this.variablesOf(template).filter(name => variables[name] === undefined || variables[name] === null);
+  }
+
+  private variablesOf(template: Pick<ITemplateDraft, 'subject' | 'text' | 'html'>): string[] {
+    const body = `${template.subject || ''} ${template.text || ''} ${template.html || ''}`;
+
+    return [...new Set([...body.matchAll(VARIABLE)].map(match => match[1]))];
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+export default MessageTemplateService;
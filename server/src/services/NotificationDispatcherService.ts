@@ -0,0 +1,152 @@
+import datasources from './dao';
+import SocketChannel from './channels/SocketChannel';
+import PushChannel from './channels/PushChannel';
+import SmsChannel from './channels/SmsChannel';
+import EmailChannel from './channels/EmailChannel';
+import FakeChannel from './channels/FakeChannel';
+import { IDeviceTokenModel } from '../models/DeviceToken';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import AppLogger from '../utils/AppLogger';
+import settings from '../config/settings';
+import {
+  CHANNEL_EMAIL,
+  CHANNEL_PUSH,
+  CHANNEL_SMS,
+  CHANNEL_SOCKET,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_DEFAULT_CHANNELS,
+  NOTIFICATION_DRIVER_FAKE,
+  NOTIFICATION_EVENT_CHANNELS
+} from '../config/constants';
+import { appCommonTypes } from '../@types/app-common';
+import NotificationChannel = appCommonTypes.NotificationChannel;
+import NotificationRecipient = appCommonTypes.NotificationRecipient;
+import NotificationMessage = appCommonTypes.NotificationMessage;
+
+const logger = AppLogger.init('server').logger;
+
+//one set of channels for the process, fakes when nothing may leave it
+const channels: Record<string, NotificationChannel> = settings.notification.driver === NOTIFICATION_DRIVER_FAKE
+  ? Object.fromEntries(NOTIFICATION_CHANNELS.map(name => [name, new FakeChannel(name)]))
+  : {
+    [CHANNEL_SOCKET]: new SocketChannel(),
+    [CHANNEL_PUSH]: new PushChannel(),
+    [CHANNEL_SMS]: new SmsChannel(),
+    [CHANNEL_EMAIL]: new EmailChannel()
+  };
+
+interface IDevice {
+  token: string,
+  platform: string,
+  provider: string
+}
+
+/**
+ * @name NotificationDispatcherService
+ * @desc Sends an event to a customer, rider or admin over the channels they
+ * @desc want it on, or the defaults in NOTIFICATION_EVENT_CHANNELS. The socket
+ * @desc reaches apps that are connected, the other channels reach the user
+ * @desc outside the app only when the socket did not and are tried in order
+ * @desc until one gets through, so a rider without a registered device still
+ * @desc gets a text.
+ */
+class NotificationDispatcherService {
+
+  /**
+   * @name dispatch
+   * @desc sends {@param message} for {@param event} to {@param recipient}
+   * @returns the channel that got through
+   */
+  public async dispatch(
+    recipient: Pick<NotificationRecipient, 'id' | 'type'>,
+    event: string,
+    message: NotificationMessage
+  ): Promise<string[]> {
+    const names = await this.channelsOf(recipient.id, event);
+    if (!names.length) return [];
+
+    const contact = await this.contact(recipient);
+
+    //a user the socket reached is not texted or pushed as well
+    if (names.includes(CHANNEL_SOCKET) && await this.attempt(CHANNEL_SOCKET, contact, message))
+      return [CHANNEL_SOCKET];
+
+    for (const name of names.filter(name => name !== CHANNEL_SOCKET))
+      if (await this.attempt(name, contact, message)) return [name];
+
+    logger.error(`No channel reached ${recipient.type} ${recipient.id} for ${event}`);
+
+    return [];
+  }
+
+  //the push token of an app signs in as {@param ownerId}
+  public async registerDevice(ownerId: any, device: IDevice): Promise<IDeviceTokenModel> {
+    return await datasources.deviceTokenDAOService.updateByAny(
+      { token: device.token },
+      { ...device, owner: `${ownerId}`, lastSeenAt: new Date() },
+      { upsert: true, new: true }
+    ) as IDeviceTokenModel;
+  }
+
+  //the app signed out, its token gets nothing more for {@param ownerId}
+  public async removeDevice(ownerId: any, token: string): Promise<void> {
+    await datasources.deviceTokenDAOService.deleteByAny({ owner: `${ownerId}`, token });
+  }
+
+  //the channels of every event for {@param ownerId}, with the defaults where they picked none
+  public async preferences(ownerId: any): Promise<Record<string, string[]>> {
+    const preferences = await datasources.notificationPreferenceDAOService.findAll({ owner: `${ownerId}` });
+
+    const chosen = Object.fromEntries(preferences.map(preference => [preference.event, preference.channels]));
+
+    return { ...NOTIFICATION_EVENT_CHANNELS, ...chosen };
+  }
+
+  /**
+   * @name setPreference
+   * @desc the channels {@param ownerId} wants {@param event} on, in fallback
+   * @desc order, none mutes the event
+   */
+  public async setPreference(ownerId: any, event: string, names: string[]): Promise<string[]> {
+    if (!NOTIFICATION_EVENT_CHANNELS[event])
+      throw CustomAPIError.response(`Unknown notification event ${event}`, HttpStatus.BAD_REQUEST.code);
+
+    const preference = await datasources.notificationPreferenceDAOService.updateByAny(
+      { owner: `${ownerId}`, event },
+      { channels: [...new Set(names)] },
+      { upsert: true, new: true }
+    );
+
+    return preference?.channels ?? [];
+  }
+
+  private async channelsOf(ownerId: any, event: string): Promise<string[]> {
+    const preference = await datasources.notificationPreferenceDAOService.findByAny({ owner: `${ownerId}`, event });
+    if (preference) return preference.channels;
+
+    return NOTIFICATION_EVENT_CHANNELS[event] ?? NOTIFICATION_DEFAULT_CHANNELS;
+  }
+
+  private async contact(recipient: Pick<NotificationRecipient, 'id' | 'type'>): Promise<NotificationRecipient> {
+    const owner = recipient.type === 'customer'
+      ? await datasources.customerDAOService.findById(recipient.id)
+      : recipient.type === 'rider'
+        ? await datasources.riderDAOService.findById(recipient.id)
+        : await datasources.userDAOService.findById(recipient.id);
+
+    return { ...recipient, phone: owner?.phone, email: owner?.email };
+  }
+
+  private async attempt(name: string, recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    try {
+      return await channels[name].send(recipient, message);
+    } catch (error: any) {
+      logger.error(`Notification channel ${name} failed for ${recipient.id}: ${error.message}`);
+
+      return false;
+    }
+  }
+}
+
+export default NotificationDispatcherService;
@@ -0,0 +1,150 @@
+import { Types } from 'mongoose';
+import datasources from './dao';
+import SocketGatewayService from './SocketGatewayService';
+import NotificationDispatcherService from './NotificationDispatcherService';
+import InboxNotification, { IInboxNotificationModel } from '../models/InboxNotification';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import { INBOX_PAGE_SIZE } from '../config/constants';
+import { appCommonTypes } from '../@types/app-common';
+import SocketUser = appCommonTypes.SocketUser;
+
+const socketGatewayService = new SocketGatewayService();
+const notificationDispatcherService = new NotificationDispatcherService();
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+interface IInboxRecipient {
+  id: any,
+  type: SocketUser['userType']
+}
+
+interface IInboxContent {
+  type: string,
+  title: string,
+  body: string,
+  data?: Record<string, any>,
+  dedupeKey?: string
+}
+
+interface IInboxQuery {
+  unread?: boolean,
+  before?: Date,
+  limit?: number
+}
+
+/**
+ * @name NotificationInboxService
+ * @desc The in-app inbox of customers, riders and admins. Every notification is
+ * @desc stored first and then sent through the notification dispatcher, so the ones
+ * @desc sent while the app was closed are still listed when it opens again.
+ */
+class NotificationInboxService {
+
+  /**
+   * @name notify
+   * @desc stores a notification for {@param recipient} and sends it with
+   * @desc their unread count over the channels they want its type on, a
+   * @desc notification already stored under the same dedupeKey is not sent again
+   */
+  public async notify(recipient: IInboxRecipient, content: IInboxContent): Promise<IInboxNotificationModel | null> {
+    const { dedupeKey, ...notification } = content;
+
+    let created: IInboxNotificationModel;
+    try {
+      created = await datasources.inboxNotificationDAOService.create({
+        ...notification,
+        data: notification.data || {},
+        recipient: `${recipient.id}`,
+        recipientType: recipient.type,
+        dedupeKey: dedupeKey || null
+      } as IInboxNotificationModel);
+    } catch (error: any) {
+      if (error.code === DUPLICATE_KEY_ERROR) return null;
+
+      throw error;
+    }
+
+    await notificationDispatcherService.dispatch(recipient, notification.type, {
+      title: notification.title,
+      body: notification.body,
+      data: { ...notification.data, notificationId: created._id },
+      socketEvent: 'inboxNotification',
+      socketPayload: { notification: created, unread: await this.unreadCount(recipient.id) }
+    });
+
+    return created;
+  }
+
+  //every admin user gets their own copy
+  public async notifyAdmins(content: IInboxContent): Promise<void> {
+    const admins = await datasources.userDAOService.findAll({});
+
+    for (const admin of admins)
+      await this.notify({ id: admin._id, type: 'user' }, content);
+  }
+
+  /**
+   * @name list
+   * @desc newest first, pages are read by passing the createdAt of the
+   * @desc last notification of the previous page as {@param query.before}
+   */
+  public async list(recipientId: any, query: IInboxQuery): Promise<IInboxNotificationModel[]> {
+    const filter: any = { recipient: `${recipientId}` };
+
+    if (query.unread) filter.read = false;
+    if (query.before) filter.createdAt = { $lt: query.before };
+
+    return datasources.inboxNotificationDAOService.findAll(filter, {
+      sort: { createdAt: -1 },
+      limit: query.limit || INBOX_PAGE_SIZE
+    });
+  }
+
+  public async unreadCount(recipientId: any): Promise<number> {
+    return InboxNotification.countDocuments({ recipient: `${recipientId}`, read: false });
+  }
+
+  public async markRead(recipientId: any, notificationId: string): Promise<IInboxNotificationModel> {
+    if (!Types.ObjectId.isValid(notificationId))
+      throw CustomAPIError.response('Notification not found', HttpStatus.NOT_FOUND.code);
+
+    const notification = await datasources.inboxNotificationDAOService.findByAny({
+      _id: notificationId,
+      recipient: `${recipientId}`
+    });
+    if (!notification)
+      throw CustomAPIError.response('Notification not found', HttpStatus.NOT_FOUND.code);
+
+    if (notification.read) return notification;
+
+    const updated = await datasources.inboxNotificationDAOService.updateByAny(
+      { _id: notification._id },
+      { read: true, readAt: new Date() }
+    );
+
+    await this.pushUnreadCount(recipientId);
+
+    return updated as IInboxNotificationModel;
+  }
+
+  public async markAllRead(recipientId: any): Promise<number> {
+    const { modifiedCount } = await InboxNotification.updateMany(
+      { recipient: `${recipientId}`, read: false },
+      { $set: { read: true, readAt: new Date() } }
+    );
+
+    await this.pushUnreadCount(recipientId);
+
+    return modifiedCount;
+  }
+
+  //keeps the badge of every open app of the recipient in sync
+  private async pushUnreadCount(recipientId: any): Promise<void> {
+    socketGatewayService.emitToUser(recipientId, 'inboxUnreadCount', {
+      unread: await this.unreadCount(recipientId)
+    });
+  }
+}
+
+export default NotificationInboxService;
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import settings from "../config/settings";
 import axiosClient from '../services/api/axiosClient';
 
@@ -26,7 +27,40 @@ class PaystackService {
       }
     }
 
-    async sendMoneyToAccount(accountNumber: any, bankCode: any, amountInKobo: any, narration: string) {
+    //the payment paystack holds for {@param reference}, its status, amount in kobo, currency and customer
+    async verifyTransaction(reference: string) {
+      const verifyUrl = `https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`;
+
+      const config = {
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+      };
+
+      try {
+        const response = await axiosClient.get(verifyUrl, config);
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(error.response.data.message);
+      }
+    }
+
+    /**
+     * @name verifySignature
+     * @desc paystack signs every webhook with an HMAC SHA512
+     * @desc of the raw request body keyed with the secret key
+     */
+    verifySignature(payload: Buffer | undefined, signature: string | undefined) {
+      if (!payload || !signature) return false;
+
+      const hash = crypto.createHmac('sha512', `${this.apiKey}`).update(payload).digest('hex');
+      if (hash.length !== signature.length) return false;
+
+      return crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
+    }
+
+    async sendMoneyToAccount(accountNumber: any, bankCode: any, amountInKobo: any, narration: string, reference?: string) {
         const transferUrl = 'https://api.paystack.co/transfer';
       
         const transferData = {
@@ -35,6 +69,7 @@ class PaystackService {
           recipient: accountNumber,
           bank_code: bankCode,
           reason: narration,
+          reference
         };
       
         const config = {
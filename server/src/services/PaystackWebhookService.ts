@@ -0,0 +1,186 @@
+import datasources from './dao';
+import WalletLedgerService from './WalletLedgerService';
+import NotificationInboxService from './NotificationInboxService';
+import AppLogger from '../utils/AppLogger';
+import {
+  NOTIFICATION_PAYOUT_FAILED,
+  NOTIFICATION_PAYOUT_PAID,
+  NOTIFICATION_WALLET_CREDITED,
+  PAYMENT_CURRENCY,
+  PAYMENT_DONE,
+  PAYMENT_FAILED,
+  PAYSTACK_CHARGE_SUCCESS,
+  PAYSTACK_TRANSFER_FAILED,
+  PAYSTACK_TRANSFER_REVERSED,
+  PAYSTACK_TRANSFER_SUCCESS
+} from '../config/constants';
+
+const logger = AppLogger.init('server').logger;
+const walletLedgerService = new WalletLedgerService();
+const notificationInboxService = new NotificationInboxService();
+
+interface IPaystackEvent {
+  event: string,
+  data: any
+}
+
+/**
+ * @name PaystackWebhookService
+ * @desc Applies the events paystack posts to the webhook. Paystack retries an
+ * @desc event until it is acknowledged, so every handler may see the same
+ * @desc reference more than once: money only moves through ledger journals
+ * @desc keyed by the reference, and records are updated in place.
+ */
+class PaystackWebhookService {
+
+  public async handle({ event, data }: IPaystackEvent): Promise<void> {
+    switch (event) {
+      case PAYSTACK_CHARGE_SUCCESS:
+        return this.chargeSuccess(data);
+      case PAYSTACK_TRANSFER_SUCCESS:
+        return this.transferSuccess(data);
+      case PAYSTACK_TRANSFER_FAILED:
+      case PAYSTACK_TRANSFER_REVERSED:
+        return this.transferFailed(data);
+      default:
+        logger.info(`Ignoring paystack event ${event}`);
+    }
+  }
+
+  /**
+   * @name chargeSuccess
+   * @desc credits the customer wallet for a completed payment, the payment
+   * @desc may land here before the app reports it, in which case the
+   * @desc transaction is created from the event. A stored transaction is only
+   * @desc credited when the event charged its amount in its currency
+   */
+  private async chargeSuccess(data: any): Promise<void> {
+    const reference = data.reference;
+    const transaction = await datasources.transactionDAOService.findByAny({ reference });
+
+    let customerId = transaction?.customer?._id;
+    let amount = transaction?.amount;
+
+    if (transaction && (transaction.amountCharged !== data.amount || data.currency !== (transaction.currency ?? PAYMENT_CURRENCY))) {
+      logger.error(`Paystack charge ${reference} of ${data.amount} ${data.currency} does not match its transaction`);
+      return;
+    }
+
+    if (!transaction) {
+      const customer = await datasources.customerDAOService.findByAny({ email: data.customer?.email });
+      if (!customer) {
+        logger.error(`No customer found for paystack charge ${reference}`);
+        return;
+      }
+
+      if (data.currency !== PAYMENT_CURRENCY) {
+        logger.error(`Paystack charge ${reference} is in ${data.currency}`);
+        return;
+      }
+
+      customerId = customer._id;
+      amount = data.amount / 100;
+    }
+
+    await walletLedgerService.fundCustomerWallet(customerId, amount as number, reference);
+
+    const authorization = data.authorization || {};
+    const $transaction = await datasources.transactionDAOService.updateByAny(
+      { reference },
+      {
+        $set: {
+          channel: authorization.channel,
+          cardType: authorization.card_type,
+          bank: authorization.bank,
+          last4: authorization.last4,
+          expMonth: authorization.exp_month,
+          expYear: authorization.exp_year,
+          countryCode: authorization.country_code,
+          brand: authorization.brand,
+          currency: data.currency,
+          status: data.status,
+          paidAt: data.paid_at
+        },
+        $setOnInsert: {
+          amount,
+          amountCharged: data.amount,
+          type: 'Payment',
+          customer: customerId
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    if ($transaction)
+      await datasources.walletDAOService.updateByAny(
+        { customer: customerId },
+        { $addToSet: { transactions: $transaction._id } }
+      );
+
+    await notificationInboxService.notify({ id: customerId, type: 'customer' }, {
+      type: NOTIFICATION_WALLET_CREDITED,
+      title: 'Wallet funded',
+      body: `N${amount} was added to your wallet`,
+      data: { reference, amount },
+      dedupeKey: `wallet_funded:${reference}`
+    });
+  }
+
+  //a payout that already failed was returned to the wallet and is not marked paid
+  private async transferSuccess(data: any): Promise<void> {
+    const paymentReq = await datasources.paymentRequestDAOService.updateByAny(
+      { transferReference: data.reference, status: { $nin: [PAYMENT_DONE, PAYMENT_FAILED] } },
+      { status: PAYMENT_DONE }
+    );
+
+    if (!paymentReq) {
+      logger.info(`No open payment request for paystack transfer ${data.reference}`);
+      return;
+    }
+
+    //@ts-ignore
+    await notificationInboxService.notify({ id: paymentReq.rider._id, type: 'rider' }, {
+      type: NOTIFICATION_PAYOUT_PAID,
+      title: 'Payout sent',
+      body: `Your payout of N${paymentReq.amountRequested} has been sent to your bank account`,
+      data: { refNumber: paymentReq.refNumber, amount: paymentReq.amountRequested },
+      dedupeKey: `payout_paid:${data.reference}`
+    });
+  }
+
+  /**
+   * @name transferFailed
+   * @desc a failed or reversed payout goes back to the rider wallet,
+   * @desc paystack may send both events for the same transfer
+   */
+  private async transferFailed(data: any): Promise<void> {
+    const paymentReq = await datasources.paymentRequestDAOService.findByAny({
+      transferReference: data.reference
+    });
+
+    if (!paymentReq) {
+      logger.error(`No payment request found for paystack transfer ${data.reference}`);
+      return;
+    }
+
+    //@ts-ignore
+    const riderId = paymentReq.rider._id;
+
+    await walletLedgerService.reverseRiderPayout(riderId, paymentReq.amountRequested, paymentReq.refNumber);
+
+    await datasources.paymentRequestDAOService.updateByAny(
+      { _id: paymentReq._id },
+      { status: PAYMENT_FAILED }
+    );
+
+    await notificationInboxService.notify({ id: riderId, type: 'rider' }, {
+      type: NOTIFICATION_PAYOUT_FAILED,
+      title: 'Payout failed',
+      body: `Your payout of N${paymentReq.amountRequested} failed and was returned to your wallet`,
+      data: { refNumber: paymentReq.refNumber, amount: paymentReq.amountRequested },
+      dedupeKey: `payout_failed:${data.reference}`
+    });
+  }
+}
+
+export default PaystackWebhookService;
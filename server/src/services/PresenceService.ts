@@ -0,0 +1,97 @@
+import dataStore from '../config/dataStore';
+import settings from '../config/settings';
+import { PRESENCE_NODE_PREFIX, PRESENCE_ONLINE_KEY, PRESENCE_SOCKETS_PREFIX } from '../config/constants';
+import { appCommonTypes } from '../@types/app-common';
+import SocketUser = appCommonTypes.SocketUser;
+
+//one connection for the whole process, dataStore opens a new one on every call
+const client = dataStore.init();
+
+interface IOnlineUser {
+  userId: string,
+  userType: SocketUser['userType']
+}
+
+/**
+ * @name PresenceService
+ * @desc Who is connected to the socket server, shared by every node in Redis.
+ * @desc A user is online while at least one of their sockets is connected to any
+ * @desc node. Each node keeps the list of its own sockets so a node that restarts
+ * @desc drops only the sockets it held before, not the ones other nodes hold.
+ */
+class PresenceService {
+
+  public async connect(user: Omit<SocketUser, 'permissions'>, socketId: string): Promise<void> {
+    const { nodeId } = settings.service;
+
+    await client
+      .multi()
+      .sadd(this.socketsKey(user.userId), `${nodeId}|${socketId}`)
+      .sadd(this.nodeKey(nodeId), `${user.userId}|${socketId}`)
+      .hset(PRESENCE_ONLINE_KEY, user.userId, user.userType)
+      .exec();
+  }
+
+  public async disconnect(userId: string, socketId: string): Promise<void> {
+    const { nodeId } = settings.service;
+
+    await client
+      .multi()
+      .srem(this.socketsKey(userId), `${nodeId}|${socketId}`)
+      .srem(this.nodeKey(nodeId), `${userId}|${socketId}`)
+      .exec();
+
+    await this.dropIfOffline(userId);
+  }
+
+  /**
+   * @name resetNode
+   * @desc forgets the sockets this node held before it restarted,
+   * @desc their clients reconnect and are registered again, only the
+   * @desc entries read here are removed so a socket that connects in the
+   * @desc meantime stays registered
+   */
+  public async resetNode(): Promise<void> {
+    const { nodeId } = settings.service;
+    const entries = await client.smembers(this.nodeKey(nodeId));
+    if (!entries.length) return;
+
+    for (const entry of entries) {
+      const [userId, socketId] = entry.split('|');
+
+      await client.srem(this.socketsKey(userId), `${nodeId}|${socketId}`);
+      await this.dropIfOffline(userId);
+    }
+
+    await client.srem(this.nodeKey(nodeId), ...entries);
+  }
+
+  public async isOnline(userId: any): Promise<boolean> {
+    return !!(await client.hexists(PRESENCE_ONLINE_KEY, `${userId}`));
+  }
+
+  public async onlineUsers(): Promise<IOnlineUser[]> {
+    const online = await client.hgetall(PRESENCE_ONLINE_KEY);
+
+    return Object.entries(online).map(([userId, userType]) => ({
+      userId,
+      userType: userType as SocketUser['userType']
+    }));
+  }
+
+  private async dropIfOffline(userId: string): Promise<void> {
+    const sockets = await client.scard(this.socketsKey(userId));
+
+    if (!sockets) await client.hdel(PRESENCE_ONLINE_KEY, userId);
+  }
+
+  private socketsKey(userId: string) {
+    return `${PRESENCE_SOCKETS_PREFIX}${userId}`;
+  }
+
+  private nodeKey(nodeId: string) {
+    return `${PRESENCE_NODE_PREFIX}${nodeId}`;
+  }
+}
+
+export default PresenceService;
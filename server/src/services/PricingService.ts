@@ -0,0 +1,222 @@
+import { sign, verify } from 'jsonwebtoken';
+import datasources from './dao';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import Generic from '../utils/Generic';
+import settings from '../config/settings';
+import { DELIVERY_QUOTE_AUDIENCE, DELIVERY_QUOTE_TTL, PRICING_TIMEZONE } from '../config/constants';
+import { IVehicleTypeModel } from '../models/VehicleType';
+import { IFareRuleModel } from '../models/FareRule';
+import { appModelTypes } from '../@types/app-model';
+import IDeliveryQuote = appModelTypes.IDeliveryQuote;
+import IFareBreakdown = appModelTypes.IFareBreakdown;
+import ITripDetails = appModelTypes.ITripDetails;
+import IQuoteResult = appModelTypes.IQuoteResult;
+
+interface IQuotePayload {
+  customerId: string,
+  trip: string,
+  quotes: IDeliveryQuote[]
+}
+
+/**
+ * @name PricingService
+ * @desc Prices a trip from the VehicleType record (speed and cost per km)
+ * @desc and the fare rule an admin set for that vehicle type. A vehicle
+ * @desc type without a fare rule is priced on distance alone.
+ * @desc Quotes handed to customers are signed with the quote key, never the
+ * @desc login key, so they can be honoured
+ * @desc by POST /delivery until DELIVERY_QUOTE_TTL runs out.
+ */
+class PricingService {
+
+  /**
+   * @name quote
+   * @desc itemised quote for {@param trip} on the vehicle type
+   * @desc named {@param vehicle}
+   */
+  public async quote(vehicle: string, trip: ITripDetails): Promise<IDeliveryQuote> {
+    const vehicleType = await datasources.vehicleTypeDAOService.findByAny({
+      vehicleType: vehicle,
+      active: { $ne: false }
+    });
+    if (!vehicleType)
+      throw CustomAPIError.response('Vehicle type not found', HttpStatus.NOT_FOUND.code);
+
+    const fareRule = await datasources.fareRuleDAOService.findByAny({ vehicleType: vehicleType._id });
+
+    return this.price(vehicleType, fareRule, trip);
+  }
+
+  /**
+   * @name quoteAll
+   * @desc itemised quotes for {@param trip} on every active vehicle type
+   */
+  public async quoteAll(trip: ITripDetails): Promise<IDeliveryQuote[]> {
+    const vehicleTypes = await datasources.vehicleTypeDAOService.findAll({ active: { $ne: false } });
+    const fareRules = await datasources.fareRuleDAOService.findAll({});
+
+    return vehicleTypes.map(vehicleType => {
+      const fareRule = fareRules.find(rule => `${rule.vehicleType}` === `${vehicleType._id}`);
+
+      return this.price(vehicleType, fareRule || null, trip);
+    });
+  }
+
+  /**
+   * @name issueQuote
+   * @desc quotes every active vehicle type and signs the result
+   * @desc for {@param customerId}, nothing is saved
+   */
+  public async issueQuote(customerId: string, trip: ITripDetails): Promise<IQuoteResult> {
+    const quotes = await this.quoteAll(trip);
+
+    const payload: IQuotePayload = {
+      customerId: `${customerId}`,
+      trip: this.tripFingerprint(trip),
+      quotes
+    };
+
+    const quoteId = sign(payload, settings.quote.key, {
+      audience: DELIVERY_QUOTE_AUDIENCE,
+      expiresIn: DELIVERY_QUOTE_TTL
+    });
+
+    return {
+      quoteId,
+      expiresAt: new Date(Date.now() + DELIVERY_QUOTE_TTL * 1000),
+      quotes
+    };
+  }
+
+  /**
+   * @name redeemQuote
+   * @desc the quote signed for {@param customerId} on the same trip
+   * @desc and {@param vehicle}, fails once the quote has expired
+   */
+  public redeemQuote(quoteId: string, customerId: string, vehicle: string, trip: ITripDetails): IDeliveryQuote {
+    let payload: IQuotePayload;
+
+    try {
+      payload = verify(quoteId, settings.quote.key, { audience: DELIVERY_QUOTE_AUDIENCE }) as IQuotePayload;
+    } catch (error) {
+      throw CustomAPIError.response('Quote is invalid or has expired, please request a new quote', HttpStatus.BAD_REQUEST.code);
+    }
+
+    if (payload.customerId !== `${customerId}` || payload.trip !== this.tripFingerprint(trip))
+      throw CustomAPIError.response('Quote does not match this delivery, please request a new quote', HttpStatus.BAD_REQUEST.code);
+
+    const quote = payload.quotes.find(quote => quote.vehicle === vehicle);
+    if (!quote)
+      throw CustomAPIError.response('Quote does not include the selected vehicle', HttpStatus.BAD_REQUEST.code);
+
+    return quote;
+  }
+
+  public price(vehicleType: IVehicleTypeModel, fareRule: IFareRuleModel | null, trip: ITripDetails): IDeliveryQuote {
+    const route = this.route(trip, vehicleType.speed);
+
+    const distanceInKm = +route.distance.toFixed(2);
+    const durationMinutes = route.minutes;
+    const chargeableWeight = Math.max((trip.packageWeight || 0) - (fareRule?.freeWeight || 0), 0);
+
+    const baseFare = fareRule?.baseFare || 0;
+    const distanceFare = distanceInKm * vehicleType.costPerKm;
+    const timeFare = durationMinutes * (fareRule?.costPerMinute || 0);
+    const weightSurcharge = chargeableWeight * (fareRule?.costPerKg || 0);
+
+    const subTotal = baseFare + distanceFare + timeFare + weightSurcharge;
+
+    const nightSurcharge = fareRule && this.isNight(fareRule, trip.pickupAt || new Date())
+      ? subTotal * fareRule.nightSurchargePercent / 100
+      : 0;
+
+    const minimumFareAdjustment = Math.max((fareRule?.minimumFare || 0) - (subTotal + nightSurcharge), 0);
+
+    const breakdown: IFareBreakdown = {
+      baseFare: this.round(baseFare),
+      distanceFare: this.round(distanceFare),
+      timeFare: this.round(timeFare),
+      weightSurcharge: this.round(weightSurcharge),
+      nightSurcharge: this.round(nightSurcharge),
+      minimumFareAdjustment: this.round(minimumFareAdjustment),
+      total: Math.ceil(subTotal + nightSurcharge + minimumFareAdjustment)
+    };
+
+    return {
+      vehicle: vehicleType.vehicleType,
+      distance: distanceInKm,
+      durationMinutes,
+      estimatedDeliveryTime: `${Math.floor(durationMinutes / 60)}:${String(durationMinutes % 60).padStart(2, '0')}`,
+      breakdown,
+      deliveryFee: breakdown.total
+    };
+  }
+
+  /**
+   * @name route
+   * @desc distance and riding time from the sender through every
+   * @desc waypoint to the recipient, leg by leg
+   */
+  private route(trip: ITripDetails, speed: number) {
+    const points = [
+      { lat: trip.senderLat, lon: trip.senderLon },
+      ...(trip.waypoints || []),
+      { lat: trip.recipientLat, lon: trip.recipientLon }
+    ];
+
+    let distance = 0;
+    let minutes = 0;
+
+    for (let i = 1; i < points.length; i++) {
+      const leg = Generic.location_difference(
+        points[i - 1].lat,
+        points[i - 1].lon,
+        points[i].lat,
+        points[i].lon,
+        speed //estimated speed of the rider
+      );
+
+      distance += leg.distance;
+      minutes += leg.hours * 60 + leg.minutes;
+    }
+
+    return { distance, minutes };
+  }
+
+  private isNight(fareRule: IFareRuleModel, at: Date): boolean {
+    const hour = +new Intl.DateTimeFormat('en-GB', {
+      hour: 'numeric',
+      hourCycle: 'h23',
+      timeZone: PRICING_TIMEZONE
+    }).format(at);
+
+    const { nightStartHour, nightEndHour } = fareRule;
+
+    if (nightStartHour === nightEndHour) return false;
+
+    //the night window usually wraps past midnight, e.g 22 to 6
+    return nightStartHour > nightEndHour
+      ? hour >= nightStartHour || hour < nightEndHour
+      : hour >= nightStartHour && hour < nightEndHour;
+  }
+
+  //coordinates are compared to ~1m so re-sent GPS values still match, the pickup time sets the night surcharge
+  private tripFingerprint(trip: ITripDetails): string {
+    return [
+      trip.senderLat,
+      trip.senderLon,
+      trip.recipientLat,
+      trip.recipientLon,
+      ...(trip.waypoints || []).flatMap(waypoint => [waypoint.lat, waypoint.lon])
+    ].map(coordinate => (+coordinate).toFixed(5))
+      .concat(`${trip.packageWeight || 0}`, trip.pickupAt ? new Date(trip.pickupAt).toISOString() : 'now')
+      .join(':');
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default PricingService;
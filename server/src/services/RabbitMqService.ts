@@ -2,47 +2,109 @@ import amqp, { Connection, Channel } from 'amqplib';
 import { Server, Socket } from 'socket.io';
 import settings from '../config/settings';
 import {
-  ADMIN_CHARGES,
+  ACTOR_RIDER,
   DELIVERED,
+  DISPATCH_ACCEPTED,
+  DISPATCH_ARRIVED,
+  DISPATCH_MATCHED,
+  DISPATCH_ON_TRANSIT,
+  DISPATCH_REQUESTED,
   DRIVER_RESPONSES,
+  DRIVER_RESPONSES_QUEUE,
   EXPIRATION_AMQP_MESSAGE,
+  NOTIFICATION_DELIVERY_DELIVERED,
+  NOTIFICATION_DELIVERY_OFFER,
+  NOTIFICATION_DELIVERY_STARTED,
+  NOTIFICATION_RIDER_ACCEPTED,
+  NOTIFICATION_RIDER_ARRIVED,
+  NOTIFICATION_RIDER_RELEASED,
   ON_TRANSIT,
   PACKAGE_REQUEST,
-  PACKAGE_REQUEST_INFO,
+  PACKAGE_REQUEST_QUEUE,
+  PRICING_TIMEZONE,
+  PAID,
   RIDER_READY_TO_COLLECT_PACKAGE,
-  RIDER_REQUESTED
+  RIDER_REQUESTED,
+  TEMPLATE_DELIVERY_RECEIPT
 } from '../config/constants';
-import RedisService from './RedisService';
+import DispatchSessionService from './DispatchSessionService';
+import DispatchEngineService from './DispatchEngineService';
+import DeliveryStatusService from './DeliveryStatusService';
+import DeliveryProofService from './DeliveryProofService';
+import DeliveryStopService from './DeliveryStopService';
+import DeliveryTrackingService from './DeliveryTrackingService';
+import SocketGatewayService from './SocketGatewayService';
+import PresenceService from './PresenceService';
+import ChatService from './ChatService';
+import NotificationInboxService from './NotificationInboxService';
+import NotificationDispatcherService from './NotificationDispatcherService';
+import DeliverySettlementService from './DeliverySettlementService';
+import MessageService from './MessageService';
+import Generic from '../utils/Generic';
 import { corsOptions } from '../app';
 import AppLogger from '../utils/AppLogger';
 import CustomAPIError from '../exceptions/CustomAPIError';
 import HttpStatus from '../helpers/HttpStatus';
 import datasources from  '../services/dao';
+import authenticateSocket from '../middleware/authenticateSocket';
+import { appCommonTypes } from '../@types/app-common';
+import { appModelTypes } from '../@types/app-model';
+import SocketUser = appCommonTypes.SocketUser;
+import IDispatchSession = appModelTypes.IDispatchSession;
 
 const logger = AppLogger.init('server').logger;
-const redisService = new RedisService();
+const dispatchSessionService = new DispatchSessionService();
+const deliveryStatusService = new DeliveryStatusService();
+const deliveryProofService = new DeliveryProofService();
+const deliveryStopService = new DeliveryStopService();
+const deliveryTrackingService = new DeliveryTrackingService();
+const socketGatewayService = new SocketGatewayService();
+const presenceService = new PresenceService();
+const chatService = new ChatService();
+const notificationInboxService = new NotificationInboxService();
+const notificationDispatcherService = new NotificationDispatcherService();
+const deliverySettlementService = new DeliverySettlementService();
+const messageService = new MessageService();
 
 class RabbitMqService {
+  private static publisher: Promise<RabbitMqService> | null = null;
   private connection: Connection | null;
   private channel: Channel | null;
   private io: Server<any, any, any, any> | null;
   private pendingRequests: any[];
-  private socketMap: Map<any, Socket>;
-  private onlineUsers: any[];
+  private dispatchEngine: DispatchEngineService;
 
   constructor() {
     this.connection = null;
     this.channel = null;
     this.io = null;
     this.pendingRequests = [];
-    this.socketMap = new Map<any, Socket>();
-    this.onlineUsers = [];
+    this.dispatchEngine = new DispatchEngineService(this);
+  }
+
+  //one connected instance for the jobs that publish outside a request
+  static shared(): Promise<RabbitMqService> {
+    if (!RabbitMqService.publisher) {
+      const publisher = new RabbitMqService();
+
+      RabbitMqService.publisher = publisher.connectToRabbitMQ()
+        .then(() => publisher)
+        .catch(error => {
+          RabbitMqService.publisher = null;
+          throw error;
+        });
+    }
+
+    return RabbitMqService.publisher;
+  }
+
+  async expireOffer(deliveryRefNumber: string, riderId: string): Promise<void> {
+    await this.dispatchEngine.expireOffer(deliveryRefNumber, riderId);
   }
 
   async connectToRabbitMQ(): Promise<void> {
     this.connection = await amqp.connect(settings.rabbitMq.connection);
     this.channel = await this.connection.createChannel();
-    await this.consumePrivateMessagesFromRabbitMQ();
   }
 
   async disconnectFromRabbitMQ(): Promise<void> {
@@ -56,46 +118,35 @@ class RabbitMqService {
     }
   }
 
-  async consumePrivateMessagesFromRabbitMQ(): Promise<void> {
-    if (this.channel) {
-      this.channel.assertQueue('privateMessages');
-      this.channel.consume('privateMessages', (msg) => {
-        if (msg) {
-          const { senderId, receiverId, message } = JSON.parse(msg.content.toString());
-          const receiverSocket = this.socketMap.get(receiverId);
-
-          if (receiverSocket) {
-            receiverSocket.emit('privateMessage', { senderId, message });
-          }
-          this.channel!.ack(msg);
-        }
-      }, { noAck: false });
-    } else {
-      throw new CustomAPIError('RabbitMQ channel is not available', HttpStatus.INTERNAL_SERVER_ERROR.code);
-    }
-  }
-
-  async getAvailableDriver() {
-    const keys = PACKAGE_REQUEST_INFO
-    const rider = await redisService.getToken(keys);
-    
-    return rider;
+  async getAvailableDriver(packageRequest: any) {
+    return dispatchSessionService.get(packageRequest?.deliveryRefNumber);
   }
 
-  async sendNotificationToDriver(riderId: any, notification: any) {
+  //riders whose app is in the background or closed get the offer as a push, or a text without a device
+  async sendNotificationToDriver(riderId: any, notification: any, event: string = NOTIFICATION_DELIVERY_OFFER) {
+    const { title, body, ...data } = notification;
 
-    const driverSocket = this.socketMap.get(riderId);
+    await notificationDispatcherService.dispatch({ id: riderId, type: 'rider' }, event, {
+      title,
+      body,
+      data,
+      socketEvent: 'notification',
+      socketPayload: notification
+    });
+  }
 
-    if (driverSocket) {
-      driverSocket.emit('notification', notification);
-    }
+  notifyCustomer(customerId: any, event: string, payload: any): void {
+    socketGatewayService.emitToUser(customerId, event, payload);
   }
 
   // Function to assign the package request to a driver
   async assignPackageToDriver(packageRequest: any) {
-    const driver = await this.getAvailableDriver();
+    const session = await this.getAvailableDriver(packageRequest);
+
+    if (session && session.status === DISPATCH_REQUESTED) {
+      // Open the accept window, the next ranked rider gets the offer once it closes
+      const driver = await this.dispatchEngine.watchOffer(session);
 
-    if (driver) {
       // Assign the package request to the driver
       const {
         riderId,
@@ -104,7 +155,9 @@ class RabbitMqService {
         senderAddress,
         recipientAddress,
         customerId,
-        senderPhoto
+        senderPhoto,
+        deliveryRefNumber,
+        offerExpiresAt
       }: any = driver;
 
       const assignedPackage = {
@@ -120,11 +173,13 @@ class RabbitMqService {
         recipientAddress: recipientAddress,
         customerId: customerId,
         senderPhoto: senderPhoto,
-        customerName: senderName
+        customerName: senderName,
+        deliveryRefNumber: deliveryRefNumber,
+        offerExpiresAt: offerExpiresAt
       };
 
       // const driverId = riderId;
-      this.sendNotificationToDriver(riderId, notification);
+      await this.sendNotificationToDriver(riderId, notification);
 
       const exchange = 'assigned_package_requests';
       const message = JSON.stringify(assignedPackage);
@@ -138,7 +193,7 @@ class RabbitMqService {
     }
   }
 
-  async submitPackageRequest(packageRequest: any, socket: Socket<any, any, any, any>): Promise<void> {
+  async submitPackageRequest(packageRequest: any, socket?: Socket<any, any, any, any>): Promise<void> {
     const exchange = PACKAGE_REQUEST
     const message = JSON.stringify(packageRequest);
     const expiration = EXPIRATION_AMQP_MESSAGE; // Expiration in milliseconds
@@ -146,9 +201,6 @@ class RabbitMqService {
     await this.channel!.assertExchange(exchange, 'fanout', { durable: false });
     this.channel!.publish(exchange, '', Buffer.from(message), { expiration });
 
-    // Assign the package request to a driver
-    this.assignPackageToDriver(packageRequest);
-
     // Add the request to the pendingRequests array
     this.pendingRequests.push(packageRequest);
     console.log('Package request submitted.');
@@ -158,7 +210,8 @@ class RabbitMqService {
     const exchange = PACKAGE_REQUEST
 
     await this.channel!.assertExchange(exchange, 'fanout', { durable: false });
-    const queue = await this.channel!.assertQueue('', { exclusive: true });
+    //one queue shared by every node, each request is assigned by a single node
+    const queue = await this.channel!.assertQueue(PACKAGE_REQUEST_QUEUE, { durable: false });
     await this.channel!.bindQueue(queue.queue, exchange, '');
 
     console.log('Waiting for package requests...');
@@ -169,7 +222,8 @@ class RabbitMqService {
         console.log('Received package request:', packageRequest);
 
         // Send notification to drivers or trucks
-        this.assignPackageToDriver(packageRequest);
+        this.assignPackageToDriver(packageRequest)
+          .catch(error => logger.error(error.message));
       }
     }, { noAck: true });
   }
@@ -178,7 +232,8 @@ class RabbitMqService {
     const exchange = DRIVER_RESPONSES;
 
     await this.channel!.assertExchange(exchange, 'fanout', { durable: false });
-    const queue = await this.channel!.assertQueue('', { exclusive: true });
+    //one queue shared by every node, each response is handled by a single node
+    const queue = await this.channel!.assertQueue(DRIVER_RESPONSES_QUEUE, { durable: false });
     await this.channel!.bindQueue(queue.queue, exchange, '');
 
     console.log('Waiting for driver responses...');
@@ -191,7 +246,8 @@ class RabbitMqService {
         // if (this.pendingRequests.length > 0) {
 
         // Handle the driver response (e.g., notify the user about the assigned driver)
-          this.notifyUserAboutDriverResponse(driverResponse);
+          this.notifyUserAboutDriverResponse(driverResponse)
+            .catch(error => logger.error(error.message));
 
         //   // Remove the corresponding request from the pendingRequests array
         //   const matchedRequestIndex = this.pendingRequests.findIndex((request) => {
@@ -227,41 +283,71 @@ class RabbitMqService {
       riderId: driverResponse.riderId,
       arrivalTime: driverResponse.arrivalTime,
       riderPhoto: driverResponse.riderPhoto,
-      riderName: driverResponse.riderName
+      riderName: driverResponse.riderName,
+      deliveryRefNumber: driverResponse.deliveryRefNumber
     }
 
-    const customerId = driverResponse.customerId;
-    console.log(customerId, 'customer id')
-    const customerSocket = this.socketMap.get(customerId);
-    console.log(customerSocket?.id, 'cus socket id')
-    const redisData = await redisService.getToken(PACKAGE_REQUEST_INFO);
-    const { riderId, deliveryId }: any = redisData;
-    if (customerSocket) {
-      if(driverResponse.availability) {
-        customerSocket.emit('riderResponse', notification);
-        this.riderAvailability(driverResponse.availability);
-        await datasources.deliveryDAOService.updateByAny(
-          { _id: deliveryId },
-          { rider: riderId, status: RIDER_REQUESTED }
-        )
-
-      } else {
-        this.riderAvailability(driverResponse.availability);
-        customerSocket.emit('riderDeclined', {
-          body: 'Rider declined your request',
-          riderName: driverResponse.riderName,
-          riderPhoto: driverResponse.riderPhoto,
-        });
-        await redisService.deleteRedisKey(PACKAGE_REQUEST_INFO)
+    const session = await dispatchSessionService.get(driverResponse.deliveryRefNumber);
+    if (!session || !this.dispatchEngine.isOfferOpen(session)) {
+      logger.info(`No open offer for delivery ${driverResponse.deliveryRefNumber}`);
+      return;
+    }
+
+    // The offer may have moved on to another rider while this response was in flight
+    if (driverResponse.riderId && `${driverResponse.riderId}` !== `${session.riderId}`) {
+      logger.info(`Rider ${driverResponse.riderId} no longer holds the offer for delivery ${session.deliveryRefNumber}`);
+      return;
+    }
+
+    const { riderId, deliveryId } = session;
+
+    await this.riderAvailability(session, driverResponse.availability);
+
+    if(driverResponse.availability) {
+      //a rider holds one delivery at a time, from acceptance until it ends or they release it
+      const rider = await datasources.riderDAOService.updateByAny(
+        { _id: riderId, busy: { $ne: true } },
+        { busy: true }
+      );
+      if (!rider) {
+        logger.info(`Rider ${riderId} is busy on another delivery, passing on ${session.deliveryRefNumber}`);
+        await this.dispatchEngine.advance(session.deliveryRefNumber, `${riderId}`);
+        return;
       }
+
+      await this.dispatchEngine.clearOffer(session.deliveryRefNumber);
+
+      try {
+        await deliveryStatusService.transition(
+          deliveryId,
+          { to: RIDER_REQUESTED, actor: riderId, actorType: ACTOR_RIDER },
+          { rider: riderId }
+        );
+      } catch (error) {
+        await this.freeRider(riderId);
+        throw error;
+      }
+      await dispatchSessionService.transition(session.deliveryRefNumber, [DISPATCH_REQUESTED], DISPATCH_ACCEPTED);
+
+      //customer and rider talk in the chat of the delivery from now on
+      const chat = await chatService.openDeliveryChat(session);
+
+      this.notifyCustomer(session.customerId, 'riderResponse', { ...notification, chatId: chat._id });
+
+      await notificationInboxService.notify({ id: session.customerId, type: 'customer' }, {
+        type: NOTIFICATION_RIDER_ACCEPTED,
+        title: 'Rider found',
+        body: `${session.riderFirstName} accepted your delivery ${session.deliveryRefNumber}. ${session.arrivalTime}`,
+        data: { deliveryId, deliveryRefNumber: session.deliveryRefNumber, chatId: chat._id }
+      });
+    } else {
+      await this.dispatchEngine.advance(session.deliveryRefNumber, `${riderId}`);
     }
   }
 
   //Rider is available to accept delivery
-  async riderAvailability(availabilityStatus: boolean): Promise<void> {
-    const keys = PACKAGE_REQUEST_INFO
-    const redisData = await redisService.getToken(keys);
-    const {deliveryId, riderId, customerId, deliveryRefNumber }: any = redisData;
+  async riderAvailability(session: any, availabilityStatus: boolean): Promise<void> {
+    const {deliveryId, riderId, customerId, deliveryRefNumber } = session;
 
     await datasources.notificationDAOService.create({
       deliveryRefNumber: deliveryRefNumber,
@@ -273,219 +359,364 @@ class RabbitMqService {
 
   };
 
-  async sendMessageToUser(
-    senderId: any, receiverId: any, 
-    message: string, chatId: string
-    ) {
-      if (receiverId) {
-        
-        // const targetSocketRooms = this.io?.sockets.adapter.rooms.get(receiverId);
-        const targetSocketRooms = this.socketMap.get(receiverId);
-        if (targetSocketRooms) {
-          // this.io?.to(receiverId).emit('receivePrivateMessage', { senderId, message });
-          targetSocketRooms.emit('receivePrivateMessage', { senderId, chatId, message, createdAt: new Date(), updatedAt: new Date() });
-        } else {
-          await this.sendMessageToRabbitMQ('privateMessages', JSON.stringify({ senderId, chatId, message, createdAt: new Date(), updatedAt: new Date() }));
-        }
-      } else {
-        console.log('Invalid target user ID provided.');
-      }
-
-    }
-  
-    async sendMessageToRabbitMQ(queue: string, message: string): Promise<void> {
-      try {
-        if (this.channel) {
-          this.channel.sendToQueue(queue, Buffer.from(message));
-        } else {
-          throw new CustomAPIError('RabbitMQ channel is not available', HttpStatus.INTERNAL_SERVER_ERROR.code);
-        }
-      } catch (error) {
-        throw new CustomAPIError('Error while sending message to RabbitMQ', HttpStatus.INTERNAL_SERVER_ERROR.code);
-      }
-    }
-
   //Sends a notification to customer notifying package delivery
   async startDeliveryNotification(data: any): Promise<void> {
-    const customerSocket = this.socketMap.get(data.customerId);
-    if(customerSocket){
-      console.log('delivery started')
-      const keys = PACKAGE_REQUEST_INFO
-      const redisData = await redisService.getToken(keys);
+    const session = await dispatchSessionService.resolve(data);
+    if(!session)
+      throw new CustomAPIError('No active dispatch session for this delivery', HttpStatus.NOT_FOUND.code);
 
-      const {estimatedDeliveryTime, deliveryId, riderId, deliveryRefNumber, riderPhoto}: any = redisData;
+    const {estimatedDeliveryTime, deliveryId, riderId, deliveryRefNumber, riderPhoto, customerId} = session;
 
-      const deliveryData = {
-        ...data,
-        deliveryRefNumber,
-        estimatedDeliveryTime: estimatedDeliveryTime,
-        riderPhoto
-      }
-      customerSocket.emit('startDeliveryNotification', deliveryData);
-      await datasources.deliveryDAOService.updateByAny(
-        {_id: deliveryId},
-        {status: ON_TRANSIT}
-      )
-      await datasources.riderDAOService.updateByAny(
-        { _id: riderId },
-        { busy: true }
-      )
+    const delivery = await deliveryStatusService.transition(deliveryId, {
+      to: ON_TRANSIT,
+      actor: riderId,
+      actorType: ACTOR_RIDER,
+      location: this.eventLocation(data)
+    });
+    await dispatchSessionService.transition(deliveryRefNumber, [DISPATCH_ACCEPTED, DISPATCH_ARRIVED], DISPATCH_ON_TRANSIT);
+
+    await chatService.system(deliveryId, 'Package picked up, the rider is on the way');
+
+    //the first recipient of a multi-stop delivery is told the rider is on the way
+    if (deliveryStopService.isMultiStop(delivery))
+      await deliveryStopService.notifyRecipients(deliveryRefNumber, null, deliveryStopService.pendingStops(delivery)[0]);
+
+    console.log('delivery started')
+    const deliveryData = {
+      ...data,
+      deliveryRefNumber,
+      estimatedDeliveryTime: estimatedDeliveryTime,
+      riderPhoto
     }
+    this.notifyCustomer(customerId, 'startDeliveryNotification', deliveryData);
+
+    await notificationInboxService.notify({ id: customerId, type: 'customer' }, {
+      type: NOTIFICATION_DELIVERY_STARTED,
+      title: 'Package picked up',
+      body: `Your package ${deliveryRefNumber} is on the way.`,
+      data: { deliveryId, deliveryRefNumber }
+    });
   }
 
   //Sends a notification to customer notifying package delivered
   async endDeliveryNotification(data: any): Promise<void> {
-    const customerSocket = this.socketMap.get(data.customerId);
-    if(customerSocket){
-      console.log('delivery ended')
-      const keys = PACKAGE_REQUEST_INFO
-      const redisData = await redisService.getToken(keys);
+    const session = await dispatchSessionService.resolve(data);
+    if(!session)
+      throw new CustomAPIError('No active dispatch session for this delivery', HttpStatus.NOT_FOUND.code);
 
-      const {estimatedDeliveryTime, deliveryId, riderId, deliveryRefNumber, riderPhoto}: any = redisData;
+    const {estimatedDeliveryTime, deliveryId, riderId, deliveryRefNumber, riderPhoto, customerId} = session;
 
-      const deliveryData = {
-        ...data,
-        deliveryRefNumber,
-        estimatedDeliveryTime: estimatedDeliveryTime,
-        riderPhoto
-      }
-      customerSocket.emit('endDeliveryNotification', deliveryData);
-      const delivery = await datasources.deliveryDAOService.updateByAny(
-        {_id: deliveryId},
-        {status: DELIVERED}
-      )
-      await datasources.riderDAOService.updateByAny(
-        { _id: riderId },
-        { busy: false }
-      )
-      
-      const riderWallet = await datasources.riderWalletDAOService.findByAny({ rider: riderId });
-      const adminFee = delivery && ADMIN_CHARGES/100 * delivery.deliveryFee;
-      const riderFee = delivery && delivery.deliveryFee - Math.round(adminFee as number) as number;
-
-      if(riderWallet) {
-        await datasources.riderWalletDAOService.update(
-          { _id: riderWallet._id },
-          { balance: riderFee && riderFee + riderWallet.balance }
-        )
-      } else {
-        const walletValues = {
-          rider: riderId,
-          balance: riderFee
-        }
-        await datasources.riderWalletDAOService.create(walletValues as any)
-      }
+    if(session.status !== DISPATCH_ON_TRANSIT)
+      throw new CustomAPIError('Delivery has not been started', HttpStatus.BAD_REQUEST.code);
 
-      //saves the admin charges for the delivery
-      await datasources.adminFeeDAOService.create({
-        deliveryRefNumber: deliveryRefNumber,
-        rider: riderId,
-        adminFee: adminFee
-      } as any)
+    const current = await datasources.deliveryDAOService.findById(deliveryId);
+
+    if (current && deliveryStopService.isMultiStop(current)) {
+      //every stop was confirmed with the code of its own recipient
+      if (deliveryStopService.pendingStops(current).length)
+        throw new CustomAPIError('Every stop must be delivered before the delivery ends', HttpStatus.BAD_REQUEST.code);
+    } else {
+      //the rider enters the code the recipient received when the delivery was created
+      await deliveryProofService.verifyOtp(deliveryRefNumber, data.otp);
+    }
 
-      await redisService.deleteRedisKey(keys)
+    const delivery = await deliveryStatusService.transition(
+      deliveryId,
+      {
+        to: DELIVERED,
+        actor: riderId,
+        actorType: ACTOR_RIDER,
+        location: this.eventLocation(data)
+      },
+      //settled below, or by the recovery job when paying out fails
+      { 'proofOfDelivery.otpVerifiedAt': new Date(), pendingSettlement: true }
+    );
+    await deliveryProofService.clearOtp(deliveryRefNumber);
+
+    console.log('delivery ended')
+    const deliveryData = {
+      ...data,
+      deliveryRefNumber,
+      estimatedDeliveryTime: estimatedDeliveryTime,
+      riderPhoto
     }
+    this.notifyCustomer(customerId, 'endDeliveryNotification', deliveryData);
+
+    await notificationInboxService.notify({ id: customerId, type: 'customer' }, {
+      type: NOTIFICATION_DELIVERY_DELIVERED,
+      title: 'Package delivered',
+      body: `Your package ${deliveryRefNumber} has been delivered.`,
+      data: { deliveryId, deliveryRefNumber }
+    });
+
+    await this.freeRider(riderId);
+
+    await deliverySettlementService.settle(delivery).catch(error =>
+      logger.error(`Settlement of delivery ${deliveryRefNumber} failed, it will be retried: ${error.message}`)
+    );
+
+    await dispatchSessionService.close(deliveryRefNumber);
+
+    deliveryTrackingService.stop(deliveryRefNumber);
+
+    await chatService.system(deliveryId, 'Package delivered');
+    await chatService.closeDeliveryChat(deliveryId);
+
+    await this.sendReceipt(customerId, delivery);
+  }
+
+  //Confirms a drop-off of a multi-stop delivery, the last one ends the delivery
+  async completeStopNotification(data: any): Promise<void> {
+    const session = await dispatchSessionService.resolve(data);
+    if(!session)
+      throw new CustomAPIError('No active dispatch session for this delivery', HttpStatus.NOT_FOUND.code);
+
+    const { riderId, deliveryRefNumber, customerId } = session;
+
+    if(session.status !== DISPATCH_ON_TRANSIT)
+      throw new CustomAPIError('Delivery has not been started', HttpStatus.BAD_REQUEST.code);
+
+    const { delivery, stop, sequence, next } = await deliveryStopService.completeStop(
+      deliveryRefNumber,
+      data.stopId,
+      riderId,
+      data.otp,
+      this.eventLocation(data)
+    );
+
+    this.notifyCustomer(customerId, 'stopDeliveredNotification', {
+      deliveryRefNumber,
+      stopId: stop._id,
+      sequence,
+      recipientName: stop.recipientName,
+      remainingStops: deliveryStopService.pendingStops(delivery).length
+    });
+
+    await deliveryStopService.notifyRecipients(deliveryRefNumber, stop, next);
+    await chatService.system(delivery._id, `Stop ${sequence} delivered to ${stop.recipientName}`);
+
+    if (!next) await this.endDeliveryNotification(data);
   }
 
   //Notify customer of rider's arrival
   async handleRiderArrival(data: any) {
-    const redisData = await redisService.getToken(PACKAGE_REQUEST_INFO);
-    const { deliveryId }: any = redisData;
-
-    const customerSocket = this.socketMap.get(data.customerId);
-    if(customerSocket){
-      console.log('rider has arrived');
-
-      await datasources.deliveryDAOService.updateByAny(
-        { _id: deliveryId },
-        { status: RIDER_READY_TO_COLLECT_PACKAGE }
-      )
-      
-      customerSocket.emit('riderArrivalNotification', data.riderArrived)
-    }
+    const session = await dispatchSessionService.resolve(data);
+    if(!session)
+      throw new CustomAPIError('No active dispatch session for this delivery', HttpStatus.NOT_FOUND.code);
+
+    await deliveryStatusService.transition(session.deliveryId, {
+      to: RIDER_READY_TO_COLLECT_PACKAGE,
+      actor: session.riderId,
+      actorType: ACTOR_RIDER,
+      location: this.eventLocation(data)
+    });
+    await dispatchSessionService.transition(session.deliveryRefNumber, [DISPATCH_ACCEPTED], DISPATCH_ARRIVED);
+
+    await chatService.system(session.deliveryId, 'Rider arrived at the pickup location');
+
+    console.log('rider has arrived');
+    
+    this.notifyCustomer(session.customerId, 'riderArrivalNotification', data.riderArrived)
+
+    await notificationInboxService.notify({ id: session.customerId, type: 'customer' }, {
+      type: NOTIFICATION_RIDER_ARRIVED,
+      title: 'Rider arrived',
+      body: `${session.riderFirstName} has arrived to pick up your package ${session.deliveryRefNumber}.`,
+      data: { deliveryId: session.deliveryId, deliveryRefNumber: session.deliveryRefNumber }
+    });
+  }
+
+  /**
+   * @name releaseDelivery
+   * @desc the rider of {@param session} gives back the delivery before
+   * @desc picking it up, it is paid again and re-offered down the cascade
+   */
+  async releaseDelivery(session: IDispatchSession): Promise<void> {
+    const { deliveryId, riderId, customerId, deliveryRefNumber, riderFirstName } = session;
+
+    await deliveryStatusService.transition(
+      deliveryId,
+      { to: PAID, actor: riderId, actorType: ACTOR_RIDER, note: 'Released by the rider' },
+      { $unset: { rider: 1 } }
+    );
+
+    await this.freeRider(riderId);
+
+    await chatService.leaveDeliveryChat(deliveryId, riderId, `${riderFirstName} released the delivery, looking for another rider`);
+
+    this.notifyCustomer(customerId, 'riderReleased', { deliveryRefNumber, riderName: riderFirstName });
+
+    await notificationInboxService.notify({ id: customerId, type: 'customer' }, {
+      type: NOTIFICATION_RIDER_RELEASED,
+      title: 'Looking for another rider',
+      body: `${riderFirstName} can no longer pick up your delivery ${deliveryRefNumber}, we are looking for another rider.`,
+      data: { deliveryId, deliveryRefNumber }
+    });
 
+    await this.dispatchEngine.release(deliveryRefNumber, `${riderId}`);
   }
 
-  findSocketIdByRiderId(riderId: any): any | undefined {
-    return this.socketMap.get(riderId);
-  }  
+  //the rider can be offered deliveries again
+  async freeRider(riderId: any): Promise<void> {
+    await datasources.riderDAOService.updateByAny({ _id: riderId }, { busy: false });
+  }
+
+  //emails the customer a receipt, customers without an email get none
+  async sendReceipt(customerId: any, delivery: any): Promise<void> {
+    const customer = await datasources.customerDAOService.findById(customerId);
+    if (!customer?.email) return;
+
+    try {
+      await messageService.email(customer.email, TEMPLATE_DELIVERY_RECEIPT, {
+        firstName: customer.firstName || 'there',
+        deliveryRefNumber: delivery.deliveryRefNumber,
+        deliveredAt: new Date().toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: PRICING_TIMEZONE }),
+        senderAddress: delivery.senderAddress,
+        recipientAddress: delivery.recipientAddress,
+        deliveryFee: Generic.formatNumberToIntl(delivery.deliveryFee)
+      });
+    } catch (error: any) {
+      logger.error(`Could not send the receipt of delivery ${delivery.deliveryRefNumber}: ${error.message}`);
+    }
+  }
+
+  //[longitude, latitude] of a socket event, when the rider app sent one
+  eventLocation(data: any): [number, number] | null {
+    const { latitude, longitude } = data || {};
+
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+
+    return [longitude, latitude];
+  }
 
   setupSocketIO(server: any): void {
     this.io = new Server(server, {
       cors: corsOptions
     });
 
+    //rooms are shared with the other nodes through redis
+    socketGatewayService.attach(this.io);
+
+    presenceService
+      .resetNode()
+      .catch(error => logger.error(`Could not reset socket presence: ${error.message}`));
+
+    //only sockets that present a valid token connect, see socket.data for who they are
+    this.io.use(authenticateSocket);
+
     this.io.on('connection', (socket: Socket<any, any, any, any>) => {
       console.log(`Client connected. ${socket.id}`);
       logger.info(socket.id);
 
+      this.registerSocket(socket)
+        .then(() => chatService.flush(socket))
+        .catch(error => this.emitDispatchError(socket, error));
+
       socket.on('packageRequest', (request: any) => {
 
         if(request === null) {
           return socket.emit('requestAlreadySent', 'Request has already been sent.')
         }
 
-        this.submitPackageRequest(request, socket);
+        this.ownSession(socket, request, 'customerId')
+          .then(() => dispatchSessionService
+            .transition(request.deliveryRefNumber, [DISPATCH_MATCHED], DISPATCH_REQUESTED)
+            .then(session => this.submitPackageRequest(session, socket))
+            .catch(() => socket.emit('requestAlreadySent', 'Request has already been sent.')))
+          .catch(error => this.emitDispatchError(socket, error));
       });
 
-      socket.on('riderId', (riderId: any) => {
-        if (riderId) {
-          if(!this.onlineUsers.some(user => user.userId === riderId)) {
-            this.onlineUsers.push({
-              riderId,
-              socketId: socket.id
-            })
-          }
-          this.socketMap.set(riderId, socket);
-          console.log(`Socket set for riderId: ${riderId}`);
-        } else {
-          console.log('Invalid or disconnected socket.');
-        }
-
-        socket.emit("getOnlineUsers", this.onlineUsers);
+      //the ids the clients send are ignored, the socket belongs to the user of its token
+      socket.on('riderId', () => {
+        this.registerSocket(socket)
+          .then(() => this.onlineUsers())
+          .then(onlineUsers => socket.emit("getOnlineUsers", onlineUsers))
+          .catch(error => this.emitDispatchError(socket, error));
       });
 
-      socket.on('customerId', (customerId: any) => {
-        if (customerId) {
-          if(!this.onlineUsers.some(user => user.userId === customerId)) {
-            this.onlineUsers.push({
-              customerId,
-              socketId: socket.id
-            })
-          }
-          this.socketMap.set(customerId, socket)
-          console.log(`Socket ${socket.id} set for customerId: ${customerId}`);
-        } else {
-          console.log('Invalid or disconnected socket.');
-        }
-
-        socket.emit("getOnlineUsers", this.onlineUsers);
+      socket.on('customerId', () => {
+        this.registerSocket(socket)
+          .then(() => this.onlineUsers())
+          .then(onlineUsers => socket.emit("getOnlineUsers", onlineUsers))
+          .catch(error => this.emitDispatchError(socket, error));
       });
 
+      //the message is stored and reaches the receiver now or when they reconnect
       socket.on('sendPrivateMessage', (data: any) => {
-        const { senderId, receiverId, message, chatId } = data;
-  
-        this.sendMessageToUser(senderId, receiverId, message, chatId)
-        
-        // Emit the private message to the receiver's room
-        // io.to(receiverId).emit('receivePrivateMessage', { senderId, message });
+        const { message, chatId, clientMessageId } = data || {};
+        const { userId } = socket.data as SocketUser;
+
+        chatService
+          .send(chatId, userId, message, clientMessageId)
+          .then(chatMessage => socket.emit('privateMessageSent', {
+            _id: chatMessage._id,
+            chatId,
+            clientMessageId: chatMessage.clientMessageId
+          }))
+          .catch(error => this.emitDispatchError(socket, error));
       });
 
+      socket.on('messageDelivered', (data: any) => {
+        if(data) {
+          chatService
+            .markDelivered((socket.data as SocketUser).userId, data.messageIds)
+            .catch(error => this.emitDispatchError(socket, error))
+        }
+      })
+
+      socket.on('messageRead', (data: any) => {
+        if(data) {
+          chatService
+            .markRead((socket.data as SocketUser).userId, data.chatId)
+            .catch(error => this.emitDispatchError(socket, error))
+        }
+      })
+
       socket.on('arrived', (data: any) => {
         if(data) {
-          this.handleRiderArrival(data)
+          this.ownSession(socket, data, 'riderId')
+            .then(session => this.handleRiderArrival({ ...data, deliveryRefNumber: session.deliveryRefNumber }))
+            .catch(error => this.emitDispatchError(socket, error))
         }
       })
 
       socket.on('startDelivery', (data: any) => {
         if(data) {
-          this.startDeliveryNotification(data)
+          this.ownSession(socket, data, 'riderId')
+            .then(session => this.startDeliveryNotification({ ...data, deliveryRefNumber: session.deliveryRefNumber }))
+            .catch(error => this.emitDispatchError(socket, error))
         }
       })
 
       socket.on('endDelivery', (data: any) => {
         if(data) {
-          this.endDeliveryNotification(data)
+          this.ownSession(socket, data, 'riderId')
+            .then(session => this.endDeliveryNotification({ ...data, deliveryRefNumber: session.deliveryRefNumber }))
+            .catch(error => this.emitDispatchError(socket, error))
+        }
+      })
+
+      socket.on('completeStop', (data: any) => {
+        if(data) {
+          this.ownSession(socket, data, 'riderId')
+            .then(session => this.completeStopNotification({ ...data, deliveryRefNumber: session.deliveryRefNumber }))
+            .catch(error => this.emitDispatchError(socket, error))
+        }
+      })
+
+      socket.on('trackDelivery', (data: any) => {
+        if(data) {
+          deliveryTrackingService
+            .join(socket, data.deliveryRefNumber, (socket.data as SocketUser).userId)
+            .catch(error => this.emitDispatchError(socket, error))
+        }
+      })
+
+      socket.on('untrackDelivery', (data: any) => {
+        if(data) {
+          deliveryTrackingService
+            .leave(socket, data.deliveryRefNumber)
+            .catch(error => this.emitDispatchError(socket, error))
         }
       })
 
@@ -503,46 +734,58 @@ class RabbitMqService {
         console.log('Client disconnected.');
         logger.info(`Client with id ${socket.id} disconnected`);
 
-        this.onlineUsers = this.onlineUsers.filter(user => user.socketId !== socket.id)
-        console.log(this.onlineUsers, 'online')
-        socket.emit("getOnlineUsers", this.onlineUsers);
+        presenceService
+          .disconnect((socket.data as SocketUser).userId, socket.id)
+          .catch(error => logger.error(`Could not update socket presence: ${error.message}`));
+      });
+    });
+  }
 
-        // Add riderId to the socketMap when a rider disconnects
-        // const riderId = this.findRiderIdBySocketId(socket.id);
-        // console.log(riderId, 'rider id after disconnect')
-        // if (riderId) {
-        //   this.socketMap.set(riderId, socket);
-        // }
+  //joins the socket to the room of its authenticated user and marks them online
+  async registerSocket(socket: Socket<any, any, any, any>): Promise<void> {
+    const { userId, userType } = socket.data as SocketUser;
 
-        // const socketId = this.findSocketIdByRiderId(customerId);
-        // console.log(riderId, 'rider id after disconnect')
-        // if (riderId) {
-        //   this.socketMap.set(riderId, socket);
-        // }
+    await socketGatewayService.join(socket);
+    await presenceService.connect({ userId, userType }, socket.id);
 
-        
-      });
+    console.log(`Socket ${socket.id} set for ${userType}: ${userId}`);
+  }
 
-      const riderId = this.findRiderIdBySocketId(socket.id);
-      if (riderId) {
-        const riderSocket = socket;
-        this.socketMap.set(riderId, riderSocket);
-      }
+  //online users in the shape the apps read from getOnlineUsers
+  async onlineUsers(): Promise<any[]> {
+    const users = await presenceService.onlineUsers();
+
+    return users.map(({ userId, userType }) => userType === 'rider' ? { riderId: userId } : { customerId: userId });
+  }
+
+  //the dispatch session of an event, when the user of the socket is its rider or customer
+  async ownSession(
+    socket: Socket<any, any, any, any>,
+    data: any,
+    owner: 'riderId' | 'customerId'
+  ): Promise<IDispatchSession> {
+    const { userId } = socket.data as SocketUser;
+
+    const session = await dispatchSessionService.resolve({
+      deliveryRefNumber: data?.deliveryRefNumber,
+      riderId: owner === 'riderId' ? userId : undefined
     });
+    if(!session)
+      throw new CustomAPIError('No active dispatch session for this delivery', HttpStatus.NOT_FOUND.code);
+
+    if(`${session[owner]}` !== userId)
+      throw new CustomAPIError('You are not allowed to act on this delivery', HttpStatus.FORBIDDEN.code);
+
+    return session;
   }
 
-  getIO(): Server<any, any, any, any> | null {
-    return this.io;
+  emitDispatchError(socket: Socket<any, any, any, any>, error: any) {
+    logger.error(error.message);
+    socket.emit('dispatchError', { message: error.message });
   }
 
-  findRiderIdBySocketId(socketId: string): string | undefined {
-    for (const [riderId, id] of this.socketMap.entries()) {
-      //@ts-ignore
-      if (id === socketId) {
-        return riderId;
-      }
-    }
-    return undefined;
+  getIO(): Server<any, any, any, any> | null {
+    return this.io;
   }
 }
 
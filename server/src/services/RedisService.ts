@@ -1,7 +1,10 @@
-import redis from 'ioredis';
 import twilio from 'twilio';
 import crypto from 'crypto';
 import settings from '../config/settings';
+import dataStore from '../config/dataStore';
+
+//the configured Redis every node shares, so dispatch sessions and codes are seen by all of them
+const client = dataStore.init();
 
 class RedisService {
   private twilioConfig = {
@@ -10,7 +13,7 @@ class RedisService {
     phoneNumber: settings.twilio.phoneNumber
   };
 
-  private redisClient = redis.createClient();
+  private redisClient = client;
   private twilioClient = twilio(this.twilioConfig.accountSid, this.twilioConfig.authToken);
   private twilioPhoneNumber = this.twilioConfig.phoneNumber;
 
@@ -32,14 +35,22 @@ class RedisService {
   //   this.redisClient.set(keys, data, 'EX', expire);
   // }
 
-  public saveToken(keys: string, data: any, expire?: number): void {
+  public async saveToken(keys: string, data: any, expire?: number): Promise<void> {
     if (expire) {
-      this.redisClient.set(keys, data, 'EX', expire);
+      await this.redisClient.set(keys, data, 'EX', expire);
     } else {
-      this.redisClient.set(keys, data);
+      await this.redisClient.set(keys, data);
     }
   }
 
+  //adds one to the counter at {@param key} and returns the new count, the counter expires {@param expire} seconds after its last change
+  public async increment(key: string, expire: number): Promise<number> {
+    const [[error, count]] = await this.redisClient.multi().incr(key).expire(key, expire).exec() as [Error | null, number][];
+    if (error) throw error;
+
+    return count;
+  }
+
   public sendNotification(phoneNumber: string, message: string): Promise<any> {
     return new Promise((resolve, reject) => {
       this.twilioClient.messages
@@ -0,0 +1,129 @@
+import datasources from './dao';
+import WalletLedgerService from './WalletLedgerService';
+import {
+  ACTOR_CUSTOMER,
+  CANCELED,
+  CANCELLATION_CHARGES,
+  RIDER_CANCELLATION_COMPENSATION,
+  RIDER_READY_TO_COLLECT_PACKAGE,
+  RIDER_REQUESTED
+} from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+import { ITransactionModel } from '../models/Transaction';
+import AppLogger from '../utils/AppLogger';
+import { appModelTypes } from '../@types/app-model';
+import IRefundAssessment = appModelTypes.IRefundAssessment;
+
+const logger = AppLogger.init('server').logger;
+const walletLedgerService = new WalletLedgerService();
+
+/**
+ * @name RefundPolicyService
+ * @desc Decides how the fee a customer paid into escrow is shared out when a
+ * @desc delivery is canceled. Nothing is kept before a rider is assigned. Once
+ * @desc a rider is assigned a customer cancellation keeps CANCELLATION_CHARGES
+ * @desc percent of the fee, and a rider that had arrived for pickup also gets
+ * @desc RIDER_CANCELLATION_COMPENSATION percent of it. A cancellation stores
+ * @desc the refund it owes on the delivery in the same write, so a refund that
+ * @desc fails is finished by finishPending.
+ */
+class RefundPolicyService {
+
+  /**
+   * @name assess
+   * @desc the refund owed for canceling {@param delivery} from the status
+   * @desc {@param from}, its current status unless it was canceled already
+   */
+  public async assess(delivery: IDeliveryModel, actorType: string, from: string = delivery.status): Promise<IRefundAssessment> {
+    const escrow = await walletLedgerService.escrowBalance(delivery.deliveryRefNumber);
+
+    const assessment: IRefundAssessment = {
+      escrow: Math.max(escrow, 0),
+      refund: Math.max(escrow, 0),
+      cancellationFee: 0,
+      riderCompensation: 0,
+      rider: delivery.rider
+    };
+
+    //only a customer pays for changing their mind
+    if (escrow <= 0 || actorType !== ACTOR_CUSTOMER) return assessment;
+
+    if (from === RIDER_REQUESTED || from === RIDER_READY_TO_COLLECT_PACKAGE)
+      assessment.cancellationFee = Math.round(CANCELLATION_CHARGES/100 * escrow);
+
+    if (from === RIDER_READY_TO_COLLECT_PACKAGE && delivery.rider)
+      assessment.riderCompensation = Math.round(RIDER_CANCELLATION_COMPENSATION/100 * escrow);
+
+    assessment.refund = escrow - assessment.cancellationFee - assessment.riderCompensation;
+
+    return assessment;
+  }
+
+  /**
+   * @name refund
+   * @desc pays out the assessment of {@param delivery} and records the
+   * @desc customer's refund as a transaction on their wallet
+   */
+  public async refund(delivery: IDeliveryModel, actorType: string, from: string = delivery.status): Promise<IRefundAssessment> {
+    const assessment = await this.assess(delivery, actorType, from);
+    if (assessment.escrow <= 0) return assessment;
+
+    await walletLedgerService.refundDelivery(delivery.customer, delivery, assessment);
+
+    const transaction = await datasources.transactionDAOService.updateByAny(
+      { reference: `refund_${delivery.deliveryRefNumber}` },
+      {
+        $setOnInsert: {
+          amount: assessment.refund,
+          status: 'success',
+          type: 'Refund',
+          currency: 'NGN',
+          paidAt: new Date(),
+          customer: delivery.customer
+        }
+      },
+      { upsert: true, new: true }
+    ) as ITransactionModel;
+
+    await datasources.walletDAOService.updateByAny(
+      { customer: delivery.customer },
+      { $addToSet: { transactions: transaction._id } }
+    );
+
+    return assessment;
+  }
+
+  /**
+   * @name finishRefund
+   * @desc pays out the refund a cancellation of {@param delivery} still
+   * @desc owes and clears it, null when it owes none
+   */
+  public async finishRefund(delivery: IDeliveryModel): Promise<IRefundAssessment | null> {
+    if (!delivery.pendingRefund) return null;
+
+    const { actorType, canceledFrom } = delivery.pendingRefund;
+    const assessment = await this.refund(delivery, actorType, canceledFrom);
+
+    await datasources.deliveryDAOService.updateByAny({ _id: delivery._id }, { pendingRefund: null });
+
+    return assessment;
+  }
+
+  //run by the DELIVERY_REFUND_RECOVERY_JOB for cancellations whose refund failed
+  public async finishPending(): Promise<void> {
+    const deliveries = await datasources.deliveryDAOService.findAll({
+      status: CANCELED,
+      pendingRefund: { $ne: null }
+    });
+
+    for (const delivery of deliveries) {
+      try {
+        await this.finishRefund(delivery);
+      } catch (error: any) {
+        logger.error(`Refund of delivery ${delivery.deliveryRefNumber} was not finished: ${error.message}`);
+      }
+    }
+  }
+}
+
+export default RefundPolicyService;
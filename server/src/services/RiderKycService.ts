@@ -0,0 +1,295 @@
+import { UpdateQuery } from 'mongoose';
+import datasources from './dao';
+import NotificationInboxService from './NotificationInboxService';
+import RiderVehicleService from './RiderVehicleService';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import { IKycCaseModel } from '../models/KycCase';
+import { IKycEventModel } from '../models/KycEvent';
+import {
+  ACTOR_ADMIN,
+  ACTOR_RIDER,
+  KYC_APPROVED,
+  KYC_REJECTED,
+  KYC_RESUBMISSION_REQUESTED,
+  KYC_STATUS_TRANSITIONS,
+  KYC_SUBMITTED,
+  KYC_UNDER_REVIEW,
+  NOTIFICATION_KYC_APPROVED,
+  NOTIFICATION_KYC_REJECTED,
+  NOTIFICATION_KYC_RESUBMISSION_REQUESTED,
+  NOTIFICATION_KYC_SUBMITTED
+} from '../config/constants';
+import { appModelTypes } from '../@types/app-model';
+import IKycStatusChange = appModelTypes.IKycStatusChange;
+
+const notificationInboxService = new NotificationInboxService();
+const riderVehicleService = new RiderVehicleService();
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+interface IKycUploads {
+  selfieUrl?: string,
+  papersUrl?: string,
+  vehiclePhotoUrl?: string
+}
+
+/**
+ * @name RiderKycService
+ * @desc The verification of a rider before they may go online. A rider submits
+ * @desc one case bundling their license, vehicle, vehicle papers, selfie and bank
+ * @desc details, an admin claims it from the review queue and approves it,
+ * @desc rejects it or asks for documents again. Every move is checked against
+ * @desc KYC_STATUS_TRANSITIONS and recorded as a KycEvent.
+ */
+class RiderKycService {
+
+  public async caseOf(riderId: any): Promise<IKycCaseModel | null> {
+    return datasources.kycCaseDAOService.findByAny({ rider: riderId });
+  }
+
+  public async isApproved(riderId: any): Promise<boolean> {
+    const kycCase = await this.caseOf(riderId);
+
+    return kycCase?.status === KYC_APPROVED;
+  }
+
+  /**
+   * @name submit
+   * @desc opens the case of {@param riderId}, answers a resubmission
+   * @desc request or submits a rejected case again, documents that are not
+   * @desc uploaded again are kept
+   */
+  public async submit(riderId: any, uploads: IKycUploads): Promise<IKycCaseModel> {
+    const current = await this.caseOf(riderId);
+
+    if (current && ![KYC_RESUBMISSION_REQUESTED, KYC_REJECTED].includes(current.status))
+      throw CustomAPIError.response(`Your verification is already ${current.status.replace('_', ' ')}`, HttpStatus.BAD_REQUEST.code);
+
+    const bundle = await this.bundle(riderId, uploads, current);
+
+    if (current) {
+      const resubmitted = await this.transition(
+        current,
+        { to: KYC_SUBMITTED, actor: riderId, actorType: ACTOR_RIDER },
+        { ...bundle, reviewer: null, reason: null, reviewedAt: null }
+      );
+
+      await this.notifyAdmins(resubmitted);
+
+      return resubmitted;
+    }
+
+    let created: IKycCaseModel;
+    try {
+      created = await datasources.kycCaseDAOService.create({
+        ...bundle,
+        rider: riderId,
+        status: KYC_SUBMITTED
+      } as unknown as IKycCaseModel);
+    } catch (error: any) {
+      //submitted by a concurrent request
+      if (error.code === DUPLICATE_KEY_ERROR)
+        throw CustomAPIError.response('Your verification is already submitted', HttpStatus.BAD_REQUEST.code);
+
+      throw error;
+    }
+
+    await this.record(created, null, { to: KYC_SUBMITTED, actor: riderId, actorType: ACTOR_RIDER });
+    await this.notifyAdmins(created);
+
+    return created;
+  }
+
+  //cases waiting for a reviewer or being reviewed, oldest submission first
+  public async queue(status?: string): Promise<IKycCaseModel[]> {
+    return datasources.kycCaseDAOService.findAll(
+      { status: status || { $in: [KYC_SUBMITTED, KYC_UNDER_REVIEW] } },
+      { sort: { submittedAt: 1 } }
+    );
+  }
+
+  public async find(caseId: string): Promise<IKycCaseModel> {
+    const kycCase = await datasources.kycCaseDAOService.findById(caseId);
+    if (!kycCase)
+      throw CustomAPIError.response('Verification not found', HttpStatus.NOT_FOUND.code);
+
+    return kycCase;
+  }
+
+  public async trail(kycCase: IKycCaseModel): Promise<IKycEventModel[]> {
+    return datasources.kycEventDAOService.findAll({ kycCase: kycCase._id }, { sort: { createdAt: 1 } });
+  }
+
+  //{@param reviewerId} takes the case from the queue, no other admin can decide it
+  public async claim(caseId: string, reviewerId: any): Promise<IKycCaseModel> {
+    const kycCase = await this.find(caseId);
+
+    return this.transition(
+      kycCase,
+      { to: KYC_UNDER_REVIEW, actor: reviewerId, actorType: ACTOR_ADMIN },
+      { reviewer: reviewerId }
+    );
+  }
+
+  public async approve(caseId: string, reviewerId: any): Promise<IKycCaseModel> {
+    const approved = await this.decide(caseId, reviewerId, { to: KYC_APPROVED });
+
+    await notificationInboxService.notify({ id: approved.rider, type: 'rider' }, {
+      type: NOTIFICATION_KYC_APPROVED,
+      title: 'Verification approved',
+      body: 'Your documents were approved, you can now go online.',
+      data: { kycCaseId: approved._id }
+    });
+
+    return approved;
+  }
+
+  public async reject(caseId: string, reviewerId: any, reason: string): Promise<IKycCaseModel> {
+    const rejected = await this.decide(caseId, reviewerId, { to: KYC_REJECTED, note: reason });
+
+    await notificationInboxService.notify({ id: rejected.rider, type: 'rider' }, {
+      type: NOTIFICATION_KYC_REJECTED,
+      title: 'Verification rejected',
+      body: `Your verification was rejected: ${reason}. You can submit your documents again.`,
+      data: { kycCaseId: rejected._id, reason }
+    });
+
+    return rejected;
+  }
+
+  public async requestResubmission(caseId: string, reviewerId: any, reason: string): Promise<IKycCaseModel> {
+    const requested = await this.decide(caseId, reviewerId, { to: KYC_RESUBMISSION_REQUESTED, note: reason });
+
+    await notificationInboxService.notify({ id: requested.rider, type: 'rider' }, {
+      type: NOTIFICATION_KYC_RESUBMISSION_REQUESTED,
+      title: 'Documents needed',
+      body: `Please submit your verification again: ${reason}`,
+      data: { kycCaseId: requested._id, reason }
+    });
+
+    return requested;
+  }
+
+  private async decide(caseId: string, reviewerId: any, change: Omit<IKycStatusChange, 'actor' | 'actorType'>): Promise<IKycCaseModel> {
+    const kycCase = await this.find(caseId);
+
+    if (kycCase.status === KYC_UNDER_REVIEW && `${kycCase.reviewer}` !== `${reviewerId}`)
+      throw CustomAPIError.response('Verification is being reviewed by another admin', HttpStatus.FORBIDDEN.code);
+
+    return this.transition(
+      kycCase,
+      { ...change, actor: reviewerId, actorType: ACTOR_ADMIN },
+      { reason: change.note || null, reviewedAt: new Date() }
+    );
+  }
+
+  /**
+   * @name transition
+   * @desc moves {@param kycCase} to {@param change.to}, the write only
+   * @desc succeeds while the case is still in the status it was read in
+   */
+  private async transition(
+    kycCase: IKycCaseModel,
+    change: IKycStatusChange,
+    update: UpdateQuery<IKycCaseModel> = {}
+  ): Promise<IKycCaseModel> {
+    const from = kycCase.status;
+    const allowed = KYC_STATUS_TRANSITIONS[from] || [];
+
+    if (!allowed.includes(change.to))
+      throw CustomAPIError.response(
+        `Verification can not move from ${from} to ${change.to}`,
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    const updated = await datasources.kycCaseDAOService.updateByAny(
+      { _id: kycCase._id, status: from },
+      { ...update, status: change.to }
+    );
+    if (!updated)
+      throw CustomAPIError.response(
+        'Verification was changed by another request, please try again.',
+        HttpStatus.BAD_REQUEST.code
+      );
+
+    await this.record(updated, from, change);
+
+    return updated;
+  }
+
+  private async record(kycCase: IKycCaseModel, from: string | null, change: IKycStatusChange): Promise<void> {
+    await datasources.kycEventDAOService.create({
+      kycCase: kycCase._id,
+      rider: kycCase.rider,
+      fromStatus: from,
+      toStatus: change.to,
+      actor: change.actor || null,
+      actorType: change.actorType,
+      note: change.note
+    } as any);
+  }
+
+  //everything the reviewer looks at, copied from the rider's records
+  private async bundle(riderId: any, uploads: IKycUploads, current: IKycCaseModel | null) {
+    const rider = await datasources.riderDAOService.findById(riderId);
+    if (!rider)
+      throw CustomAPIError.response('Rider not found', HttpStatus.NOT_FOUND.code);
+
+    const license = await datasources.riderLicenseDAOService.findByAny({ rider: riderId });
+    if (!license)
+      throw CustomAPIError.response('Add your license before submitting your verification', HttpStatus.BAD_REQUEST.code);
+
+    const vehicle = await riderVehicleService.activeVehicleOf(riderId);
+    if (!vehicle)
+      throw CustomAPIError.response('Add your vehicle before submitting your verification', HttpStatus.BAD_REQUEST.code);
+
+    if (!rider.bankName || !rider.accountName || !rider.accountNumber)
+      throw CustomAPIError.response('Add your bank details before submitting your verification', HttpStatus.BAD_REQUEST.code);
+
+    const selfieUrl = uploads.selfieUrl || current?.selfieUrl;
+    const papersUrl = uploads.papersUrl || current?.vehicle?.papersUrl;
+    const photoUrl = uploads.vehiclePhotoUrl || current?.vehicle?.photoUrl || vehicle.vehicleImageUrl;
+
+    if (!selfieUrl)
+      throw CustomAPIError.response('Selfie is required', HttpStatus.BAD_REQUEST.code);
+    if (!papersUrl)
+      throw CustomAPIError.response('Vehicle papers are required', HttpStatus.BAD_REQUEST.code);
+    if (!photoUrl)
+      throw CustomAPIError.response('Vehicle photo is required', HttpStatus.BAD_REQUEST.code);
+
+    return {
+      license: {
+        record: license._id,
+        licenseNumber: license.licenseNumber,
+        expiryDate: license.expiryDate,
+        imageUrl: license.licenseImageUrl
+      },
+      vehicle: {
+        record: vehicle._id,
+        vehicleType: vehicle.vehicleType,
+        licencePlateNumber: vehicle.licencePlateNumber,
+        photoUrl,
+        papersUrl
+      },
+      selfieUrl,
+      bank: {
+        bankName: rider.bankName,
+        accountName: rider.accountName,
+        accountNumber: rider.accountNumber
+      },
+      submittedAt: new Date()
+    };
+  }
+
+  private async notifyAdmins(kycCase: IKycCaseModel): Promise<void> {
+    await notificationInboxService.notifyAdmins({
+      type: NOTIFICATION_KYC_SUBMITTED,
+      title: 'Rider verification submitted',
+      body: 'A rider submitted their documents for review.',
+      data: { kycCaseId: kycCase._id, riderId: kycCase.rider }
+    });
+  }
+}
+
+export default RiderKycService;
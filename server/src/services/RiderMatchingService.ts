@@ -0,0 +1,187 @@
+import datasources from './dao';
+import VehicleDocumentService from './VehicleDocumentService';
+import RiderVehicleService from './RiderVehicleService';
+import RiderKycService from './RiderKycService';
+import RiderScoringService, { MatchingWeights } from './RiderScoringService';
+import RiderLocation from '../models/RiderLocation';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import { MAX_DISTANCE } from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+import { appModelTypes } from '../@types/app-model';
+import IDispatchCandidate = appModelTypes.IDispatchCandidate;
+import IPackageRequestData = appModelTypes.IPackageRequestData;
+import IRiderScore = appModelTypes.IRiderScore;
+
+const vehicleDocumentService = new VehicleDocumentService();
+const riderVehicleService = new RiderVehicleService();
+const riderKycService = new RiderKycService();
+const riderScoringService = new RiderScoringService();
+
+interface IRiderEvaluation {
+  riderId: string,
+  riderFirstName?: string,
+  distance: number,
+  excludedBecause: string | null,
+  score?: IRiderScore,
+  candidate?: IDispatchCandidate
+}
+
+/**
+ * @name RiderMatchingService
+ * @desc Finds the riders that can take a delivery, best scored first. Used when
+ * @desc a customer looks for a rider and when a scheduled delivery is released.
+ */
+class RiderMatchingService {
+
+  /**
+   * @name rank
+   * @desc riders located within MAX_DISTANCE of the sender that are
+   * @desc 1. online
+   * @desc 2. active
+   * @desc 3. not busy on another delivery, from acceptance until it ends
+   * @desc 4. rider license is not expired
+   * @desc 5. rider active vehicle type is same as delivery vehicle type
+   * @desc 6. rider active vehicle documents are verified and not expired
+   * @desc 7. rider has not declined this delivery
+   * @desc best score first, nearest first between equal scores
+   */
+  public async rank(delivery: IDeliveryModel): Promise<IDispatchCandidate[]> {
+    const { riders } = await this.explain(delivery);
+
+    return riders
+      .filter(rider => rider.candidate)
+      .map(rider => rider.candidate as IDispatchCandidate);
+  }
+
+  /**
+   * @name explain
+   * @desc every rider near the sender of {@param delivery} in the order
+   * @desc rank offers them, with the score of the eligible ones and why
+   * @desc the others were left out
+   */
+  public async explain(delivery: IDeliveryModel): Promise<{ weights: MatchingWeights, riders: IRiderEvaluation[] }> {
+    const riderLocations = await RiderLocation.aggregate([
+      {
+        $geoNear: {
+          near: {
+            type: 'Point',
+            coordinates: delivery.senderLocation.coordinates,
+          },
+          distanceField: 'distance',
+          maxDistance: MAX_DISTANCE,
+          spherical: true,
+        },
+      },
+      {
+        $sort: { distance: 1 }
+      }
+    ]).exec();
+
+    if (!riderLocations.length)
+      throw CustomAPIError.response('No rider is available at the moment', HttpStatus.NOT_FOUND.code);
+
+    const vehicleTypes = await datasources.vehicleTypeDAOService.findAll({});
+    const weights = await riderScoringService.weights();
+
+    // riders who already declined this delivery are not offered it again
+    const declined = await datasources.notificationDAOService.findAll({
+      deliveryRefNumber: delivery.deliveryRefNumber,
+      riderAvailabilityStatus: false
+    });
+    const declinedRiderIds = declined.map(notification => `${notification.rider}`);
+
+    const riders: IRiderEvaluation[] = [];
+    for (const riderLoc of riderLocations) {
+      const evaluation: IRiderEvaluation = {
+        riderId: riderLoc.rider,
+        distance: Math.round(riderLoc.distance),
+        excludedBecause: null
+      };
+      riders.push(evaluation);
+
+      if (declinedRiderIds.includes(`${riderLoc.rider}`)) {
+        evaluation.excludedBecause = 'declined this delivery';
+        continue;
+      }
+
+      const _rider = await datasources.riderDAOService.findById(riderLoc.rider);
+      const _rider_license = await datasources.riderLicenseDAOService.findByAny({ rider: riderLoc.rider });
+
+      evaluation.excludedBecause =
+        !_rider ? 'rider not found'
+        : _rider.status !== 'online' ? 'not online'
+        : !_rider.active ? 'not active'
+        : _rider.busy ? 'busy on another delivery'
+        : _rider_license?.isExpired ? 'license expired'
+        : !await riderKycService.isApproved(_rider._id) ? 'verification not approved'
+        : null;
+
+      if (!_rider || evaluation.excludedBecause) continue;
+
+      evaluation.riderFirstName = _rider.firstName;
+
+      const riderVehicle = await riderVehicleService.activeVehicleOf(_rider._id);
+      if (!riderVehicle || riderVehicle.vehicleType !== delivery.vehicle) {
+        evaluation.excludedBecause = 'no active vehicle of the delivery vehicle type';
+        continue;
+      }
+      if (!await vehicleDocumentService.isCompliant(riderVehicle._id)) {
+        evaluation.excludedBecause = 'vehicle documents missing, unverified or expired';
+        continue;
+      }
+
+      const vehicleType = vehicleTypes.find(type => type.vehicleType === riderVehicle.vehicleType);
+      if (!vehicleType)
+        throw CustomAPIError.response('Vehicle type not found', HttpStatus.NOT_FOUND.code);
+
+      //estimated time to sender based on the rider vehicle speed
+      const timeInHours = (riderLoc.distance / 1000) / vehicleType.speed;
+      const hours = Math.floor(timeInHours);
+      const minutes = Math.round((timeInHours - hours) * 60);
+      const arrivalTime = minutes <= 2 ? 2 : minutes;
+
+      evaluation.score = await riderScoringService.score(_rider, riderLoc.distance, weights);
+      evaluation.candidate = {
+        riderId: _rider._id,
+        riderFirstName: _rider.firstName,
+        riderPhoto: _rider.profileImageUrl as string,
+        distance: riderLoc.distance,
+        arrivalMinutes: arrivalTime,
+        arrivalTime: `Rider will arrive in ${arrivalTime}min`,
+        score: evaluation.score.score
+      };
+    }
+
+    //eligible riders first, sort is stable so equal scores stay nearest first
+    riders.sort((a, b) => (b.score?.score ?? -1) - (a.score?.score ?? -1));
+
+    return { weights, riders };
+  }
+
+  /**
+   * @name packageRequest
+   * @desc the dispatch session payload offering {@param delivery}
+   * @desc to {@param candidate}
+   */
+  public async packageRequest(delivery: IDeliveryModel, candidate: IDispatchCandidate): Promise<IPackageRequestData> {
+    const senderDetials = await datasources.customerDAOService.findById(delivery.customer);
+
+    return {
+      customerId: `${delivery.customer}`,
+      recipientAddress: delivery.recipientAddress,
+      senderAddress: delivery.senderAddress,
+      riderId: candidate.riderId,
+      riderFirstName: candidate.riderFirstName,
+      senderName: delivery.senderName,
+      arrivalTime: candidate.arrivalTime,
+      deliveryRefNumber: delivery.deliveryRefNumber,
+      estimatedDeliveryTime: delivery.estimatedDeliveryTime,
+      deliveryId: delivery._id,
+      senderPhoto: senderDetials?.profileImageUrl,
+      riderPhoto: candidate.riderPhoto
+    };
+  }
+}
+
+export default RiderMatchingService;
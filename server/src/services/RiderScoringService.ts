@@ -0,0 +1,132 @@
+import { Types } from 'mongoose';
+import datasources from './dao';
+import Notification from '../models/Notification';
+import DeliveryEvent from '../models/DeliveryEvent';
+import { IRiderModel } from '../models/Rider';
+import { IMatchingWeightsModel } from '../models/MatchingWeights';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import {
+  ACTOR_RIDER,
+  MATCHING_DEFAULT_WEIGHTS,
+  MAX_DISTANCE,
+  PAID,
+  RIDER_MAX_RATING,
+  RIDER_REQUESTED
+} from '../config/constants';
+import { appModelTypes } from '../@types/app-model';
+import IRiderScore = appModelTypes.IRiderScore;
+import IRiderScoreFactors = appModelTypes.IRiderScoreFactors;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export type MatchingWeights = typeof MATCHING_DEFAULT_WEIGHTS;
+
+const FACTORS: (keyof IRiderScoreFactors)[] = ['distance', 'rating', 'acceptance', 'cancellation', 'idle'];
+
+/**
+ * @name RiderScoringService
+ * @desc Scores the riders that can take a delivery so the best one is offered
+ * @desc it first. Every factor is scaled from 0 to 1 and the score is their
+ * @desc average weighted by the matching weights admins keep. The cancellation
+ * @desc factor is the share of accepted jobs the rider released again. A rider
+ * @desc without history gets full acceptance and no cancellations so new riders
+ * @desc are not pushed to the back.
+ */
+class RiderScoringService {
+
+  //the weights admins saved, or MATCHING_DEFAULT_WEIGHTS until they save some
+  public async weights(): Promise<MatchingWeights> {
+    const saved = await datasources.matchingWeightsDAOService.findByAny({});
+    if (!saved) return { ...MATCHING_DEFAULT_WEIGHTS };
+
+    return {
+      distance: saved.distance,
+      rating: saved.rating,
+      acceptance: saved.acceptance,
+      cancellation: saved.cancellation,
+      idle: saved.idle,
+      historyDays: saved.historyDays,
+      idleCapMinutes: saved.idleCapMinutes
+    };
+  }
+
+  public async saveWeights(weights: MatchingWeights, updatedBy: any): Promise<IMatchingWeightsModel | null> {
+    if (!FACTORS.some(factor => weights[factor] > 0))
+      throw CustomAPIError.response('At least one weight must be greater than 0', HttpStatus.BAD_REQUEST.code);
+
+    return datasources.matchingWeightsDAOService.updateByAny(
+      {},
+      { ...weights, updatedBy },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * @name score
+   * @desc the score of {@param rider}, {@param distance} meters away from
+   * @desc the sender, with what each factor added to it
+   */
+  public async score(rider: IRiderModel, distance: number, weights: MatchingWeights, now: Date = new Date()): Promise<IRiderScore> {
+    const since = new Date(now.getTime() - weights.historyDays * DAY);
+
+    const [offersAccepted, offersDeclined, jobsTaken, jobsReleased, [lastEvent]] = await Promise.all([
+      //offer responses have no timestamp, their id carries the time they were stored
+      Notification.countDocuments({ rider: rider._id, riderAvailabilityStatus: true, _id: { $gte: this.idSince(since) } }),
+      Notification.countDocuments({ rider: rider._id, riderAvailabilityStatus: false, _id: { $gte: this.idSince(since) } }),
+      DeliveryEvent.countDocuments({ actor: rider._id, actorType: ACTOR_RIDER, toStatus: RIDER_REQUESTED, createdAt: { $gte: since } }),
+      //a released delivery goes back to paid for the next rider
+      DeliveryEvent.countDocuments({ actor: rider._id, actorType: ACTOR_RIDER, toStatus: PAID, createdAt: { $gte: since } }),
+      datasources.deliveryEventDAOService.findAll(
+        { actor: rider._id, actorType: ACTOR_RIDER },
+        { sort: { createdAt: -1 }, limit: 1 }
+      )
+    ]);
+
+    const idleMinutes = lastEvent
+      ? Math.max(0, (now.getTime() - new Date(lastEvent.createdAt).getTime()) / MINUTE)
+      : weights.idleCapMinutes;
+
+    const offers = offersAccepted + offersDeclined;
+
+    const factors: IRiderScoreFactors = {
+      distance: this.clamp(1 - distance / MAX_DISTANCE),
+      rating: this.clamp((rider.rating || 0) / RIDER_MAX_RATING),
+      acceptance: offers ? offersAccepted / offers : 1,
+      cancellation: jobsTaken ? this.clamp(1 - jobsReleased / jobsTaken) : 1,
+      idle: this.clamp(idleMinutes / weights.idleCapMinutes)
+    };
+
+    const total = FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+    const score = FACTORS.reduce((sum, factor) => sum + weights[factor] * factors[factor], 0) / total;
+
+    return {
+      score: this.round(score),
+      factors: FACTORS.reduce((rounded, factor) => ({ ...rounded, [factor]: this.round(factors[factor]) }), {} as IRiderScoreFactors),
+      inputs: {
+        distance: Math.round(distance),
+        rating: rider.rating || 0,
+        offersAccepted,
+        offersDeclined,
+        jobsTaken,
+        jobsReleased,
+        idleMinutes: Math.round(idleMinutes)
+      }
+    };
+  }
+
+  private idSince(date: Date): Types.ObjectId {
+    return Types.ObjectId.createFromTime(Math.floor(date.getTime() / 1000));
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export default RiderScoringService;
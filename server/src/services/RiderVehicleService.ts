@@ -0,0 +1,53 @@
+import datasources from './dao';
+import { IVehicleModel } from '../models/Vehicle';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+
+/**
+ * @name RiderVehicleService
+ * @desc The vehicles a rider has registered and the one they are working
+ * @desc with. A rider picks their active vehicle when going online, it is the
+ * @desc one they are matched, timed and shown to customers with.
+ */
+class RiderVehicleService {
+
+  public async vehiclesOf(riderId: any): Promise<IVehicleModel[]> {
+    return datasources.vehicleDAOService.findAll({ rider: riderId }, { sort: { _id: 1 } });
+  }
+
+  /**
+   * @name activeVehicleOf
+   * @desc the active vehicle of {@param riderId}, a rider who registered
+   * @desc before vehicles could be switched works with their first vehicle
+   */
+  public async activeVehicleOf(riderId: any): Promise<IVehicleModel | null> {
+    const rider = await datasources.riderDAOService.findById(riderId);
+    if (!rider) return null;
+
+    if (rider.activeVehicle) {
+      const vehicle = await datasources.vehicleDAOService.findByAny({ _id: rider.activeVehicle, rider: rider._id });
+      if (vehicle) return vehicle;
+    }
+
+    const [first] = await this.vehiclesOf(rider._id);
+
+    return first || null;
+  }
+
+  public async setActive(riderId: any, vehicleId: any): Promise<IVehicleModel> {
+    const vehicle = await datasources.vehicleDAOService.findByAny({ _id: vehicleId, rider: riderId });
+    if (!vehicle)
+      throw CustomAPIError.response('Vehicle does not exist', HttpStatus.NOT_FOUND.code);
+
+    await datasources.riderDAOService.updateByAny({ _id: riderId }, { activeVehicle: vehicle._id });
+
+    return vehicle;
+  }
+
+  //when {@param vehicleId} is removed its rider falls back to their first remaining vehicle
+  public async release(vehicleId: any): Promise<void> {
+    await datasources.riderDAOService.updateByAny({ activeVehicle: vehicleId }, { activeVehicle: null });
+  }
+}
+
+export default RiderVehicleService;
@@ -0,0 +1,55 @@
+import { Server, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import dataStore from '../config/dataStore';
+import { USER_ROOM_PREFIX } from '../config/constants';
+import AppLogger from '../utils/AppLogger';
+import { appCommonTypes } from '../@types/app-common';
+import SocketUser = appCommonTypes.SocketUser;
+
+const logger = AppLogger.init('server').logger;
+
+//shared by every instance, there is one socket server per process
+let io: Server<any, any, any, any> | null = null;
+
+/**
+ * @name SocketGatewayService
+ * @desc Routes socket events to users wherever they are connected. Every socket
+ * @desc joins the room of its user and the rooms are shared between nodes through
+ * @desc the Redis adapter, so any service on any node can emit to any user.
+ */
+class SocketGatewayService {
+
+  public attach(server: Server<any, any, any, any>): void {
+    const pubClient = dataStore.init();
+    const subClient = pubClient.duplicate();
+
+    server.adapter(createAdapter(pubClient, subClient));
+
+    io = server;
+  }
+
+  public server(): Server<any, any, any, any> | null {
+    return io;
+  }
+
+  public async join(socket: Socket<any, any, any, any>): Promise<void> {
+    const { userId } = socket.data as SocketUser;
+
+    await socket.join(this.room(userId));
+  }
+
+  public emitToUser(userId: any, event: string, payload: any): void {
+    if (!io) {
+      logger.error(`Socket server is not running, ${event} was not sent to ${userId}`);
+      return;
+    }
+
+    io.to(this.room(`${userId}`)).emit(event, payload);
+  }
+
+  private room(userId: string): string {
+    return `${USER_ROOM_PREFIX}${userId}`;
+  }
+}
+
+export default SocketGatewayService;
@@ -0,0 +1,179 @@
+import datasources from './dao';
+import NotificationInboxService from './NotificationInboxService';
+import VehicleDocument, { IVehicleDocumentModel } from '../models/VehicleDocument';
+import { IVehicleModel } from '../models/Vehicle';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import {
+  NOTIFICATION_VEHICLE_DOCUMENT_EXPIRED,
+  NOTIFICATION_VEHICLE_DOCUMENT_REJECTED,
+  NOTIFICATION_VEHICLE_DOCUMENT_VERIFIED,
+  VEHICLE_DOCUMENT_PENDING,
+  VEHICLE_DOCUMENT_REJECTED,
+  VEHICLE_DOCUMENT_SUPERSEDED,
+  VEHICLE_DOCUMENT_TYPES,
+  VEHICLE_DOCUMENT_VERIFIED
+} from '../config/constants';
+
+const notificationInboxService = new NotificationInboxService();
+
+interface IVehicleDocumentDraft {
+  type: string,
+  documentNumber: string,
+  issuedDate: Date,
+  expiryDate: Date,
+  documentUrl: string
+}
+
+/**
+ * @name VehicleDocumentService
+ * @desc The insurance, roadworthiness and registration papers of each vehicle.
+ * @desc A rider uploads them, an admin verifies or rejects them, and a vehicle
+ * @desc is only matched to deliveries while every VEHICLE_DOCUMENT_TYPES is
+ * @desc verified and not expired. A verified document stays in use until its
+ * @desc renewal is verified, it is then kept as superseded.
+ */
+class VehicleDocumentService {
+
+  /**
+   * @name upload
+   * @desc stores {@param draft} for verification as the document of its
+   * @desc type for {@param vehicle}, replacing an upload that is still pending
+   * @desc or was rejected, the verified one is left in use
+   */
+  public async upload(vehicle: IVehicleModel, draft: IVehicleDocumentDraft): Promise<IVehicleDocumentModel | null> {
+    if (new Date(draft.issuedDate) > new Date(draft.expiryDate))
+      throw CustomAPIError.response('Document issued date can not be greater than expiry date', HttpStatus.BAD_REQUEST.code);
+
+    if (new Date(draft.expiryDate) <= new Date())
+      throw CustomAPIError.response('Document has already expired', HttpStatus.BAD_REQUEST.code);
+
+    return datasources.vehicleDocumentDAOService.updateByAny(
+      { vehicle: vehicle._id, type: draft.type, status: { $in: [VEHICLE_DOCUMENT_PENDING, VEHICLE_DOCUMENT_REJECTED] } },
+      {
+        ...draft,
+        rider: vehicle.rider,
+        status: VEHICLE_DOCUMENT_PENDING,
+        isExpired: false,
+        verifiedBy: null,
+        verifiedAt: null,
+        reason: null
+      },
+      { upsert: true }
+    );
+  }
+
+  public async documentsOf(vehicleId: any): Promise<IVehicleDocumentModel[]> {
+    return datasources.vehicleDocumentDAOService.findAll(
+      { vehicle: vehicleId, status: { $ne: VEHICLE_DOCUMENT_SUPERSEDED } },
+      { sort: { type: 1 } }
+    );
+  }
+
+  //documents waiting for an admin, oldest upload first
+  public async pending(): Promise<IVehicleDocumentModel[]> {
+    return datasources.vehicleDocumentDAOService.findAll(
+      { status: VEHICLE_DOCUMENT_PENDING },
+      { sort: { updatedAt: 1 } }
+    );
+  }
+
+  public async verify(documentId: string, adminId: any): Promise<IVehicleDocumentModel> {
+    const document = await this.decide(documentId, {
+      status: VEHICLE_DOCUMENT_VERIFIED,
+      verifiedBy: adminId,
+      verifiedAt: new Date(),
+      reason: null
+    });
+
+    await VehicleDocument.updateMany(
+      { vehicle: document.vehicle, type: document.type, status: VEHICLE_DOCUMENT_VERIFIED, _id: { $ne: document._id } },
+      { status: VEHICLE_DOCUMENT_SUPERSEDED }
+    );
+
+    await notificationInboxService.notify({ id: document.rider, type: 'rider' }, {
+      type: NOTIFICATION_VEHICLE_DOCUMENT_VERIFIED,
+      title: 'Vehicle document verified',
+      body: `Your vehicle ${document.type} was verified.`,
+      data: { vehicleDocumentId: document._id, vehicleId: document.vehicle }
+    });
+
+    return document;
+  }
+
+  public async reject(documentId: string, adminId: any, reason: string): Promise<IVehicleDocumentModel> {
+    const document = await this.decide(documentId, {
+      status: VEHICLE_DOCUMENT_REJECTED,
+      verifiedBy: adminId,
+      verifiedAt: new Date(),
+      reason
+    });
+
+    await notificationInboxService.notify({ id: document.rider, type: 'rider' }, {
+      type: NOTIFICATION_VEHICLE_DOCUMENT_REJECTED,
+      title: 'Vehicle document rejected',
+      body: `Your vehicle ${document.type} was rejected: ${reason}`,
+      data: { vehicleDocumentId: document._id, vehicleId: document.vehicle, reason }
+    });
+
+    return document;
+  }
+
+  //true when every required document of {@param vehicleId} is verified and still valid on {@param at}
+  public async isCompliant(vehicleId: any, at: Date = new Date()): Promise<boolean> {
+    const documents = await datasources.vehicleDocumentDAOService.findAll({
+      vehicle: vehicleId,
+      status: VEHICLE_DOCUMENT_VERIFIED,
+      isExpired: { $ne: true },
+      expiryDate: { $gt: at }
+    });
+
+    return VEHICLE_DOCUMENT_TYPES.every(type => documents.some(document => document.type === type));
+  }
+
+  /**
+   * @name expire
+   * @desc flags the documents that expired since the last run and tells
+   * @desc their riders, run by the daily license expiry job
+   */
+  public async expire(now: Date = new Date()) {
+    const documents = await datasources.vehicleDocumentDAOService.findAll(
+      { expiryDate: { $lte: now }, isExpired: { $ne: true }, status: { $ne: VEHICLE_DOCUMENT_SUPERSEDED } }
+    );
+    if (!documents.length) return [];
+
+    const ids = documents.map(document => document._id);
+    await VehicleDocument.updateMany({ _id: { $in: ids } }, { isExpired: true });
+
+    for (const document of documents)
+      await notificationInboxService.notify({ id: document.rider, type: 'rider' }, {
+        type: NOTIFICATION_VEHICLE_DOCUMENT_EXPIRED,
+        title: 'Vehicle document expired',
+        body: `Your vehicle ${document.type} has expired, upload the renewed one to keep receiving deliveries.`,
+        data: { vehicleDocumentId: document._id, vehicleId: document.vehicle },
+        dedupeKey: `vehicle_document_expired:${document._id}:${+new Date(document.expiryDate)}`
+      });
+
+    return ids;
+  }
+
+  //only a pending document can be decided, a decided one is uploaded again first
+  private async decide(documentId: string, update: Partial<IVehicleDocumentModel>): Promise<IVehicleDocumentModel> {
+    const document = await datasources.vehicleDocumentDAOService.updateByAny(
+      { _id: documentId, status: VEHICLE_DOCUMENT_PENDING },
+      update
+    );
+
+    if (!document) {
+      const exists = await datasources.vehicleDocumentDAOService.findById(documentId);
+      if (!exists)
+        throw CustomAPIError.response('Vehicle document not found', HttpStatus.NOT_FOUND.code);
+
+      throw CustomAPIError.response(`Vehicle document is already ${exists.status}`, HttpStatus.BAD_REQUEST.code);
+    }
+
+    return document;
+  }
+}
+
+export default VehicleDocumentService;
@@ -0,0 +1,332 @@
+import { FilterQuery, QueryOptions, UpdateQuery } from 'mongoose';
+import datasources from './dao';
+import LedgerEntry from '../models/LedgerEntry';
+import { ILedgerJournalModel } from '../models/LedgerJournal';
+import CustomAPIError from '../exceptions/CustomAPIError';
+import HttpStatus from '../helpers/HttpStatus';
+import {
+  LEDGER_CREDIT,
+  LEDGER_CUSTOMER_WALLET,
+  LEDGER_DEBIT,
+  LEDGER_DELIVERY_ESCROW,
+  LEDGER_JOURNAL_APPLIED,
+  LEDGER_JOURNAL_LOCK_MS,
+  LEDGER_JOURNAL_PENDING,
+  LEDGER_PAYMENT_GATEWAY,
+  LEDGER_PLATFORM_FEES,
+  LEDGER_RIDER_PAYOUT,
+  LEDGER_RIDER_WALLET
+} from '../config/constants';
+import { IDeliveryModel } from '../models/Delivery';
+import { IWalletModel } from '../models/Wallet';
+import { IRiderWalletModel } from '../models/RiderWallet';
+import { ILedgerEntryModel } from '../models/LedgerEntry';
+import AppLogger from '../utils/AppLogger';
+import { appModelTypes } from '../@types/app-model';
+import ILedgerLine = appModelTypes.ILedgerLine;
+import IRefundAssessment = appModelTypes.IRefundAssessment;
+
+const logger = AppLogger.init('server').logger;
+
+const WALLET_ACCOUNTS = [LEDGER_CUSTOMER_WALLET, LEDGER_RIDER_WALLET];
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * @name WalletLedgerService
+ * @desc Every movement of money is posted here as a balanced journal of
+ * @desc debit and credit entries. A journal key is posted at most once, so
+ * @desc retried requests do not move money twice. Customer and rider wallet
+ * @desc balances are only changed with $inc, and a debit only succeeds while
+ * @desc the wallet holds enough to cover it. A journal is stored pending
+ * @desc before any wallet is touched and marked applied once every wallet and
+ * @desc entry is written, a journal left pending is finished by a later post
+ * @desc of the same key or by finishPending.
+ */
+class WalletLedgerService {
+
+  public async fundCustomerWallet(customerId: any, amount: number, reference: string): Promise<IWalletModel | null> {
+    await this.post(`wallet_funding:${reference}`, reference, 'Wallet funding', [
+      { account: LEDGER_PAYMENT_GATEWAY, owner: null, direction: LEDGER_DEBIT, amount },
+      { account: LEDGER_CUSTOMER_WALLET, owner: customerId, direction: LEDGER_CREDIT, amount }
+    ]);
+
+    return datasources.walletDAOService.findByAny({ customer: customerId });
+  }
+
+  /**
+   * @name payForDelivery
+   * @desc moves the delivery fee from the customer wallet into
+   * @desc escrow until the delivery is completed or canceled
+   */
+  public async payForDelivery(customerId: any, delivery: IDeliveryModel): Promise<IWalletModel | null> {
+    const amount = delivery.deliveryFee;
+
+    await this.post(`delivery_payment:${delivery.deliveryRefNumber}`, delivery.deliveryRefNumber, 'Delivery payment', [
+      { account: LEDGER_CUSTOMER_WALLET, owner: customerId, direction: LEDGER_DEBIT, amount },
+      { account: LEDGER_DELIVERY_ESCROW, owner: null, direction: LEDGER_CREDIT, amount }
+    ]);
+
+    return datasources.walletDAOService.findByAny({ customer: customerId });
+  }
+
+  /**
+   * @name refundDelivery
+   * @desc releases what the delivery holds in escrow as set out in
+   * @desc {@param assessment}: the refund goes to the customer wallet, the
+   * @desc cancellation fee to the platform and the compensation to the rider
+   */
+  public async refundDelivery(customerId: any, delivery: IDeliveryModel, assessment: IRefundAssessment): Promise<void> {
+    const { escrow, refund, cancellationFee, riderCompensation, rider } = assessment;
+    if (escrow <= 0) return;
+
+    const lines: ILedgerLine[] = [
+      { account: LEDGER_DELIVERY_ESCROW, owner: null, direction: LEDGER_DEBIT, amount: escrow },
+      { account: LEDGER_CUSTOMER_WALLET, owner: customerId, direction: LEDGER_CREDIT, amount: refund },
+      { account: LEDGER_PLATFORM_FEES, owner: null, direction: LEDGER_CREDIT, amount: cancellationFee },
+      { account: LEDGER_RIDER_WALLET, owner: rider, direction: LEDGER_CREDIT, amount: riderCompensation }
+    ];
+
+    await this.post(
+      `delivery_refund:${delivery.deliveryRefNumber}`,
+      delivery.deliveryRefNumber,
+      'Delivery refund',
+      lines.filter(line => line.direction === LEDGER_DEBIT || line.amount > 0)
+    );
+  }
+
+  /**
+   * @name settleDelivery
+   * @desc releases the delivery fee to the rider wallet and the platform
+   * @desc fee account, never more than the delivery holds in escrow
+   */
+  public async settleDelivery(riderId: any, delivery: IDeliveryModel, riderFee: number, adminFee: number): Promise<void> {
+    const escrow = Math.max(await this.escrowBalance(delivery.deliveryRefNumber), 0);
+
+    const riderShare = Math.min(riderFee, escrow);
+    const adminShare = Math.min(adminFee, escrow - riderShare);
+    if (riderShare + adminShare <= 0) {
+      logger.info(`Delivery ${delivery.deliveryRefNumber} holds nothing in escrow to settle`);
+      return;
+    }
+
+    await this.post(`delivery_settlement:${delivery.deliveryRefNumber}`, delivery.deliveryRefNumber, 'Delivery settlement', [
+      { account: LEDGER_DELIVERY_ESCROW, owner: null, direction: LEDGER_DEBIT, amount: riderShare + adminShare },
+      { account: LEDGER_RIDER_WALLET, owner: riderId, direction: LEDGER_CREDIT, amount: riderShare },
+      { account: LEDGER_PLATFORM_FEES, owner: null, direction: LEDGER_CREDIT, amount: adminShare }
+    ].filter(line => line.direction === LEDGER_DEBIT || line.amount > 0));
+  }
+
+  public async requestRiderPayout(riderId: any, amount: number, reference: string): Promise<IRiderWalletModel | null> {
+    await this.post(`rider_payout:${reference}`, reference, 'Rider payout request', [
+      { account: LEDGER_RIDER_WALLET, owner: riderId, direction: LEDGER_DEBIT, amount },
+      { account: LEDGER_RIDER_PAYOUT, owner: riderId, direction: LEDGER_CREDIT, amount }
+    ]);
+
+    return datasources.riderWalletDAOService.findByAny({ rider: riderId });
+  }
+
+  /**
+   * @name reverseRiderPayout
+   * @desc returns a payout that failed or was reversed
+   * @desc by the payment gateway to the rider wallet
+   */
+  public async reverseRiderPayout(riderId: any, amount: number, reference: string): Promise<IRiderWalletModel | null> {
+    await this.post(`rider_payout_reversal:${reference}`, reference, 'Rider payout reversal', [
+      { account: LEDGER_RIDER_PAYOUT, owner: riderId, direction: LEDGER_DEBIT, amount },
+      { account: LEDGER_RIDER_WALLET, owner: riderId, direction: LEDGER_CREDIT, amount }
+    ]);
+
+    return datasources.riderWalletDAOService.findByAny({ rider: riderId });
+  }
+
+  /**
+   * @name balance
+   * @desc balance of an account derived from its entries,
+   * @desc credits less debits
+   */
+  public async balance(account: string, owner: any = null): Promise<number> {
+    const entries = await datasources.ledgerEntryDAOService.findAll({ account, owner });
+
+    return this.sum(entries);
+  }
+
+  public async escrowBalance(deliveryRefNumber: string): Promise<number> {
+    const entries = await datasources.ledgerEntryDAOService.findAll({
+      account: LEDGER_DELIVERY_ESCROW,
+      reference: deliveryRefNumber
+    });
+
+    return this.sum(entries);
+  }
+
+  /**
+   * @name finishPending
+   * @desc applies the journals a post left pending, e.g. when the process
+   * @desc stopped half way, a journal that can not be covered is dropped
+   */
+  public async finishPending(): Promise<void> {
+    const journals = await datasources.ledgerJournalDAOService.findAll({
+      status: LEDGER_JOURNAL_PENDING,
+      lockedUntil: { $lte: new Date() }
+    });
+
+    for (const journal of journals) {
+      try {
+        const claimed = await this.claim(journal);
+        if (claimed) await this.apply(claimed);
+      } catch (error: any) {
+        logger.error(`Ledger journal ${journal.journal} was not applied: ${error.message}`);
+      }
+    }
+  }
+
+  private async post(journal: string, reference: string, description: string, lines: ILedgerLine[]): Promise<void> {
+    const debits = lines.filter(line => line.direction === LEDGER_DEBIT).reduce((total, line) => total + line.amount, 0);
+    const credits = lines.filter(line => line.direction === LEDGER_CREDIT).reduce((total, line) => total + line.amount, 0);
+
+    if (Math.abs(debits - credits) > 0.001)
+      throw CustomAPIError.response(`Journal ${journal} is not balanced`, HttpStatus.INTERNAL_SERVER_ERROR.code);
+
+    if (lines.some(line => !(line.amount >= 0)))
+      throw CustomAPIError.response(`Journal ${journal} has an invalid amount`, HttpStatus.BAD_REQUEST.code);
+
+    //claim the journal first, the one who stores it applies it
+    let posted: ILedgerJournalModel | null;
+    try {
+      posted = await datasources.ledgerJournalDAOService.create({
+        journal,
+        reference,
+        description,
+        lines,
+        status: LEDGER_JOURNAL_PENDING,
+        lockedUntil: new Date(Date.now() + LEDGER_JOURNAL_LOCK_MS)
+      } as unknown as ILedgerJournalModel);
+    } catch (error: any) {
+      if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+
+      //posted before, done only once it was applied, otherwise finished here
+      const existing = await datasources.ledgerJournalDAOService.findByAny({ journal });
+      if (existing?.status === LEDGER_JOURNAL_APPLIED) return;
+
+      posted = existing && await this.claim(existing);
+      if (!posted)
+        throw CustomAPIError.response('Payment is being processed, please try again.', HttpStatus.BAD_REQUEST.code);
+    }
+
+    await this.apply(posted);
+  }
+
+  //takes the lock of a pending journal whose previous lock has run out
+  private async claim(journal: ILedgerJournalModel): Promise<ILedgerJournalModel | null> {
+    return datasources.ledgerJournalDAOService.updateByAny(
+      { _id: journal._id, status: LEDGER_JOURNAL_PENDING, lockedUntil: { $lte: new Date() } },
+      { lockedUntil: new Date(Date.now() + LEDGER_JOURNAL_LOCK_MS) }
+    );
+  }
+
+  /**
+   * @name apply
+   * @desc writes a pending journal to the wallets and the entries, each
+   * @desc wallet keeps the key of the journal it took until the journal is
+   * @desc applied so a wallet is never changed twice by a retry
+   */
+  private async apply(posted: ILedgerJournalModel): Promise<void> {
+    const { journal, reference, description } = posted;
+    const lines: ILedgerLine[] = posted.lines.map(({ account, owner, direction, amount }) => ({ account, owner, direction, amount }));
+    const walletLines = lines.filter(line => WALLET_ACCOUNTS.includes(line.account));
+
+    const applied: ILedgerLine[] = [];
+
+    for (const line of walletLines) {
+      const wallet = await this.applyToWallet(journal, line);
+
+      if (!wallet) {
+        //undo what was applied so the journal can be posted again later
+        for (const done of applied)
+          await this.revertFromWallet(journal, done);
+
+        await datasources.ledgerJournalDAOService.deleteById(posted._id);
+
+        throw CustomAPIError.response('Wallet is low on cash, please fund wallet.', HttpStatus.BAD_REQUEST.code);
+      }
+
+      applied.push(line);
+    }
+
+    await this.writeEntries(lines.map((line, index) => ({
+      ...line,
+      line: index,
+      journal,
+      reference,
+      description
+    })));
+
+    await datasources.ledgerJournalDAOService.updateByAny(
+      { _id: posted._id, status: LEDGER_JOURNAL_PENDING },
+      { status: LEDGER_JOURNAL_APPLIED, appliedAt: new Date() }
+    );
+
+    for (const line of walletLines)
+      await this.walletOf(line, {}, { $pull: { pendingJournals: journal } });
+  }
+
+  //the ledger is append only, lines an earlier attempt already wrote are left as they are
+  private async writeEntries(entries: object[]): Promise<void> {
+    try {
+      await LedgerEntry.insertMany(entries, { ordered: false });
+    } catch (error: any) {
+      const errors = error.writeErrors ?? [error];
+      if (!errors.every((writeError: any) => writeError.code === DUPLICATE_KEY_ERROR)) throw error;
+    }
+  }
+
+  private async applyToWallet(journal: string, line: ILedgerLine): Promise<IWalletModel | IRiderWalletModel | null> {
+    //taken by an attempt that stopped before the journal was applied
+    const taken = await this.walletOf(line, { pendingJournals: journal });
+    if (taken) return taken;
+
+    const isDebit = line.direction === LEDGER_DEBIT;
+    const guard = isDebit ? { balance: { $gte: line.amount } } : {};
+
+    return this.walletOf(
+      line,
+      guard,
+      { $inc: { balance: isDebit ? -line.amount : line.amount }, $push: { pendingJournals: journal } },
+      { upsert: !isDebit }
+    );
+  }
+
+  private async revertFromWallet(journal: string, line: ILedgerLine): Promise<void> {
+    await this.walletOf(
+      line,
+      { pendingJournals: journal },
+      { $inc: { balance: line.direction === LEDGER_DEBIT ? line.amount : -line.amount }, $pull: { pendingJournals: journal } }
+    );
+  }
+
+  //reads the wallet {@param line} moves, or updates it when {@param update} is given
+  private async walletOf(
+    line: ILedgerLine,
+    filter: FilterQuery<any>,
+    update?: UpdateQuery<any>,
+    options?: QueryOptions
+  ): Promise<IWalletModel | IRiderWalletModel | null> {
+    if (line.account === LEDGER_CUSTOMER_WALLET)
+      return update
+        ? datasources.walletDAOService.updateByAny({ customer: line.owner, ...filter }, update, options)
+        : datasources.walletDAOService.findByAny({ customer: line.owner, ...filter });
+
+    return update
+      ? datasources.riderWalletDAOService.updateByAny({ rider: line.owner, ...filter }, update, options)
+      : datasources.riderWalletDAOService.findByAny({ rider: line.owner, ...filter });
+  }
+
+  private sum(entries: ILedgerEntryModel[]): number {
+    return entries.reduce(
+      (total, entry) => entry.direction === LEDGER_CREDIT ? total + entry.amount : total - entry.amount,
+      0
+    );
+  }
+}
+
+export default WalletLedgerService;
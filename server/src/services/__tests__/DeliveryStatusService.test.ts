@@ -0,0 +1,128 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const deliveries: any[] = [];
+const events: any[] = [];
+
+//runs between the read and the write of a transition, to play a concurrent request
+let afterRead: (() => void) | null = null;
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    deliveryDAOService: {
+      findById: async (id: string) => {
+        const delivery = deliveries.find(d => d._id === id);
+        const read = delivery ? { ...delivery } : null;
+
+        afterRead?.();
+        return read;
+      },
+      //only matches while the delivery is still in the status it was read in, like the real filter
+      updateByAny: async (filter: any, update: any) => {
+        const delivery = deliveries.find(d => d._id === filter._id && d.status === filter.status);
+        if (!delivery) return null;
+
+        return Object.assign(delivery, update);
+      }
+    },
+    deliveryEventDAOService: {
+      create: async (event: any) => {
+        events.push(event);
+        return event;
+      }
+    }
+  }
+}));
+
+describe('DeliveryStatusService', () => {
+  let service: any;
+  let constants: any;
+
+  beforeAll(async () => {
+    const { default: DeliveryStatusService } = await import('../DeliveryStatusService');
+
+    constants = await import('../../config/constants');
+    service = new DeliveryStatusService();
+  });
+
+  beforeEach(() => {
+    deliveries.length = 0;
+    events.length = 0;
+    afterRead = null;
+  });
+
+  it('only allows the moves listed in the transition table', () => {
+    const { PENDING, PAID, RIDER_REQUESTED, ON_TRANSIT, DELIVERED, CANCELED } = constants;
+
+    expect(service.canTransition(PENDING, PAID)).toBe(true);
+    expect(service.canTransition(PAID, RIDER_REQUESTED)).toBe(true);
+    expect(service.canTransition(RIDER_REQUESTED, PAID)).toBe(true);
+    expect(service.canTransition(ON_TRANSIT, DELIVERED)).toBe(true);
+
+    expect(service.canTransition(PENDING, RIDER_REQUESTED)).toBe(false);
+    expect(service.canTransition(ON_TRANSIT, CANCELED)).toBe(false);
+    expect(service.canTransition(DELIVERED, CANCELED)).toBe(false);
+    expect(service.canTransition(CANCELED, PAID)).toBe(false);
+    expect(service.canTransition('unknown', PAID)).toBe(false);
+  });
+
+  it('moves the delivery and records the event with its actor', async () => {
+    const { PAID, RIDER_REQUESTED, ACTOR_RIDER } = constants;
+    deliveries.push({ _id: 'delivery-1', deliveryRefNumber: 'REF-1', status: PAID });
+
+    const updated = await service.transition('delivery-1', {
+      to: RIDER_REQUESTED,
+      actor: 'rider-1',
+      actorType: ACTOR_RIDER,
+      location: [3.35, 6.6]
+    }, { rider: 'rider-1' });
+
+    expect(updated).toMatchObject({ status: RIDER_REQUESTED, rider: 'rider-1' });
+    expect(events).toEqual([expect.objectContaining({
+      delivery: 'delivery-1',
+      fromStatus: PAID,
+      toStatus: RIDER_REQUESTED,
+      actor: 'rider-1',
+      actorType: ACTOR_RIDER,
+      location: { type: 'Point', coordinates: [3.35, 6.6] }
+    })]);
+  });
+
+  it('records the system as the actor when none is given', async () => {
+    const { PENDING, PAID, ACTOR_SYSTEM } = constants;
+    deliveries.push({ _id: 'delivery-1', deliveryRefNumber: 'REF-1', status: PENDING });
+
+    await service.transition('delivery-1', { to: PAID });
+
+    expect(events[0]).toMatchObject({ actor: null, actorType: ACTOR_SYSTEM });
+  });
+
+  it('refuses a move the table does not allow and writes nothing', async () => {
+    const { ON_TRANSIT, CANCELED } = constants;
+    deliveries.push({ _id: 'delivery-1', deliveryRefNumber: 'REF-1', status: ON_TRANSIT });
+
+    await expect(service.transition('delivery-1', { to: CANCELED }))
+      .rejects.toThrow(`Delivery can not move from ${ON_TRANSIT} to ${CANCELED}`);
+
+    expect(deliveries[0].status).toBe(ON_TRANSIT);
+    expect(events).toHaveLength(0);
+  });
+
+  it('refuses the move when another request changed the status first', async () => {
+    const { PAID, RIDER_REQUESTED, CANCELED } = constants;
+    deliveries.push({ _id: 'delivery-1', deliveryRefNumber: 'REF-1', status: PAID });
+    afterRead = () => { deliveries[0].status = CANCELED; };
+
+    await expect(service.transition('delivery-1', { to: RIDER_REQUESTED }))
+      .rejects.toThrow('Delivery status was changed by another request, please try again.');
+
+    expect(deliveries[0].status).toBe(CANCELED);
+    expect(events).toHaveLength(0);
+  });
+
+  it('fails on an unknown delivery', async () => {
+    const { PAID } = constants;
+
+    await expect(service.transition('missing', { to: PAID })).rejects.toThrow('Delivery not found.');
+  });
+});
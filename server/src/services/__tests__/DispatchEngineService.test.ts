@@ -0,0 +1,201 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+//the redis keys of the dispatch sessions, stored as the JSON redis would hold
+const store = new Map<string, string>();
+const scheduled: any[] = [];
+const inbox: any[] = [];
+
+jest.mock('../RedisService', () => ({
+  __esModule: true,
+  default: class {
+    async saveToken(key: string, data: any) {
+      store.set(key, data);
+    }
+
+    async getToken(key: string) {
+      const data = store.get(key);
+      return data ? JSON.parse(data) : null;
+    }
+
+    async deleteRedisKey(key: string) {
+      store.delete(key);
+      return null;
+    }
+  }
+}));
+
+jest.mock('../../config/agenda', () => ({
+  __esModule: true,
+  default: {
+    schedule: async (when: Date, name: string, data: any) => {
+      scheduled.push({ when, name, data });
+    },
+    cancel: async (query: any) => {
+      const open = scheduled.filter(job => job.name !== query.name || job.data.deliveryRefNumber !== query['data.deliveryRefNumber']);
+      scheduled.splice(0, scheduled.length, ...open);
+    }
+  }
+}));
+
+jest.mock('../NotificationInboxService', () => ({
+  __esModule: true,
+  default: class {
+    async notify(recipient: any, notification: any) {
+      inbox.push({ recipient, ...notification });
+    }
+  }
+}));
+
+describe('DispatchEngineService', () => {
+  let engine: any;
+  let sessions: any;
+  let rabbitMq: any;
+  let constants: any;
+
+  const candidate = (riderId: string) => ({
+    riderId,
+    riderFirstName: `Rider ${riderId}`,
+    riderPhoto: '',
+    arrivalTime: 'Rider will arrive in 5min',
+    arrivalMinutes: 5,
+    distance: 500
+  });
+
+  const openSession = async (riderIds: string[]) => {
+    const [first] = riderIds;
+
+    return sessions.open({
+      customerId: 'customer-1',
+      deliveryId: 'delivery-1',
+      deliveryRefNumber: 'REF-1',
+      riderId: first,
+      riderFirstName: `Rider ${first}`
+    }, riderIds.map(candidate));
+  };
+
+  beforeAll(async () => {
+    const { default: DispatchEngineService } = await import('../DispatchEngineService');
+    const { default: DispatchSessionService } = await import('../DispatchSessionService');
+
+    constants = await import('../../config/constants');
+    sessions = new DispatchSessionService();
+
+    rabbitMq = {
+      offers: [] as any[],
+      customerMessages: [] as any[],
+      riderMessages: [] as any[],
+      async assignPackageToDriver(session: any) {
+        this.offers.push(session);
+        await engine.watchOffer(session);
+      },
+      notifyCustomer(customerId: string, event: string, data: any) {
+        this.customerMessages.push({ customerId, event, data });
+      },
+      async sendNotificationToDriver(riderId: string, data: any, type: string) {
+        this.riderMessages.push({ riderId, data, type });
+      }
+    };
+
+    engine = new DispatchEngineService(rabbitMq);
+  });
+
+  beforeEach(() => {
+    store.clear();
+    scheduled.length = 0;
+    inbox.length = 0;
+    rabbitMq.offers.length = 0;
+    rabbitMq.customerMessages.length = 0;
+    rabbitMq.riderMessages.length = 0;
+  });
+
+  it('opens an accept window for the offer that closes with an expiry job', async () => {
+    const { DISPATCH_OFFER_EXPIRY, DISPATCH_REQUESTED } = constants;
+    const session = await openSession(['rider-1', 'rider-2']);
+
+    const offered = await engine.watchOffer(session);
+
+    expect(offered).toMatchObject({ riderId: 'rider-1', status: DISPATCH_REQUESTED });
+    expect(engine.isOfferOpen(offered)).toBe(true);
+    expect(scheduled).toEqual([{
+      when: new Date(offered.offerExpiresAt),
+      name: DISPATCH_OFFER_EXPIRY,
+      data: { deliveryRefNumber: 'REF-1', riderId: 'rider-1' }
+    }]);
+  });
+
+  it('offers the delivery to the next rider when one declines', async () => {
+    await engine.watchOffer(await openSession(['rider-1', 'rider-2', 'rider-3']));
+
+    const offered = await engine.advance('REF-1', 'rider-1');
+
+    expect(offered).toMatchObject({ riderId: 'rider-2', declined: ['rider-1'] });
+    expect(rabbitMq.offers.map((offer: any) => offer.riderId)).toEqual(['rider-2']);
+    expect(scheduled.map(job => job.data.riderId)).toEqual(['rider-2']);
+    expect(await sessions.getByRider('rider-1')).toBeNull();
+    expect(await sessions.getByRider('rider-2')).toMatchObject({ deliveryRefNumber: 'REF-1' });
+  });
+
+  it('never offers the delivery again to a rider who declined it', async () => {
+    await engine.watchOffer(await openSession(['rider-1', 'rider-2', 'rider-3']));
+
+    await engine.advance('REF-1', 'rider-1');
+    await sessions.decline('REF-1', 'rider-3');
+    const offered = await engine.advance('REF-1', 'rider-2');
+
+    expect(offered).toBeNull();
+  });
+
+  it('tells the customer once no rider is left and closes the session', async () => {
+    const { NOTIFICATION_NO_RIDER_FOUND } = constants;
+    await engine.watchOffer(await openSession(['rider-1']));
+
+    const offered = await engine.advance('REF-1', 'rider-1');
+
+    expect(offered).toBeNull();
+    expect(await sessions.get('REF-1')).toBeNull();
+    expect(scheduled).toHaveLength(0);
+    expect(rabbitMq.customerMessages).toEqual([expect.objectContaining({ customerId: 'customer-1', event: 'riderDeclined' })]);
+    expect(inbox).toEqual([expect.objectContaining({ recipient: { id: 'customer-1', type: 'customer' }, type: NOTIFICATION_NO_RIDER_FOUND })]);
+  });
+
+  it('passes an unanswered offer on when its window closes', async () => {
+    const { NOTIFICATION_OFFER_EXPIRED } = constants;
+    await engine.watchOffer(await openSession(['rider-1', 'rider-2']));
+
+    await engine.expireOffer('REF-1', 'rider-1');
+
+    expect(rabbitMq.riderMessages).toEqual([expect.objectContaining({ riderId: 'rider-1', type: NOTIFICATION_OFFER_EXPIRED })]);
+    expect(await sessions.get('REF-1')).toMatchObject({ riderId: 'rider-2', declined: ['rider-1'] });
+  });
+
+  it('leaves an offer alone that was accepted or passed on before its window closed', async () => {
+    const { DISPATCH_ACCEPTED, DISPATCH_REQUESTED } = constants;
+    await engine.watchOffer(await openSession(['rider-1', 'rider-2']));
+    await sessions.transition('REF-1', [DISPATCH_REQUESTED], DISPATCH_ACCEPTED);
+
+    await engine.expireOffer('REF-1', 'rider-1');
+    await engine.expireOffer('REF-1', 'rider-2');
+
+    expect(rabbitMq.riderMessages).toHaveLength(0);
+    expect(await sessions.get('REF-1')).toMatchObject({ riderId: 'rider-1', status: DISPATCH_ACCEPTED, declined: [] });
+  });
+
+  it('offers a released delivery to the next rider and not to the one who released it', async () => {
+    const { DISPATCH_ACCEPTED, DISPATCH_REQUESTED } = constants;
+    await engine.watchOffer(await openSession(['rider-1', 'rider-2']));
+    await sessions.transition('REF-1', [DISPATCH_REQUESTED], DISPATCH_ACCEPTED);
+
+    const offered = await engine.release('REF-1', 'rider-1');
+
+    expect(offered).toMatchObject({ riderId: 'rider-2', status: DISPATCH_REQUESTED, declined: ['rider-1'] });
+  });
+
+  it('refuses to open a new session over one a rider accepted', async () => {
+    const { DISPATCH_ACCEPTED, DISPATCH_REQUESTED } = constants;
+    await engine.watchOffer(await openSession(['rider-1', 'rider-2']));
+    await sessions.transition('REF-1', [DISPATCH_REQUESTED], DISPATCH_ACCEPTED);
+
+    await expect(openSession(['rider-2'])).rejects.toThrow('A rider is already handling this delivery');
+    expect(await sessions.get('REF-1')).toMatchObject({ riderId: 'rider-1', status: DISPATCH_ACCEPTED });
+  });
+});
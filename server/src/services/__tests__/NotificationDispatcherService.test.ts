@@ -0,0 +1,77 @@
+import { afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+
+process.env.NOTIFICATION_DRIVER = 'fake';
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    notificationPreferenceDAOService: { findByAny: async () => null },
+    riderDAOService: { findById: async (id: string) => ({ _id: id, phone: '+2348000000000', email: 'rider@example.com' }) }
+  }
+}));
+
+//only the fake channels are used, the live ones would reach out to the network
+jest.mock('../channels/SocketChannel', () => ({ __esModule: true, default: class {} }));
+jest.mock('../channels/PushChannel', () => ({ __esModule: true, default: class {} }));
+jest.mock('../channels/SmsChannel', () => ({ __esModule: true, default: class {} }));
+jest.mock('../channels/EmailChannel', () => ({ __esModule: true, default: class {} }));
+
+describe('NotificationDispatcherService', () => {
+  let dispatcher: any;
+  let fakeOutbox: any[];
+  let settings: any;
+  let NOTIFICATION_DELIVERY_OFFER: string;
+
+  const rider = { id: 'rider-1', type: 'rider' as const };
+  const message = { title: 'New Delivery Request', body: 'You have a new delivery request.' };
+
+  beforeAll(async () => {
+    const { default: NotificationDispatcherService } = await import('../NotificationDispatcherService');
+
+    ({ fakeOutbox } = await import('../channels/FakeChannel'));
+    ({ default: settings } = await import('../../config/settings'));
+    ({ NOTIFICATION_DELIVERY_OFFER } = await import('../../config/constants'));
+
+    dispatcher = new NotificationDispatcherService();
+  });
+
+  afterEach(() => {
+    fakeOutbox.length = 0;
+    settings.notification.fakeFailing = [];
+  });
+
+  it('does not push or text a rider the socket reached', async () => {
+    const sent = await dispatcher.dispatch(rider, NOTIFICATION_DELIVERY_OFFER, message);
+
+    expect(sent).toEqual(['socket']);
+    expect(fakeOutbox.map(delivery => delivery.channel)).toEqual(['socket']);
+  });
+
+  it('pushes the offer when the socket did not get through', async () => {
+    settings.notification.fakeFailing = ['socket'];
+
+    const sent = await dispatcher.dispatch(rider, NOTIFICATION_DELIVERY_OFFER, message);
+
+    expect(sent).toEqual(['push']);
+    expect(fakeOutbox.map(delivery => delivery.channel)).toEqual(['push']);
+  });
+
+  it('falls back from push to sms', async () => {
+    settings.notification.fakeFailing = ['socket', 'push'];
+
+    const sent = await dispatcher.dispatch(rider, NOTIFICATION_DELIVERY_OFFER, message);
+
+    expect(sent).toEqual(['sms']);
+    expect(fakeOutbox).toHaveLength(1);
+    expect(fakeOutbox[0]).toMatchObject({ channel: 'sms', recipient: { id: 'rider-1', type: 'rider' }, message });
+  });
+
+  it('gives up when no channel gets through', async () => {
+    settings.notification.fakeFailing = ['socket', 'push', 'sms'];
+
+    const sent = await dispatcher.dispatch(rider, NOTIFICATION_DELIVERY_OFFER, message);
+
+    expect(sent).toEqual([]);
+    expect(fakeOutbox).toHaveLength(0);
+  });
+});
@@ -0,0 +1,216 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import crypto from 'crypto';
+
+process.env.PAYMENT_GW_SECRET_KEY = 'sk_test_secret';
+
+const fundings: any[] = [];
+const reversals: any[] = [];
+const notifications: any[] = [];
+const transactions: any[] = [];
+const customers: any[] = [];
+const paymentRequests: any[] = [];
+
+//a journal is keyed by the reference, so posting it again moves nothing
+jest.mock('../WalletLedgerService', () => ({
+  __esModule: true,
+  default: class {
+    async fundCustomerWallet(customerId: any, amount: number, reference: string) {
+      if (!fundings.some(funding => funding.reference === reference)) fundings.push({ customerId, amount, reference });
+    }
+
+    async reverseRiderPayout(riderId: any, amount: number, reference: string) {
+      if (!reversals.some(reversal => reversal.reference === reference)) reversals.push({ riderId, amount, reference });
+    }
+  }
+}));
+
+jest.mock('../NotificationInboxService', () => ({
+  __esModule: true,
+  default: class {
+    async notify(recipient: any, notification: any) {
+      notifications.push({ recipient, ...notification });
+    }
+  }
+}));
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    transactionDAOService: {
+      findByAny: async ({ reference }: any) => transactions.find(transaction => transaction.reference === reference) || null,
+      updateByAny: async ({ reference }: any, { $set, $setOnInsert }: any) => {
+        let transaction = transactions.find(t => t.reference === reference);
+        if (!transaction) {
+          transaction = { _id: `transaction-${transactions.length + 1}`, reference, ...$setOnInsert };
+          transactions.push(transaction);
+        }
+
+        return Object.assign(transaction, $set);
+      }
+    },
+    customerDAOService: {
+      findByAny: async ({ email }: any) => customers.find(customer => customer.email === email) || null
+    },
+    walletDAOService: { updateByAny: async () => ({}) },
+    paymentRequestDAOService: {
+      findByAny: async ({ transferReference }: any) =>
+        paymentRequests.find(request => request.transferReference === transferReference) || null,
+      updateByAny: async (filter: any, update: any) => {
+        const request = paymentRequests.find(r =>
+          (filter._id ? r._id === filter._id : r.transferReference === filter.transferReference) &&
+          !filter.status?.$nin?.includes(r.status)
+        );
+
+        return request ? Object.assign(request, update) : null;
+      }
+    }
+  }
+}));
+
+describe('PaystackService.verifySignature', () => {
+  let paystack: any;
+
+  const body = Buffer.from(JSON.stringify({ event: 'charge.success', data: { reference: 'PAY-1' } }));
+  const signed = (payload: Buffer, key = 'sk_test_secret') =>
+    crypto.createHmac('sha512', key).update(payload).digest('hex');
+
+  beforeAll(async () => {
+    const { default: PaystackService } = await import('../PaystackService');
+
+    paystack = new PaystackService();
+  });
+
+  it('accepts a body signed with the secret key', () => {
+    expect(paystack.verifySignature(body, signed(body))).toBe(true);
+  });
+
+  it('refuses a body signed with another key or changed after signing', () => {
+    expect(paystack.verifySignature(body, signed(body, 'sk_test_other'))).toBe(false);
+    expect(paystack.verifySignature(Buffer.from(`${body} `), signed(body))).toBe(false);
+  });
+
+  it('refuses a missing body or signature and a signature of the wrong length', () => {
+    expect(paystack.verifySignature(undefined, signed(body))).toBe(false);
+    expect(paystack.verifySignature(body, undefined)).toBe(false);
+    expect(paystack.verifySignature(body, 'abc')).toBe(false);
+  });
+});
+
+describe('PaystackWebhookService', () => {
+  let webhook: any;
+  let constants: any;
+
+  const charge = (data: any) => ({
+    event: constants.PAYSTACK_CHARGE_SUCCESS,
+    data: {
+      reference: 'PAY-1',
+      amount: 500000,
+      currency: 'NGN',
+      status: 'success',
+      customer: { email: 'customer@example.com' },
+      authorization: { channel: 'card', last4: '4081' },
+      ...data
+    }
+  });
+
+  beforeAll(async () => {
+    const { default: PaystackWebhookService } = await import('../PaystackWebhookService');
+
+    constants = await import('../../config/constants');
+    webhook = new PaystackWebhookService();
+  });
+
+  beforeEach(() => {
+    for (const list of [fundings, reversals, notifications, transactions, customers, paymentRequests]) list.length = 0;
+
+    customers.push({ _id: 'customer-1', email: 'customer@example.com' });
+  });
+
+  it('credits the amount of a transaction the app started', async () => {
+    transactions.push({ _id: 'transaction-1', reference: 'PAY-1', amount: 5000, amountCharged: 500000, currency: 'NGN', customer: { _id: 'customer-1' } });
+
+    await webhook.handle(charge({}));
+
+    expect(fundings).toEqual([{ customerId: 'customer-1', amount: 5000, reference: 'PAY-1' }]);
+    expect(transactions[0]).toMatchObject({ status: 'success', channel: 'card', last4: '4081' });
+    expect(notifications[0]).toMatchObject({ recipient: { id: 'customer-1', type: 'customer' }, dedupeKey: 'wallet_funded:PAY-1' });
+  });
+
+  it('does not credit a charge whose amount or currency differs from its transaction', async () => {
+    transactions.push({ _id: 'transaction-1', reference: 'PAY-1', amount: 5000, amountCharged: 500000, currency: 'NGN', customer: { _id: 'customer-1' } });
+
+    await webhook.handle(charge({ amount: 100 }));
+    await webhook.handle(charge({ currency: 'USD' }));
+
+    expect(fundings).toHaveLength(0);
+    expect(notifications).toHaveLength(0);
+    expect(transactions[0].status).toBeUndefined();
+  });
+
+  it('does not credit a transaction that does not know what it charged', async () => {
+    transactions.push({ _id: 'transaction-1', reference: 'PAY-1', amount: 5000, customer: { _id: 'customer-1' } });
+
+    await webhook.handle(charge({}));
+
+    expect(fundings).toHaveLength(0);
+  });
+
+  it('creates the transaction of a charge that lands before the app reports it', async () => {
+    await webhook.handle(charge({}));
+
+    expect(fundings).toEqual([{ customerId: 'customer-1', amount: 5000, reference: 'PAY-1' }]);
+    expect(transactions).toEqual([expect.objectContaining({
+      reference: 'PAY-1',
+      amount: 5000,
+      amountCharged: 500000,
+      type: 'Payment',
+      customer: 'customer-1'
+    })]);
+  });
+
+  it('ignores a charge from an unknown customer or in another currency', async () => {
+    await webhook.handle(charge({ customer: { email: 'stranger@example.com' } }));
+    await webhook.handle(charge({ currency: 'USD' }));
+
+    expect(fundings).toHaveLength(0);
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('credits a charge paystack sends again only once', async () => {
+    await webhook.handle(charge({}));
+    await webhook.handle(charge({}));
+
+    expect(fundings).toHaveLength(1);
+    expect(transactions).toHaveLength(1);
+  });
+
+  it('marks a payout paid once and not after it failed', async () => {
+    const { PAYMENT_DONE, PAYMENT_FAILED, PAYSTACK_TRANSFER_FAILED, PAYSTACK_TRANSFER_SUCCESS } = constants;
+    paymentRequests.push({ _id: 'request-1', transferReference: 'TRF-1', refNumber: 'PR-1', amountRequested: 3000, status: 'pending', rider: { _id: 'rider-1' } });
+
+    await webhook.handle({ event: PAYSTACK_TRANSFER_SUCCESS, data: { reference: 'TRF-1' } });
+    await webhook.handle({ event: PAYSTACK_TRANSFER_SUCCESS, data: { reference: 'TRF-1' } });
+
+    expect(paymentRequests[0].status).toBe(PAYMENT_DONE);
+    expect(notifications).toHaveLength(1);
+
+    paymentRequests[0].status = PAYMENT_FAILED;
+    await webhook.handle({ event: PAYSTACK_TRANSFER_SUCCESS, data: { reference: 'TRF-1' } });
+
+    expect(paymentRequests[0].status).toBe(PAYMENT_FAILED);
+
+    await webhook.handle({ event: PAYSTACK_TRANSFER_FAILED, data: { reference: 'TRF-1' } });
+    expect(reversals).toEqual([{ riderId: 'rider-1', amount: 3000, reference: 'PR-1' }]);
+  });
+
+  it('returns a failed or reversed payout to the rider wallet once', async () => {
+    const { PAYMENT_FAILED, PAYSTACK_TRANSFER_FAILED, PAYSTACK_TRANSFER_REVERSED } = constants;
+    paymentRequests.push({ _id: 'request-1', transferReference: 'TRF-1', refNumber: 'PR-1', amountRequested: 3000, status: 'pending', rider: { _id: 'rider-1' } });
+
+    await webhook.handle({ event: PAYSTACK_TRANSFER_FAILED, data: { reference: 'TRF-1' } });
+    await webhook.handle({ event: PAYSTACK_TRANSFER_REVERSED, data: { reference: 'TRF-1' } });
+
+    expect(reversals).toEqual([{ riderId: 'rider-1', amount: 3000, reference: 'PR-1' }]);
+    expect(paymentRequests[0].status).toBe(PAYMENT_FAILED);
+  });
+});
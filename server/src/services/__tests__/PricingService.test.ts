@@ -0,0 +1,197 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { sign } from 'jsonwebtoken';
+
+process.env.QUOTE_KEY = 'quote-key';
+process.env.JWT_KEY = 'login-key';
+
+const vehicleTypes: any[] = [];
+const fareRules: any[] = [];
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    vehicleTypeDAOService: {
+      findByAny: async ({ vehicleType }: any) => vehicleTypes.find(type => type.vehicleType === vehicleType) || null,
+      findAll: async () => vehicleTypes
+    },
+    fareRuleDAOService: {
+      findByAny: async ({ vehicleType }: any) => fareRules.find(rule => rule.vehicleType === vehicleType) || null,
+      findAll: async () => fareRules
+    }
+  }
+}));
+
+//every leg is 10km and 30 minutes, so the fares are easy to work out by hand
+jest.mock('../../utils/Generic', () => ({
+  __esModule: true,
+  default: {
+    location_difference: () => ({ distance: 10, hours: 0, minutes: 30 })
+  }
+}));
+
+describe('PricingService', () => {
+  let pricing: any;
+
+  const bike = { _id: 'bike-id', vehicleType: 'bike', speed: 20, costPerKm: 100 };
+  const van = { _id: 'van-id', vehicleType: 'van', speed: 20, costPerKm: 250 };
+  const bikeRule = {
+    vehicleType: 'bike-id',
+    baseFare: 500,
+    costPerMinute: 10,
+    freeWeight: 5,
+    costPerKg: 50,
+    minimumFare: 0,
+    nightSurchargePercent: 20,
+    nightStartHour: 22,
+    nightEndHour: 6
+  };
+
+  //noon in Lagos, outside the night window
+  const trip = {
+    senderLat: 6.5,
+    senderLon: 3.3,
+    recipientLat: 6.6,
+    recipientLon: 3.4,
+    packageWeight: 8,
+    pickupAt: new Date('2026-10-19T11:00:00Z')
+  };
+
+  beforeAll(async () => {
+    const { default: PricingService } = await import('../PricingService');
+
+    pricing = new PricingService();
+  });
+
+  beforeEach(() => {
+    vehicleTypes.splice(0, vehicleTypes.length, bike, van);
+    fareRules.splice(0, fareRules.length, { ...bikeRule });
+  });
+
+  it('prices a vehicle type without a fare rule on distance alone', async () => {
+    const quote = await pricing.quote('van', trip);
+
+    expect(quote.breakdown).toEqual({
+      baseFare: 0,
+      distanceFare: 2500,
+      timeFare: 0,
+      weightSurcharge: 0,
+      nightSurcharge: 0,
+      minimumFareAdjustment: 0,
+      total: 2500
+    });
+    expect(quote).toMatchObject({ vehicle: 'van', distance: 10, durationMinutes: 30, deliveryFee: 2500 });
+  });
+
+  it('itemises the base, distance, time and weight fares of the fare rule', async () => {
+    const quote = await pricing.quote('bike', trip);
+
+    expect(quote.breakdown).toEqual({
+      baseFare: 500,
+      distanceFare: 1000,
+      timeFare: 300,
+      weightSurcharge: 150,
+      nightSurcharge: 0,
+      minimumFareAdjustment: 0,
+      total: 1950
+    });
+    expect(quote.deliveryFee).toBe(1950);
+  });
+
+  it('does not charge for the weight the fare rule carries free', async () => {
+    const quote = await pricing.quote('bike', { ...trip, packageWeight: 3 });
+
+    expect(quote.breakdown.weightSurcharge).toBe(0);
+  });
+
+  it('adds the night surcharge inside the night window, past midnight too', async () => {
+    const lateEvening = await pricing.quote('bike', { ...trip, pickupAt: new Date('2026-10-19T22:00:00Z') });
+    const earlyMorning = await pricing.quote('bike', { ...trip, pickupAt: new Date('2026-10-19T03:00:00Z') });
+    const morning = await pricing.quote('bike', { ...trip, pickupAt: new Date('2026-10-19T05:00:00Z') });
+
+    expect(lateEvening.breakdown).toMatchObject({ nightSurcharge: 390, total: 2340 });
+    expect(earlyMorning.breakdown).toMatchObject({ nightSurcharge: 390, total: 2340 });
+    expect(morning.breakdown).toMatchObject({ nightSurcharge: 0, total: 1950 });
+  });
+
+  it('raises a cheap trip to the minimum fare', async () => {
+    fareRules[0].minimumFare = 5000;
+
+    const quote = await pricing.quote('bike', trip);
+
+    expect(quote.breakdown).toMatchObject({ minimumFareAdjustment: 3050, total: 5000 });
+  });
+
+  it('prices every leg through the waypoints', async () => {
+    const quote = await pricing.quote('van', {
+      ...trip,
+      waypoints: [{ lat: 6.55, lon: 3.35 }, { lat: 6.58, lon: 3.38 }]
+    });
+
+    expect(quote).toMatchObject({ distance: 30, durationMinutes: 90, estimatedDeliveryTime: '1:30', deliveryFee: 7500 });
+  });
+
+  it('quotes every active vehicle type with its own fare rule', async () => {
+    const quotes = await pricing.quoteAll(trip);
+
+    expect(quotes.map((quote: any) => [quote.vehicle, quote.deliveryFee])).toEqual([['bike', 1950], ['van', 2500]]);
+  });
+
+  it('fails on a vehicle type that does not exist', async () => {
+    await expect(pricing.quote('truck', trip)).rejects.toThrow('Vehicle type not found');
+  });
+
+  describe('quotes', () => {
+    it('honours a quote for the customer, trip and vehicle it was issued for', async () => {
+      const { quoteId, quotes } = await pricing.issueQuote('customer-1', trip);
+
+      expect(pricing.redeemQuote(quoteId, 'customer-1', 'bike', trip)).toEqual(quotes[0]);
+    });
+
+    it('keeps the quoted price when the fare rule changes afterwards', async () => {
+      const { quoteId } = await pricing.issueQuote('customer-1', trip);
+      fareRules[0].baseFare = 5000;
+
+      expect(pricing.redeemQuote(quoteId, 'customer-1', 'bike', trip).deliveryFee).toBe(1950);
+    });
+
+    it('refuses a quote issued to another customer or for another trip', async () => {
+      const { quoteId } = await pricing.issueQuote('customer-1', trip);
+
+      expect(() => pricing.redeemQuote(quoteId, 'customer-2', 'bike', trip))
+        .toThrow('Quote does not match this delivery, please request a new quote');
+      expect(() => pricing.redeemQuote(quoteId, 'customer-1', 'bike', { ...trip, recipientLat: 6.7 }))
+        .toThrow('Quote does not match this delivery, please request a new quote');
+      expect(() => pricing.redeemQuote(quoteId, 'customer-1', 'bike', { ...trip, packageWeight: 20 }))
+        .toThrow('Quote does not match this delivery, please request a new quote');
+    });
+
+    it('refuses a vehicle the quote does not include', async () => {
+      vehicleTypes.splice(1, 1);
+      const { quoteId } = await pricing.issueQuote('customer-1', trip);
+
+      expect(() => pricing.redeemQuote(quoteId, 'customer-1', 'van', trip))
+        .toThrow('Quote does not include the selected vehicle');
+    });
+
+    it('refuses an expired quote', async () => {
+      const { DELIVERY_QUOTE_AUDIENCE } = await import('../../config/constants');
+      const expired = sign(
+        { customerId: 'customer-1', exp: Math.floor(Date.now() / 1000) - 60 },
+        'quote-key',
+        { audience: DELIVERY_QUOTE_AUDIENCE }
+      );
+
+      expect(() => pricing.redeemQuote(expired, 'customer-1', 'bike', trip))
+        .toThrow('Quote is invalid or has expired, please request a new quote');
+    });
+
+    it('refuses a quote signed with the login key', async () => {
+      const { DELIVERY_QUOTE_AUDIENCE } = await import('../../config/constants');
+      const { quotes } = await pricing.issueQuote('customer-1', trip);
+      const forged = sign({ customerId: 'customer-1', quotes }, 'login-key', { audience: DELIVERY_QUOTE_AUDIENCE });
+
+      expect(() => pricing.redeemQuote(forged, 'customer-1', 'bike', trip))
+        .toThrow('Quote is invalid or has expired, please request a new quote');
+    });
+  });
+});
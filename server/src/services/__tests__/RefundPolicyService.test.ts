@@ -0,0 +1,161 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+let escrow = 0;
+const refunds: any[] = [];
+const transactions: any[] = [];
+const deliveryUpdates: any[] = [];
+let failRefunds = false;
+let pendingDeliveries: any[] = [];
+
+jest.mock('../WalletLedgerService', () => ({
+  __esModule: true,
+  default: class {
+    async escrowBalance() {
+      return escrow;
+    }
+
+    async refundDelivery(customerId: any, delivery: any, assessment: any) {
+      if (failRefunds) throw new Error('ledger unavailable');
+      refunds.push({ customerId, deliveryRefNumber: delivery.deliveryRefNumber, assessment });
+    }
+  }
+}));
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    transactionDAOService: {
+      updateByAny: async (filter: any, update: any) => {
+        const transaction = { _id: `transaction-${transactions.length + 1}`, ...filter, ...update.$setOnInsert };
+        transactions.push(transaction);
+        return transaction;
+      }
+    },
+    walletDAOService: { updateByAny: async () => ({}) },
+    deliveryDAOService: {
+      updateByAny: async (filter: any, update: any) => {
+        deliveryUpdates.push({ filter, update });
+        return {};
+      },
+      findAll: async () => pendingDeliveries
+    }
+  }
+}));
+
+describe('RefundPolicyService', () => {
+  let policy: any;
+  let constants: any;
+
+  const delivery = (status: string, rider: any = 'rider-1', pendingRefund: any = null) => ({
+    _id: 'delivery-1',
+    deliveryRefNumber: 'REF-1',
+    customer: 'customer-1',
+    status,
+    rider,
+    pendingRefund
+  });
+
+  beforeAll(async () => {
+    const { default: RefundPolicyService } = await import('../RefundPolicyService');
+
+    constants = await import('../../config/constants');
+    policy = new RefundPolicyService();
+  });
+
+  beforeEach(() => {
+    escrow = 1000;
+    failRefunds = false;
+    refunds.length = 0;
+    transactions.length = 0;
+    deliveryUpdates.length = 0;
+    pendingDeliveries = [];
+  });
+
+  it('refunds everything before a rider is assigned', async () => {
+    const { PAID, ACTOR_CUSTOMER } = constants;
+
+    const assessment = await policy.assess(delivery(PAID, null), ACTOR_CUSTOMER);
+
+    expect(assessment).toEqual({ escrow: 1000, refund: 1000, cancellationFee: 0, riderCompensation: 0, rider: null });
+  });
+
+  it('keeps the cancellation charge once a rider is assigned', async () => {
+    const { RIDER_REQUESTED, ACTOR_CUSTOMER } = constants;
+
+    const assessment = await policy.assess(delivery(RIDER_REQUESTED), ACTOR_CUSTOMER);
+
+    expect(assessment).toMatchObject({ refund: 900, cancellationFee: 100, riderCompensation: 0 });
+  });
+
+  it('compensates a rider that had arrived for pickup', async () => {
+    const { RIDER_READY_TO_COLLECT_PACKAGE, ACTOR_CUSTOMER } = constants;
+
+    const assessment = await policy.assess(delivery(RIDER_READY_TO_COLLECT_PACKAGE), ACTOR_CUSTOMER);
+
+    expect(assessment).toMatchObject({ refund: 700, cancellationFee: 100, riderCompensation: 200, rider: 'rider-1' });
+    expect(assessment.refund + assessment.cancellationFee + assessment.riderCompensation).toBe(assessment.escrow);
+  });
+
+  it('charges nothing when the admin or the system cancels', async () => {
+    const { RIDER_READY_TO_COLLECT_PACKAGE, ACTOR_ADMIN, ACTOR_SYSTEM } = constants;
+
+    for (const actorType of [ACTOR_ADMIN, ACTOR_SYSTEM])
+      expect(await policy.assess(delivery(RIDER_READY_TO_COLLECT_PACKAGE), actorType))
+        .toMatchObject({ refund: 1000, cancellationFee: 0, riderCompensation: 0 });
+  });
+
+  it('assesses a canceled delivery from the status it was canceled in', async () => {
+    const { CANCELED, RIDER_REQUESTED, ACTOR_CUSTOMER } = constants;
+
+    const assessment = await policy.assess(delivery(CANCELED), ACTOR_CUSTOMER, RIDER_REQUESTED);
+
+    expect(assessment).toMatchObject({ refund: 900, cancellationFee: 100 });
+  });
+
+  it('does not refund a delivery that holds nothing in escrow', async () => {
+    const { PAID, ACTOR_CUSTOMER } = constants;
+    escrow = 0;
+
+    const assessment = await policy.refund(delivery(PAID), ACTOR_CUSTOMER);
+
+    expect(assessment).toMatchObject({ escrow: 0, refund: 0 });
+    expect(refunds).toHaveLength(0);
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('pays out the pending refund and then clears it', async () => {
+    const { CANCELED, RIDER_REQUESTED, ACTOR_CUSTOMER } = constants;
+
+    const assessment = await policy.finishRefund(
+      delivery(CANCELED, 'rider-1', { actorType: ACTOR_CUSTOMER, canceledFrom: RIDER_REQUESTED })
+    );
+
+    expect(assessment).toMatchObject({ refund: 900, cancellationFee: 100 });
+    expect(refunds).toEqual([expect.objectContaining({ customerId: 'customer-1', deliveryRefNumber: 'REF-1' })]);
+    expect(transactions[0]).toMatchObject({ reference: 'refund_REF-1', amount: 900, type: 'Refund' });
+    expect(deliveryUpdates).toEqual([{ filter: { _id: 'delivery-1' }, update: { pendingRefund: null } }]);
+  });
+
+  it('owes nothing when no refund is pending', async () => {
+    const { CANCELED } = constants;
+
+    expect(await policy.finishRefund(delivery(CANCELED))).toBeNull();
+    expect(refunds).toHaveLength(0);
+  });
+
+  it('keeps the refund pending when paying it out fails', async () => {
+    const { CANCELED, PAID, ACTOR_CUSTOMER } = constants;
+    failRefunds = true;
+    pendingDeliveries = [delivery(CANCELED, null, { actorType: ACTOR_CUSTOMER, canceledFrom: PAID })];
+
+    await policy.finishPending();
+
+    expect(deliveryUpdates).toHaveLength(0);
+
+    failRefunds = false;
+    await policy.finishPending();
+
+    expect(refunds).toHaveLength(1);
+    expect(deliveryUpdates).toHaveLength(1);
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const cases: any[] = [];
+const events: any[] = [];
+const riderInbox: any[] = [];
+const adminInbox: any[] = [];
+let rider: any = null;
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    kycCaseDAOService: {
+      findByAny: async ({ rider: riderId }: any) => cases.find(kycCase => kycCase.rider === riderId) || null,
+      findById: async (id: string) => cases.find(kycCase => kycCase._id === id) || null,
+      create: async (values: any) => {
+        const kycCase = { _id: `case-${cases.length + 1}`, ...values };
+        cases.push(kycCase);
+        return kycCase;
+      },
+      //only matches while the case is still in the status it was read in, like the real filter
+      updateByAny: async (filter: any, update: any) => {
+        const kycCase = cases.find(c => c._id === filter._id && c.status === filter.status);
+        return kycCase ? Object.assign(kycCase, update) : null;
+      }
+    },
+    kycEventDAOService: {
+      create: async (event: any) => {
+        events.push(event);
+        return event;
+      }
+    },
+    riderDAOService: { findById: async () => rider },
+    riderLicenseDAOService: {
+      findByAny: async () => ({ _id: 'license-1', licenseNumber: 'LIC-1', expiryDate: new Date('2030-01-01'), licenseImageUrl: 'license.jpg' })
+    }
+  }
+}));
+
+jest.mock('../RiderVehicleService', () => ({
+  __esModule: true,
+  default: class {
+    async activeVehicleOf() {
+      return { _id: 'vehicle-1', vehicleType: 'bike', licencePlateNumber: 'ABC-123', vehicleImageUrl: 'bike.jpg' };
+    }
+  }
+}));
+
+jest.mock('../NotificationInboxService', () => ({
+  __esModule: true,
+  default: class {
+    async notify(recipient: any, notification: any) {
+      riderInbox.push({ recipient, ...notification });
+    }
+
+    async notifyAdmins(notification: any) {
+      adminInbox.push(notification);
+    }
+  }
+}));
+
+describe('RiderKycService', () => {
+  let kyc: any;
+  let constants: any;
+
+  const uploads = { selfieUrl: 'selfie.jpg', papersUrl: 'papers.pdf' };
+
+  beforeAll(async () => {
+    const { default: RiderKycService } = await import('../RiderKycService');
+
+    constants = await import('../../config/constants');
+    kyc = new RiderKycService();
+  });
+
+  beforeEach(() => {
+    for (const list of [cases, events, riderInbox, adminInbox]) list.length = 0;
+
+    rider = { _id: 'rider-1', bankName: 'Bank', accountName: 'Ada Rider', accountNumber: '0123456789' };
+  });
+
+  it('opens a case bundling the license, vehicle, selfie and bank details', async () => {
+    const { KYC_SUBMITTED, NOTIFICATION_KYC_SUBMITTED, ACTOR_RIDER } = constants;
+
+    const kycCase = await kyc.submit('rider-1', uploads);
+
+    expect(kycCase).toMatchObject({
+      rider: 'rider-1',
+      status: KYC_SUBMITTED,
+      license: { record: 'license-1', licenseNumber: 'LIC-1' },
+      vehicle: { record: 'vehicle-1', photoUrl: 'bike.jpg', papersUrl: 'papers.pdf' },
+      selfieUrl: 'selfie.jpg',
+      bank: { accountNumber: '0123456789' }
+    });
+    expect(events).toEqual([expect.objectContaining({ fromStatus: null, toStatus: KYC_SUBMITTED, actorType: ACTOR_RIDER })]);
+    expect(adminInbox).toEqual([expect.objectContaining({ type: NOTIFICATION_KYC_SUBMITTED })]);
+  });
+
+  it('refuses a case without bank details or a selfie', async () => {
+    await expect(kyc.submit('rider-1', { papersUrl: 'papers.pdf' })).rejects.toThrow('Selfie is required');
+
+    rider.accountNumber = null;
+    await expect(kyc.submit('rider-1', uploads))
+      .rejects.toThrow('Add your bank details before submitting your verification');
+
+    expect(cases).toHaveLength(0);
+  });
+
+  it('refuses a second submission while the case is open', async () => {
+    await kyc.submit('rider-1', uploads);
+
+    await expect(kyc.submit('rider-1', uploads)).rejects.toThrow('Your verification is already submitted');
+  });
+
+  it('only lets the admin who claimed a case decide it', async () => {
+    const { KYC_UNDER_REVIEW } = constants;
+    const { _id } = await kyc.submit('rider-1', uploads);
+
+    expect(await kyc.claim(_id, 'admin-1')).toMatchObject({ status: KYC_UNDER_REVIEW, reviewer: 'admin-1' });
+
+    await expect(kyc.approve(_id, 'admin-2')).rejects.toThrow('Verification is being reviewed by another admin');
+    expect(await kyc.isApproved('rider-1')).toBe(false);
+  });
+
+  it('approves a claimed case and tells the rider', async () => {
+    const { KYC_APPROVED, KYC_SUBMITTED, KYC_UNDER_REVIEW, NOTIFICATION_KYC_APPROVED } = constants;
+    const { _id } = await kyc.submit('rider-1', uploads);
+    await kyc.claim(_id, 'admin-1');
+
+    const approved = await kyc.approve(_id, 'admin-1');
+
+    expect(approved.status).toBe(KYC_APPROVED);
+    expect(await kyc.isApproved('rider-1')).toBe(true);
+    expect(riderInbox).toEqual([expect.objectContaining({ recipient: { id: 'rider-1', type: 'rider' }, type: NOTIFICATION_KYC_APPROVED })]);
+    expect(events.map(event => event.toStatus)).toEqual([KYC_SUBMITTED, KYC_UNDER_REVIEW, KYC_APPROVED]);
+  });
+
+  it('refuses to decide a case nobody claimed', async () => {
+    const { KYC_SUBMITTED, KYC_APPROVED } = constants;
+    const { _id } = await kyc.submit('rider-1', uploads);
+
+    await expect(kyc.approve(_id, 'admin-1'))
+      .rejects.toThrow(`Verification can not move from ${KYC_SUBMITTED} to ${KYC_APPROVED}`);
+  });
+
+  it('takes a rejected case again and keeps the documents that are not uploaded again', async () => {
+    const { KYC_SUBMITTED } = constants;
+    const { _id } = await kyc.submit('rider-1', uploads);
+    await kyc.claim(_id, 'admin-1');
+    await kyc.reject(_id, 'admin-1', 'Selfie is blurry');
+
+    const resubmitted = await kyc.submit('rider-1', { selfieUrl: 'selfie-2.jpg' });
+
+    expect(resubmitted).toMatchObject({
+      status: KYC_SUBMITTED,
+      selfieUrl: 'selfie-2.jpg',
+      vehicle: { papersUrl: 'papers.pdf' },
+      reviewer: null,
+      reason: null
+    });
+    expect(cases).toHaveLength(1);
+  });
+});
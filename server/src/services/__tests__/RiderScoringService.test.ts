@@ -0,0 +1,145 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const history = { offersAccepted: 0, offersDeclined: 0, jobsTaken: 0, jobsReleased: 0 };
+const eventQueries: any[] = [];
+let lastEvent: any = null;
+let savedWeights: any = null;
+
+jest.mock('../../models/Notification', () => ({
+  __esModule: true,
+  default: {
+    countDocuments: async ({ riderAvailabilityStatus }: any) =>
+      riderAvailabilityStatus ? history.offersAccepted : history.offersDeclined
+  }
+}));
+
+jest.mock('../../models/DeliveryEvent', () => ({
+  __esModule: true,
+  default: {
+    countDocuments: async (filter: any) => {
+      eventQueries.push(filter);
+      return filter.toStatus === 'rider_requested' ? history.jobsTaken : history.jobsReleased;
+    }
+  }
+}));
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    deliveryEventDAOService: { findAll: async () => lastEvent ? [lastEvent] : [] },
+    matchingWeightsDAOService: {
+      findByAny: async () => savedWeights,
+      updateByAny: async (filter: any, update: any) => {
+        savedWeights = update;
+        return update;
+      }
+    }
+  }
+}));
+
+describe('RiderScoringService', () => {
+  let scoring: any;
+  let constants: any;
+
+  const now = new Date('2026-10-19T12:00:00Z');
+  const rider = (rating = 0) => ({ _id: 'rider-1', rating });
+
+  beforeAll(async () => {
+    const { default: RiderScoringService } = await import('../RiderScoringService');
+
+    constants = await import('../../config/constants');
+    scoring = new RiderScoringService();
+  });
+
+  beforeEach(() => {
+    Object.assign(history, { offersAccepted: 0, offersDeclined: 0, jobsTaken: 0, jobsReleased: 0 });
+    eventQueries.length = 0;
+    lastEvent = null;
+    savedWeights = null;
+  });
+
+  it('does not hold a missing history against a new rider', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS } = constants;
+
+    const { score, factors } = await scoring.score(rider(), 0, MATCHING_DEFAULT_WEIGHTS, now);
+
+    expect(factors).toEqual({ distance: 1, rating: 0, acceptance: 1, cancellation: 1, idle: 1 });
+    expect(score).toBe(0.85);
+  });
+
+  it('averages every factor by its weight', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS } = constants;
+    Object.assign(history, { offersAccepted: 3, offersDeclined: 1, jobsTaken: 4, jobsReleased: 1 });
+    lastEvent = { createdAt: new Date(now.getTime() - 60 * 60 * 1000) };
+
+    const { score, factors, inputs } = await scoring.score(rider(4), 250, MATCHING_DEFAULT_WEIGHTS, now);
+
+    expect(factors).toEqual({ distance: 0.75, rating: 0.8, acceptance: 0.75, cancellation: 0.75, idle: 0.5 });
+    expect(score).toBeCloseTo(0.7325, 2);
+    expect(inputs).toEqual({
+      distance: 250,
+      rating: 4,
+      offersAccepted: 3,
+      offersDeclined: 1,
+      jobsTaken: 4,
+      jobsReleased: 1,
+      idleMinutes: 60
+    });
+  });
+
+  it('counts the deliveries the rider released back to paid against them', async () => {
+    const { ACTOR_RIDER, MATCHING_DEFAULT_WEIGHTS, PAID } = constants;
+    Object.assign(history, { jobsTaken: 2, jobsReleased: 3 });
+
+    const { factors } = await scoring.score(rider(), 0, MATCHING_DEFAULT_WEIGHTS, now);
+
+    expect(eventQueries).toContainEqual(expect.objectContaining({ actor: 'rider-1', actorType: ACTOR_RIDER, toStatus: PAID }));
+    expect(factors.cancellation).toBe(0);
+  });
+
+  it('only looks back as far as the history window', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS } = constants;
+
+    await scoring.score(rider(), 0, { ...MATCHING_DEFAULT_WEIGHTS, historyDays: 7 }, now);
+
+    expect(eventQueries.every(query => query.createdAt.$gte.getTime() === now.getTime() - 7 * 24 * 60 * 60 * 1000)).toBe(true);
+  });
+
+  it('caps distance, rating and idle time between 0 and 1', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS, MAX_DISTANCE, RIDER_MAX_RATING } = constants;
+    lastEvent = { createdAt: new Date(now.getTime() - 10 * 60 * 60 * 1000) };
+
+    const { factors } = await scoring.score(rider(RIDER_MAX_RATING + 1), MAX_DISTANCE * 2, MATCHING_DEFAULT_WEIGHTS, now);
+
+    expect(factors).toMatchObject({ distance: 0, rating: 1, idle: 1 });
+  });
+
+  it('ranks on the weighted factors only', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS } = constants;
+    const distanceOnly = { ...MATCHING_DEFAULT_WEIGHTS, distance: 1, rating: 0, acceptance: 0, cancellation: 0, idle: 0 };
+
+    const near = await scoring.score(rider(0), 100, distanceOnly, now);
+    const far = await scoring.score(rider(5), 900, distanceOnly, now);
+
+    expect(near.score).toBe(0.9);
+    expect(far.score).toBe(0.1);
+  });
+
+  it('uses the default weights until admins save some', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS } = constants;
+
+    expect(await scoring.weights()).toEqual(MATCHING_DEFAULT_WEIGHTS);
+
+    await scoring.saveWeights({ ...MATCHING_DEFAULT_WEIGHTS, distance: 80 }, 'admin-1');
+
+    expect(await scoring.weights()).toEqual({ ...MATCHING_DEFAULT_WEIGHTS, distance: 80 });
+  });
+
+  it('refuses weights that are all 0', async () => {
+    const { MATCHING_DEFAULT_WEIGHTS } = constants;
+    const zero = { ...MATCHING_DEFAULT_WEIGHTS, distance: 0, rating: 0, acceptance: 0, cancellation: 0, idle: 0 };
+
+    await expect(scoring.saveWeights(zero, 'admin-1')).rejects.toThrow('At least one weight must be greater than 0');
+    expect(savedWeights).toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+//enough of a mongo filter and update for the queries the ledger makes
+const matches = (doc: any, filter: any) => Object.entries(filter).every(([field, condition]: [string, any]) => {
+  const value = doc[field];
+
+  if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+    if ('$gte' in condition) return value >= condition.$gte;
+    if ('$lte' in condition) return value <= condition.$lte;
+  }
+  if (Array.isArray(value)) return value.includes(condition);
+
+  return `${value}` === `${condition}`;
+});
+
+const applyUpdate = (doc: any, update: any) => {
+  const { $inc = {}, $push = {}, $pull = {}, ...fields } = update;
+
+  Object.assign(doc, fields);
+  Object.entries($inc).forEach(([field, amount]: [string, any]) => { doc[field] = (doc[field] || 0) + amount; });
+  Object.entries($push).forEach(([field, value]) => { doc[field] = [...(doc[field] || []), value]; });
+  Object.entries($pull).forEach(([field, value]) => { doc[field] = (doc[field] || []).filter((item: any) => item !== value); });
+
+  return doc;
+};
+
+const collection = (uniqueKey?: string) => {
+  const docs: any[] = [];
+
+  return {
+    docs,
+    findAll: async (filter: any) => docs.filter(doc => matches(doc, filter)),
+    findByAny: async (filter: any) => docs.find(doc => matches(doc, filter)) || null,
+    create: async (values: any) => {
+      if (uniqueKey && docs.some(doc => doc[uniqueKey] === values[uniqueKey]))
+        throw Object.assign(new Error('duplicate key'), { code: DUPLICATE_KEY_ERROR });
+
+      const doc = { _id: `${uniqueKey || 'doc'}-${docs.length + 1}`, ...values };
+      docs.push(doc);
+      return doc;
+    },
+    updateByAny: async (filter: any, update: any, options?: any) => {
+      const doc = docs.find(d => matches(d, filter));
+      if (doc) return applyUpdate(doc, update);
+      if (!options?.upsert) return null;
+
+      //an upsert inserts the equality fields of the filter, operators are left out
+      const inserted = Object.fromEntries(Object.entries(filter).filter(([, value]) => typeof value !== 'object'));
+      docs.push(inserted);
+      return applyUpdate(inserted, update);
+    },
+    deleteById: async (id: any) => {
+      const index = docs.findIndex(doc => doc._id === id);
+      if (index >= 0) docs.splice(index, 1);
+    }
+  };
+};
+
+const wallets = collection();
+const riderWallets = collection();
+const journals = collection('journal');
+const entries: any[] = [];
+
+jest.mock('../dao', () => ({
+  __esModule: true,
+  default: {
+    walletDAOService: wallets,
+    riderWalletDAOService: riderWallets,
+    ledgerJournalDAOService: journals,
+    ledgerEntryDAOService: {
+      findAll: async (filter: any) => entries.filter(entry => matches(entry, filter))
+    }
+  }
+}));
+
+//unique on (journal, line) like the real index, ordered: false writes every line it can
+jest.mock('../../models/LedgerEntry', () => ({
+  __esModule: true,
+  default: {
+    insertMany: async (lines: any[]) => {
+      const writeErrors: any[] = [];
+
+      for (const line of lines) {
+        if (entries.some(entry => entry.journal === line.journal && entry.line === line.line))
+          writeErrors.push({ code: DUPLICATE_KEY_ERROR });
+        else entries.push(line);
+      }
+
+      if (writeErrors.length) throw Object.assign(new Error('bulk write error'), { writeErrors });
+    }
+  }
+}));
+
+describe('WalletLedgerService', () => {
+  let ledger: any;
+  let constants: any;
+
+  const delivery = { deliveryRefNumber: 'REF-1', deliveryFee: 1000 } as any;
+
+  const balanceOf = (customer: string) => wallets.docs.find(wallet => wallet.customer === customer)?.balance;
+
+  const expectBalanced = (journal: string) => {
+    const { LEDGER_CREDIT, LEDGER_DEBIT } = constants;
+    const lines = entries.filter(entry => entry.journal === journal);
+    const total = (direction: string) => lines
+      .filter(line => line.direction === direction)
+      .reduce((sum, line) => sum + line.amount, 0);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(total(LEDGER_DEBIT)).toBe(total(LEDGER_CREDIT));
+  };
+
+  beforeAll(async () => {
+    const { default: WalletLedgerService } = await import('../WalletLedgerService');
+
+    constants = await import('../../config/constants');
+    ledger = new WalletLedgerService();
+  });
+
+  beforeEach(() => {
+    wallets.docs.length = 0;
+    riderWallets.docs.length = 0;
+    journals.docs.length = 0;
+    entries.length = 0;
+  });
+
+  it('credits a funded wallet with a balanced journal', async () => {
+    const { LEDGER_CUSTOMER_WALLET, LEDGER_JOURNAL_APPLIED } = constants;
+
+    await ledger.fundCustomerWallet('customer-1', 5000, 'PAY-1');
+
+    expect(balanceOf('customer-1')).toBe(5000);
+    expect(await ledger.balance(LEDGER_CUSTOMER_WALLET, 'customer-1')).toBe(5000);
+    expect(journals.docs[0]).toMatchObject({ journal: 'wallet_funding:PAY-1', status: LEDGER_JOURNAL_APPLIED });
+    expect(wallets.docs[0].pendingJournals).toEqual([]);
+    expectBalanced('wallet_funding:PAY-1');
+  });
+
+  it('moves money only once when the same reference is posted again', async () => {
+    await ledger.fundCustomerWallet('customer-1', 5000, 'PAY-1');
+    await ledger.fundCustomerWallet('customer-1', 5000, 'PAY-1');
+
+    expect(balanceOf('customer-1')).toBe(5000);
+    expect(journals.docs).toHaveLength(1);
+    expect(entries).toHaveLength(2);
+  });
+
+  it('holds the delivery fee in escrow', async () => {
+    await ledger.fundCustomerWallet('customer-1', 5000, 'PAY-1');
+    await ledger.payForDelivery('customer-1', delivery);
+
+    expect(balanceOf('customer-1')).toBe(4000);
+    expect(await ledger.escrowBalance('REF-1')).toBe(1000);
+    expectBalanced('delivery_payment:REF-1');
+  });
+
+  it('refuses a payment the wallet can not cover and leaves nothing behind', async () => {
+    await ledger.fundCustomerWallet('customer-1', 500, 'PAY-1');
+
+    await expect(ledger.payForDelivery('customer-1', delivery))
+      .rejects.toThrow('Wallet is low on cash, please fund wallet.');
+
+    expect(balanceOf('customer-1')).toBe(500);
+    expect(await ledger.escrowBalance('REF-1')).toBe(0);
+    expect(journals.docs.map(journal => journal.journal)).toEqual(['wallet_funding:PAY-1']);
+
+    //the journal was removed, so the payment goes through once the wallet is funded
+    await ledger.fundCustomerWallet('customer-1', 500, 'PAY-2');
+    await ledger.payForDelivery('customer-1', delivery);
+
+    expect(balanceOf('customer-1')).toBe(0);
+  });
+
+  it('refuses a journal whose debits and credits differ', async () => {
+    await expect(ledger.refundDelivery('customer-1', delivery, {
+      escrow: 1000,
+      refund: 900,
+      cancellationFee: 0,
+      riderCompensation: 0,
+      rider: null
+    })).rejects.toThrow('Journal delivery_refund:REF-1 is not balanced');
+
+    expect(journals.docs).toHaveLength(0);
+  });
+
+  it('splits a refund between the customer, the platform and the rider', async () => {
+    const { LEDGER_PLATFORM_FEES } = constants;
+    await ledger.fundCustomerWallet('customer-1', 1000, 'PAY-1');
+    await ledger.payForDelivery('customer-1', delivery);
+
+    await ledger.refundDelivery('customer-1', delivery, {
+      escrow: 1000,
+      refund: 700,
+      cancellationFee: 200,
+      riderCompensation: 100,
+      rider: 'rider-1'
+    });
+
+    expect(balanceOf('customer-1')).toBe(700);
+    expect(riderWallets.docs[0]).toMatchObject({ rider: 'rider-1', balance: 100 });
+    expect(await ledger.balance(LEDGER_PLATFORM_FEES)).toBe(200);
+    expect(await ledger.escrowBalance('REF-1')).toBe(0);
+    expectBalanced('delivery_refund:REF-1');
+  });
+
+  it('never settles more than the delivery holds in escrow', async () => {
+    const { LEDGER_PLATFORM_FEES } = constants;
+    await ledger.fundCustomerWallet('customer-1', 1000, 'PAY-1');
+    await ledger.payForDelivery('customer-1', delivery);
+
+    await ledger.settleDelivery('rider-1', delivery, 900, 300);
+
+    expect(riderWallets.docs[0].balance).toBe(900);
+    expect(await ledger.balance(LEDGER_PLATFORM_FEES)).toBe(100);
+    expect(await ledger.escrowBalance('REF-1')).toBe(0);
+  });
+
+  it('finishes a journal a stopped attempt left pending without applying it twice', async () => {
+    const { LEDGER_CREDIT, LEDGER_JOURNAL_APPLIED, LEDGER_JOURNAL_PENDING, LEDGER_PAYMENT_GATEWAY, LEDGER_CUSTOMER_WALLET, LEDGER_DEBIT } = constants;
+    const journal = 'wallet_funding:PAY-1';
+    const lines = [
+      { account: LEDGER_PAYMENT_GATEWAY, owner: null, direction: LEDGER_DEBIT, amount: 5000 },
+      { account: LEDGER_CUSTOMER_WALLET, owner: 'customer-1', direction: LEDGER_CREDIT, amount: 5000 }
+    ];
+
+    //the wallet was credited and the first line written before the process stopped
+    journals.docs.push({ _id: 'journal-1', journal, reference: 'PAY-1', lines, status: LEDGER_JOURNAL_PENDING, lockedUntil: new Date(0) });
+    wallets.docs.push({ customer: 'customer-1', balance: 5000, pendingJournals: [journal] });
+    entries.push({ ...lines[0], line: 0, journal, reference: 'PAY-1' });
+
+    await ledger.finishPending();
+
+    expect(balanceOf('customer-1')).toBe(5000);
+    expect(wallets.docs[0].pendingJournals).toEqual([]);
+    expect(journals.docs[0].status).toBe(LEDGER_JOURNAL_APPLIED);
+    expect(entries.map(entry => entry.line)).toEqual([0, 1]);
+    expectBalanced(journal);
+  });
+});
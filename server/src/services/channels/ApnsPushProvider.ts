@@ -0,0 +1,104 @@
+import http2 from 'http2';
+import { sign } from 'jsonwebtoken';
+import settings from '../../config/settings';
+import AppLogger from '../../utils/AppLogger';
+import { appCommonTypes } from '../../@types/app-common';
+import NotificationMessage = appCommonTypes.NotificationMessage;
+import PushProvider = appCommonTypes.PushProvider;
+import PushResult = appCommonTypes.PushResult;
+
+const logger = AppLogger.init('server').logger;
+
+const APNS_PRODUCTION_HOST = 'https://api.push.apple.com';
+const APNS_SANDBOX_HOST = 'https://api.sandbox.push.apple.com';
+//apple refuses provider tokens older than an hour and ones renewed more often than every 20 minutes
+const PROVIDER_TOKEN_TTL = 50 * 60 * 1000;
+const INVALID_TOKEN_REASONS = ['BadDeviceToken', 'DeviceTokenNotForTopic', 'Unregistered'];
+
+/**
+ * @name ApnsPushProvider
+ * @desc Apple Push Notification service over HTTP/2 with a token signed by the
+ * @desc key in settings.notification.apns. One connection is kept open and
+ * @desc reopened when apple closes it.
+ */
+class ApnsPushProvider implements PushProvider {
+  private session: http2.ClientHttp2Session | null = null;
+  private providerToken: string | null = null;
+  private issuedAt = 0;
+
+  public send(token: string, message: NotificationMessage): Promise<PushResult> {
+    const { bundleId } = settings.notification.apns;
+
+    return new Promise(resolve => {
+      let status = 0;
+      let body = '';
+
+      const request = this.connect().request({
+        ':method': 'POST',
+        ':path': `/3/device/${token}`,
+        authorization: `bearer ${this.authorize()}`,
+        'apns-topic': bundleId,
+        'apns-push-type': 'alert',
+        'apns-priority': '10'
+      });
+
+      request.setEncoding('utf8');
+      request.on('response', headers => status = Number(headers[':status']));
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => resolve(this.result(status, body)));
+      request.on('error', error => {
+        logger.error(`APNs push failed: ${error.message}`);
+        resolve('failed');
+      });
+
+      request.end(JSON.stringify({
+        aps: { alert: { title: message.title, body: message.body }, sound: 'default' },
+        ...message.data
+      }));
+    });
+  }
+
+  private connect(): http2.ClientHttp2Session {
+    if (this.session && !this.session.closed && !this.session.destroyed) return this.session;
+
+    const host = settings.notification.apns.production ? APNS_PRODUCTION_HOST : APNS_SANDBOX_HOST;
+
+    this.session = http2.connect(host);
+    this.session.on('error', error => logger.error(`APNs connection failed: ${error.message}`));
+    //an idle connection does not keep the process running
+    this.session.unref();
+
+    return this.session;
+  }
+
+  private authorize(): string {
+    if (this.providerToken && Date.now() - this.issuedAt < PROVIDER_TOKEN_TTL) return this.providerToken;
+
+    const { keyId, teamId, privateKey } = settings.notification.apns;
+
+    this.providerToken = sign({}, privateKey, { algorithm: 'ES256', issuer: teamId, keyid: keyId });
+    this.issuedAt = Date.now();
+
+    return this.providerToken;
+  }
+
+  private result(status: number, body: string): PushResult {
+    if (status === 200) return 'sent';
+    if (status === 410) return 'invalid';
+
+    let reason = body;
+    try {
+      reason = JSON.parse(body).reason;
+    } catch (error) {
+      //not every error comes with a json body
+    }
+
+    if (INVALID_TOKEN_REASONS.includes(reason)) return 'invalid';
+
+    logger.error(`APNs push failed with ${status}: ${reason}`);
+
+    return 'failed';
+  }
+}
+
+export default ApnsPushProvider;
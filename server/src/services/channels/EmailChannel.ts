@@ -0,0 +1,22 @@
+import MessageService from '../MessageService';
+import { CHANNEL_EMAIL } from '../../config/constants';
+import { appCommonTypes } from '../../@types/app-common';
+import NotificationChannel = appCommonTypes.NotificationChannel;
+import NotificationRecipient = appCommonTypes.NotificationRecipient;
+import NotificationMessage = appCommonTypes.NotificationMessage;
+
+class EmailChannel implements NotificationChannel {
+  public readonly name = CHANNEL_EMAIL;
+
+  private messageService = new MessageService();
+
+  public async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    if (!recipient.email) return false;
+
+    await this.messageService.send(this.name, recipient.email, { subject: message.title, text: message.body });
+
+    return true;
+  }
+}
+
+export default EmailChannel;
@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import settings from '../../config/settings';
+import { appCommonTypes } from '../../@types/app-common';
+import NotificationChannel = appCommonTypes.NotificationChannel;
+import NotificationRecipient = appCommonTypes.NotificationRecipient;
+import NotificationMessage = appCommonTypes.NotificationMessage;
+
+interface IFakeDelivery {
+  channel: string,
+  recipient: { id: string, type: string },
+  message: NotificationMessage,
+  sentAt: Date
+}
+
+//what every fake channel of the process sent, oldest first
+export const fakeOutbox: IFakeDelivery[] = [];
+
+/**
+ * @name FakeChannel
+ * @desc Stands in for a channel when settings.notification.driver is 'fake', so
+ * @desc notifications can be dispatched without a network. Sent messages are kept
+ * @desc in the {@link fakeOutbox} and appended to settings.notification.fakeFile as
+ * @desc JSON lines, channels listed in settings.notification.fakeFailing never get
+ * @desc through so the fallback can be followed.
+ */
+class FakeChannel implements NotificationChannel {
+  public readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  public async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    const { fakeFile, fakeFailing } = settings.notification;
+
+    if (fakeFailing.includes(this.name)) return false;
+
+    const delivery: IFakeDelivery = {
+      channel: this.name,
+      recipient: { id: `${recipient.id}`, type: recipient.type },
+      message,
+      sentAt: new Date()
+    };
+
+    fakeOutbox.push(delivery);
+
+    if (fakeFile) await fs.appendFile(fakeFile, `${JSON.stringify(delivery)}\n`);
+
+    return true;
+  }
+}
+
+export default FakeChannel;
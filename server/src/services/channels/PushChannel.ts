@@ -0,0 +1,40 @@
+import datasources from '../dao';
+import FcmPushProvider from './FcmPushProvider';
+import ApnsPushProvider from './ApnsPushProvider';
+import { CHANNEL_PUSH, PUSH_PROVIDER_APNS, PUSH_PROVIDER_FCM } from '../../config/constants';
+import { appCommonTypes } from '../../@types/app-common';
+import NotificationChannel = appCommonTypes.NotificationChannel;
+import NotificationRecipient = appCommonTypes.NotificationRecipient;
+import NotificationMessage = appCommonTypes.NotificationMessage;
+import PushProvider = appCommonTypes.PushProvider;
+
+/**
+ * @name PushChannel
+ * @desc Sends to every device the recipient registered, through FCM or APNs
+ * @desc depending on the token. Gets through when at least one device took it,
+ * @desc tokens the provider no longer knows are dropped.
+ */
+class PushChannel implements NotificationChannel {
+  public readonly name = CHANNEL_PUSH;
+
+  private providers: Record<string, PushProvider> = {
+    [PUSH_PROVIDER_FCM]: new FcmPushProvider(),
+    [PUSH_PROVIDER_APNS]: new ApnsPushProvider()
+  };
+
+  public async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    const devices = await datasources.deviceTokenDAOService.findAll({ owner: `${recipient.id}` });
+
+    let sent = false;
+    for (const device of devices) {
+      const result = await this.providers[device.provider].send(device.token, message);
+
+      if (result === 'invalid') await datasources.deviceTokenDAOService.deleteById(device._id);
+      if (result === 'sent') sent = true;
+    }
+
+    return sent;
+  }
+}
+
+export default PushChannel;
@@ -0,0 +1,22 @@
+import MessageService from '../MessageService';
+import { CHANNEL_SMS } from '../../config/constants';
+import { appCommonTypes } from '../../@types/app-common';
+import NotificationChannel = appCommonTypes.NotificationChannel;
+import NotificationRecipient = appCommonTypes.NotificationRecipient;
+import NotificationMessage = appCommonTypes.NotificationMessage;
+
+class SmsChannel implements NotificationChannel {
+  public readonly name = CHANNEL_SMS;
+
+  private messageService = new MessageService();
+
+  public async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    if (!recipient.phone) return false;
+
+    await this.messageService.send(this.name, recipient.phone, { text: `${message.title}\n${message.body}` });
+
+    return true;
+  }
+}
+
+export default SmsChannel;
@@ -0,0 +1,31 @@
+import SocketGatewayService from '../SocketGatewayService';
+import PresenceService from '../PresenceService';
+import { CHANNEL_SOCKET } from '../../config/constants';
+import { appCommonTypes } from '../../@types/app-common';
+import NotificationChannel = appCommonTypes.NotificationChannel;
+import NotificationRecipient = appCommonTypes.NotificationRecipient;
+import NotificationMessage = appCommonTypes.NotificationMessage;
+
+const socketGatewayService = new SocketGatewayService();
+const presenceService = new PresenceService();
+
+//gets through only when one of the recipient's apps is connected
+class SocketChannel implements NotificationChannel {
+  public readonly name = CHANNEL_SOCKET;
+
+  public async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    if (!(await presenceService.isOnline(recipient.id))) return false;
+
+    const { socketEvent = 'notification', socketPayload } = message;
+
+    socketGatewayService.emitToUser(recipient.id, socketEvent, socketPayload ?? {
+      title: message.title,
+      body: message.body,
+      ...message.data
+    });
+
+    return true;
+  }
+}
+
+export default SocketChannel;
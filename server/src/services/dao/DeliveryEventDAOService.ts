@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IDeliveryEventModel} from '../../models/DeliveryEvent';
+import DeliveryEventRepository from '../../repositories/DeliveryEventRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class DeliveryEventDAOService implements ICrudDAO<IDeliveryEventModel> {
+  private deliveryEventRepository: DeliveryEventRepository;
+
+  constructor(deliveryEventRepository: DeliveryEventRepository) {
+    this.deliveryEventRepository = deliveryEventRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IDeliveryEventModel>): Promise<IDeliveryEventModel[]> {
+    return this.deliveryEventRepository.bulkCreate(records)
+  }
+
+  create(values: IDeliveryEventModel): Promise<IDeliveryEventModel> {
+    return this.deliveryEventRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IDeliveryEventModel>, options?: QueryOptions): Promise<IDeliveryEventModel[]> {
+    return this.deliveryEventRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IDeliveryEventModel | null> {
+    return this.deliveryEventRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IDeliveryEventModel>, options?: QueryOptions): Promise<IDeliveryEventModel | null> {
+    return this.deliveryEventRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IDeliveryEventModel>, options: QueryOptions): Promise<IDeliveryEventModel | null> {
+    return this.deliveryEventRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IDeliveryEventModel>,
+    update: UpdateQuery<IDeliveryEventModel>,
+    options?: QueryOptions
+  ): Promise<IDeliveryEventModel | null> {
+    return this.deliveryEventRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IDeliveryEventModel>, options?: QueryOptions): Promise<void> {
+    return this.deliveryEventRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.deliveryEventRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.deliveryEventRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IDeliveryEventModel>, options?: QueryOptions): Promise<boolean> {
+    return this.deliveryEventRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
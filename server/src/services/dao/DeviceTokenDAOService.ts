@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IDeviceTokenModel} from '../../models/DeviceToken';
+import DeviceTokenRepository from '../../repositories/DeviceTokenRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class DeviceTokenDAOService implements ICrudDAO<IDeviceTokenModel> {
+  private deviceTokenRepository: DeviceTokenRepository;
+
+  constructor(deviceTokenRepository: DeviceTokenRepository) {
+    this.deviceTokenRepository = deviceTokenRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IDeviceTokenModel>): Promise<IDeviceTokenModel[]> {
+    return this.deviceTokenRepository.bulkCreate(records)
+  }
+
+  create(values: IDeviceTokenModel): Promise<IDeviceTokenModel> {
+    return this.deviceTokenRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IDeviceTokenModel>, options?: QueryOptions): Promise<IDeviceTokenModel[]> {
+    return this.deviceTokenRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IDeviceTokenModel | null> {
+    return this.deviceTokenRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IDeviceTokenModel>, options?: QueryOptions): Promise<IDeviceTokenModel | null> {
+    return this.deviceTokenRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IDeviceTokenModel>, options: QueryOptions): Promise<IDeviceTokenModel | null> {
+    return this.deviceTokenRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IDeviceTokenModel>,
+    update: UpdateQuery<IDeviceTokenModel>,
+    options?: QueryOptions
+  ): Promise<IDeviceTokenModel | null> {
+    return this.deviceTokenRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IDeviceTokenModel>, options?: QueryOptions): Promise<void> {
+    return this.deviceTokenRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.deviceTokenRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.deviceTokenRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IDeviceTokenModel>, options?: QueryOptions): Promise<boolean> {
+    return this.deviceTokenRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IFareRuleModel} from '../../models/FareRule';
+import FareRuleRepository from '../../repositories/FareRuleRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class FareRuleDAOService implements ICrudDAO<IFareRuleModel> {
+  private fareRuleRepository: FareRuleRepository;
+
+  constructor(fareRuleRepository: FareRuleRepository) {
+    this.fareRuleRepository = fareRuleRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IFareRuleModel>): Promise<IFareRuleModel[]> {
+    return this.fareRuleRepository.bulkCreate(records)
+  }
+
+  create(values: IFareRuleModel): Promise<IFareRuleModel> {
+    return this.fareRuleRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IFareRuleModel>, options?: QueryOptions): Promise<IFareRuleModel[]> {
+    return this.fareRuleRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IFareRuleModel | null> {
+    return this.fareRuleRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IFareRuleModel>, options?: QueryOptions): Promise<IFareRuleModel | null> {
+    return this.fareRuleRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IFareRuleModel>, options: QueryOptions): Promise<IFareRuleModel | null> {
+    return this.fareRuleRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IFareRuleModel>,
+    update: UpdateQuery<IFareRuleModel>,
+    options?: QueryOptions
+  ): Promise<IFareRuleModel | null> {
+    return this.fareRuleRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IFareRuleModel>, options?: QueryOptions): Promise<void> {
+    return this.fareRuleRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.fareRuleRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.fareRuleRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IFareRuleModel>, options?: QueryOptions): Promise<boolean> {
+    return this.fareRuleRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IInboxNotificationModel} from '../../models/InboxNotification';
+import InboxNotificationRepository from '../../repositories/InboxNotificationRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class InboxNotificationDAOService implements ICrudDAO<IInboxNotificationModel> {
+  private inboxNotificationRepository: InboxNotificationRepository;
+
+  constructor(inboxNotificationRepository: InboxNotificationRepository) {
+    this.inboxNotificationRepository = inboxNotificationRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IInboxNotificationModel>): Promise<IInboxNotificationModel[]> {
+    return this.inboxNotificationRepository.bulkCreate(records)
+  }
+
+  create(values: IInboxNotificationModel): Promise<IInboxNotificationModel> {
+    return this.inboxNotificationRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IInboxNotificationModel>, options?: QueryOptions): Promise<IInboxNotificationModel[]> {
+    return this.inboxNotificationRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IInboxNotificationModel | null> {
+    return this.inboxNotificationRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IInboxNotificationModel>, options?: QueryOptions): Promise<IInboxNotificationModel | null> {
+    return this.inboxNotificationRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IInboxNotificationModel>, options: QueryOptions): Promise<IInboxNotificationModel | null> {
+    return this.inboxNotificationRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IInboxNotificationModel>,
+    update: UpdateQuery<IInboxNotificationModel>,
+    options?: QueryOptions
+  ): Promise<IInboxNotificationModel | null> {
+    return this.inboxNotificationRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IInboxNotificationModel>, options?: QueryOptions): Promise<void> {
+    return this.inboxNotificationRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.inboxNotificationRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.inboxNotificationRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IInboxNotificationModel>, options?: QueryOptions): Promise<boolean> {
+    return this.inboxNotificationRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
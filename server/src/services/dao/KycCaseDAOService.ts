@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IKycCaseModel} from '../../models/KycCase';
+import KycCaseRepository from '../../repositories/KycCaseRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class KycCaseDAOService implements ICrudDAO<IKycCaseModel> {
+  private kycCaseRepository: KycCaseRepository;
+
+  constructor(kycCaseRepository: KycCaseRepository) {
+    this.kycCaseRepository = kycCaseRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IKycCaseModel>): Promise<IKycCaseModel[]> {
+    return this.kycCaseRepository.bulkCreate(records)
+  }
+
+  create(values: IKycCaseModel): Promise<IKycCaseModel> {
+    return this.kycCaseRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IKycCaseModel>, options?: QueryOptions): Promise<IKycCaseModel[]> {
+    return this.kycCaseRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IKycCaseModel | null> {
+    return this.kycCaseRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IKycCaseModel>, options?: QueryOptions): Promise<IKycCaseModel | null> {
+    return this.kycCaseRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IKycCaseModel>, options: QueryOptions): Promise<IKycCaseModel | null> {
+    return this.kycCaseRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IKycCaseModel>,
+    update: UpdateQuery<IKycCaseModel>,
+    options?: QueryOptions
+  ): Promise<IKycCaseModel | null> {
+    return this.kycCaseRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IKycCaseModel>, options?: QueryOptions): Promise<void> {
+    return this.kycCaseRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.kycCaseRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.kycCaseRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IKycCaseModel>, options?: QueryOptions): Promise<boolean> {
+    return this.kycCaseRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
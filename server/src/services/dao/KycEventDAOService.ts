@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IKycEventModel} from '../../models/KycEvent';
+import KycEventRepository from '../../repositories/KycEventRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class KycEventDAOService implements ICrudDAO<IKycEventModel> {
+  private kycEventRepository: KycEventRepository;
+
+  constructor(kycEventRepository: KycEventRepository) {
+    this.kycEventRepository = kycEventRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IKycEventModel>): Promise<IKycEventModel[]> {
+    return this.kycEventRepository.bulkCreate(records)
+  }
+
+  create(values: IKycEventModel): Promise<IKycEventModel> {
+    return this.kycEventRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IKycEventModel>, options?: QueryOptions): Promise<IKycEventModel[]> {
+    return this.kycEventRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IKycEventModel | null> {
+    return this.kycEventRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IKycEventModel>, options?: QueryOptions): Promise<IKycEventModel | null> {
+    return this.kycEventRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IKycEventModel>, options: QueryOptions): Promise<IKycEventModel | null> {
+    return this.kycEventRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IKycEventModel>,
+    update: UpdateQuery<IKycEventModel>,
+    options?: QueryOptions
+  ): Promise<IKycEventModel | null> {
+    return this.kycEventRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IKycEventModel>, options?: QueryOptions): Promise<void> {
+    return this.kycEventRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.kycEventRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.kycEventRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IKycEventModel>, options?: QueryOptions): Promise<boolean> {
+    return this.kycEventRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
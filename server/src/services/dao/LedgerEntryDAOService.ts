@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {ILedgerEntryModel} from '../../models/LedgerEntry';
+import LedgerEntryRepository from '../../repositories/LedgerEntryRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class LedgerEntryDAOService implements ICrudDAO<ILedgerEntryModel> {
+  private ledgerEntryRepository: LedgerEntryRepository;
+
+  constructor(ledgerEntryRepository: LedgerEntryRepository) {
+    this.ledgerEntryRepository = ledgerEntryRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<ILedgerEntryModel>): Promise<ILedgerEntryModel[]> {
+    return this.ledgerEntryRepository.bulkCreate(records)
+  }
+
+  create(values: ILedgerEntryModel): Promise<ILedgerEntryModel> {
+    return this.ledgerEntryRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<ILedgerEntryModel>, options?: QueryOptions): Promise<ILedgerEntryModel[]> {
+    return this.ledgerEntryRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<ILedgerEntryModel | null> {
+    return this.ledgerEntryRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<ILedgerEntryModel>, options?: QueryOptions): Promise<ILedgerEntryModel | null> {
+    return this.ledgerEntryRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<ILedgerEntryModel>, options: QueryOptions): Promise<ILedgerEntryModel | null> {
+    return this.ledgerEntryRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<ILedgerEntryModel>,
+    update: UpdateQuery<ILedgerEntryModel>,
+    options?: QueryOptions
+  ): Promise<ILedgerEntryModel | null> {
+    return this.ledgerEntryRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<ILedgerEntryModel>, options?: QueryOptions): Promise<void> {
+    return this.ledgerEntryRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.ledgerEntryRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.ledgerEntryRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<ILedgerEntryModel>, options?: QueryOptions): Promise<boolean> {
+    return this.ledgerEntryRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
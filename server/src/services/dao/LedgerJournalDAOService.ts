@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {ILedgerJournalModel} from '../../models/LedgerJournal';
+import LedgerJournalRepository from '../../repositories/LedgerJournalRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class LedgerJournalDAOService implements ICrudDAO<ILedgerJournalModel> {
+  private ledgerJournalRepository: LedgerJournalRepository;
+
+  constructor(ledgerJournalRepository: LedgerJournalRepository) {
+    this.ledgerJournalRepository = ledgerJournalRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<ILedgerJournalModel>): Promise<ILedgerJournalModel[]> {
+    return this.ledgerJournalRepository.bulkCreate(records)
+  }
+
+  create(values: ILedgerJournalModel): Promise<ILedgerJournalModel> {
+    return this.ledgerJournalRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<ILedgerJournalModel>, options?: QueryOptions): Promise<ILedgerJournalModel[]> {
+    return this.ledgerJournalRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<ILedgerJournalModel | null> {
+    return this.ledgerJournalRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<ILedgerJournalModel>, options?: QueryOptions): Promise<ILedgerJournalModel | null> {
+    return this.ledgerJournalRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<ILedgerJournalModel>, options: QueryOptions): Promise<ILedgerJournalModel | null> {
+    return this.ledgerJournalRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<ILedgerJournalModel>,
+    update: UpdateQuery<ILedgerJournalModel>,
+    options?: QueryOptions
+  ): Promise<ILedgerJournalModel | null> {
+    return this.ledgerJournalRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<ILedgerJournalModel>, options?: QueryOptions): Promise<void> {
+    return this.ledgerJournalRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.ledgerJournalRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.ledgerJournalRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<ILedgerJournalModel>, options?: QueryOptions): Promise<boolean> {
+    return this.ledgerJournalRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {ILicenseExpiryReportModel} from '../../models/LicenseExpiryReport';
+import LicenseExpiryReportRepository from '../../repositories/LicenseExpiryReportRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class LicenseExpiryReportDAOService implements ICrudDAO<ILicenseExpiryReportModel> {
+  private licenseExpiryReportRepository: LicenseExpiryReportRepository;
+
+  constructor(licenseExpiryReportRepository: LicenseExpiryReportRepository) {
+    this.licenseExpiryReportRepository = licenseExpiryReportRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<ILicenseExpiryReportModel>): Promise<ILicenseExpiryReportModel[]> {
+    return this.licenseExpiryReportRepository.bulkCreate(records)
+  }
+
+  create(values: ILicenseExpiryReportModel): Promise<ILicenseExpiryReportModel> {
+    return this.licenseExpiryReportRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<ILicenseExpiryReportModel>, options?: QueryOptions): Promise<ILicenseExpiryReportModel[]> {
+    return this.licenseExpiryReportRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<ILicenseExpiryReportModel | null> {
+    return this.licenseExpiryReportRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<ILicenseExpiryReportModel>, options?: QueryOptions): Promise<ILicenseExpiryReportModel | null> {
+    return this.licenseExpiryReportRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<ILicenseExpiryReportModel>, options: QueryOptions): Promise<ILicenseExpiryReportModel | null> {
+    return this.licenseExpiryReportRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<ILicenseExpiryReportModel>,
+    update: UpdateQuery<ILicenseExpiryReportModel>,
+    options?: QueryOptions
+  ): Promise<ILicenseExpiryReportModel | null> {
+    return this.licenseExpiryReportRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<ILicenseExpiryReportModel>, options?: QueryOptions): Promise<void> {
+    return this.licenseExpiryReportRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.licenseExpiryReportRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.licenseExpiryReportRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<ILicenseExpiryReportModel>, options?: QueryOptions): Promise<boolean> {
+    return this.licenseExpiryReportRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
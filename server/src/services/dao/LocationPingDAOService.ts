@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {ILocationPingModel} from '../../models/LocationPing';
+import LocationPingRepository from '../../repositories/LocationPingRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class LocationPingDAOService implements ICrudDAO<ILocationPingModel> {
+  private locationPingRepository: LocationPingRepository;
+
+  constructor(locationPingRepository: LocationPingRepository) {
+    this.locationPingRepository = locationPingRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<ILocationPingModel>): Promise<ILocationPingModel[]> {
+    return this.locationPingRepository.bulkCreate(records)
+  }
+
+  create(values: ILocationPingModel): Promise<ILocationPingModel> {
+    return this.locationPingRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<ILocationPingModel>, options?: QueryOptions): Promise<ILocationPingModel[]> {
+    return this.locationPingRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<ILocationPingModel | null> {
+    return this.locationPingRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<ILocationPingModel>, options?: QueryOptions): Promise<ILocationPingModel | null> {
+    return this.locationPingRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<ILocationPingModel>, options: QueryOptions): Promise<ILocationPingModel | null> {
+    return this.locationPingRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<ILocationPingModel>,
+    update: UpdateQuery<ILocationPingModel>,
+    options?: QueryOptions
+  ): Promise<ILocationPingModel | null> {
+    return this.locationPingRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<ILocationPingModel>, options?: QueryOptions): Promise<void> {
+    return this.locationPingRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.locationPingRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.locationPingRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<ILocationPingModel>, options?: QueryOptions): Promise<boolean> {
+    return this.locationPingRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
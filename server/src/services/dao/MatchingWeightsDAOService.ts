@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IMatchingWeightsModel} from '../../models/MatchingWeights';
+import MatchingWeightsRepository from '../../repositories/MatchingWeightsRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class MatchingWeightsDAOService implements ICrudDAO<IMatchingWeightsModel> {
+  private matchingWeightsRepository: MatchingWeightsRepository;
+
+  constructor(matchingWeightsRepository: MatchingWeightsRepository) {
+    this.matchingWeightsRepository = matchingWeightsRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IMatchingWeightsModel>): Promise<IMatchingWeightsModel[]> {
+    return this.matchingWeightsRepository.bulkCreate(records)
+  }
+
+  create(values: IMatchingWeightsModel): Promise<IMatchingWeightsModel> {
+    return this.matchingWeightsRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IMatchingWeightsModel>, options?: QueryOptions): Promise<IMatchingWeightsModel[]> {
+    return this.matchingWeightsRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IMatchingWeightsModel | null> {
+    return this.matchingWeightsRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IMatchingWeightsModel>, options?: QueryOptions): Promise<IMatchingWeightsModel | null> {
+    return this.matchingWeightsRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IMatchingWeightsModel>, options: QueryOptions): Promise<IMatchingWeightsModel | null> {
+    return this.matchingWeightsRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IMatchingWeightsModel>,
+    update: UpdateQuery<IMatchingWeightsModel>,
+    options?: QueryOptions
+  ): Promise<IMatchingWeightsModel | null> {
+    return this.matchingWeightsRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IMatchingWeightsModel>, options?: QueryOptions): Promise<void> {
+    return this.matchingWeightsRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.matchingWeightsRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.matchingWeightsRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IMatchingWeightsModel>, options?: QueryOptions): Promise<boolean> {
+    return this.matchingWeightsRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
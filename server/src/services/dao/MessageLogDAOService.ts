@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IMessageLogModel} from '../../models/MessageLog';
+import MessageLogRepository from '../../repositories/MessageLogRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class MessageLogDAOService implements ICrudDAO<IMessageLogModel> {
+  private messageLogRepository: MessageLogRepository;
+
+  constructor(messageLogRepository: MessageLogRepository) {
+    this.messageLogRepository = messageLogRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IMessageLogModel>): Promise<IMessageLogModel[]> {
+    return this.messageLogRepository.bulkCreate(records)
+  }
+
+  create(values: IMessageLogModel): Promise<IMessageLogModel> {
+    return this.messageLogRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IMessageLogModel>, options?: QueryOptions): Promise<IMessageLogModel[]> {
+    return this.messageLogRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IMessageLogModel | null> {
+    return this.messageLogRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IMessageLogModel>, options?: QueryOptions): Promise<IMessageLogModel | null> {
+    return this.messageLogRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IMessageLogModel>, options: QueryOptions): Promise<IMessageLogModel | null> {
+    return this.messageLogRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IMessageLogModel>,
+    update: UpdateQuery<IMessageLogModel>,
+    options?: QueryOptions
+  ): Promise<IMessageLogModel | null> {
+    return this.messageLogRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IMessageLogModel>, options?: QueryOptions): Promise<void> {
+    return this.messageLogRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.messageLogRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.messageLogRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IMessageLogModel>, options?: QueryOptions): Promise<boolean> {
+    return this.messageLogRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IMessageTemplateModel} from '../../models/MessageTemplate';
+import MessageTemplateRepository from '../../repositories/MessageTemplateRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class MessageTemplateDAOService implements ICrudDAO<IMessageTemplateModel> {
+  private messageTemplateRepository: MessageTemplateRepository;
+
+  constructor(messageTemplateRepository: MessageTemplateRepository) {
+    this.messageTemplateRepository = messageTemplateRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IMessageTemplateModel>): Promise<IMessageTemplateModel[]> {
+    return this.messageTemplateRepository.bulkCreate(records)
+  }
+
+  create(values: IMessageTemplateModel): Promise<IMessageTemplateModel> {
+    return this.messageTemplateRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IMessageTemplateModel>, options?: QueryOptions): Promise<IMessageTemplateModel[]> {
+    return this.messageTemplateRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IMessageTemplateModel | null> {
+    return this.messageTemplateRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IMessageTemplateModel>, options?: QueryOptions): Promise<IMessageTemplateModel | null> {
+    return this.messageTemplateRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IMessageTemplateModel>, options: QueryOptions): Promise<IMessageTemplateModel | null> {
+    return this.messageTemplateRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IMessageTemplateModel>,
+    update: UpdateQuery<IMessageTemplateModel>,
+    options?: QueryOptions
+  ): Promise<IMessageTemplateModel | null> {
+    return this.messageTemplateRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IMessageTemplateModel>, options?: QueryOptions): Promise<void> {
+    return this.messageTemplateRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.messageTemplateRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.messageTemplateRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IMessageTemplateModel>, options?: QueryOptions): Promise<boolean> {
+    return this.messageTemplateRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {INotificationPreferenceModel} from '../../models/NotificationPreference';
+import NotificationPreferenceRepository from '../../repositories/NotificationPreferenceRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class NotificationPreferenceDAOService implements ICrudDAO<INotificationPreferenceModel> {
+  private notificationPreferenceRepository: NotificationPreferenceRepository;
+
+  constructor(notificationPreferenceRepository: NotificationPreferenceRepository) {
+    this.notificationPreferenceRepository = notificationPreferenceRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<INotificationPreferenceModel>): Promise<INotificationPreferenceModel[]> {
+    return this.notificationPreferenceRepository.bulkCreate(records)
+  }
+
+  create(values: INotificationPreferenceModel): Promise<INotificationPreferenceModel> {
+    return this.notificationPreferenceRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<INotificationPreferenceModel>, options?: QueryOptions): Promise<INotificationPreferenceModel[]> {
+    return this.notificationPreferenceRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<INotificationPreferenceModel | null> {
+    return this.notificationPreferenceRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<INotificationPreferenceModel>, options?: QueryOptions): Promise<INotificationPreferenceModel | null> {
+    return this.notificationPreferenceRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<INotificationPreferenceModel>, options: QueryOptions): Promise<INotificationPreferenceModel | null> {
+    return this.notificationPreferenceRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<INotificationPreferenceModel>,
+    update: UpdateQuery<INotificationPreferenceModel>,
+    options?: QueryOptions
+  ): Promise<INotificationPreferenceModel | null> {
+    return this.notificationPreferenceRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<INotificationPreferenceModel>, options?: QueryOptions): Promise<void> {
+    return this.notificationPreferenceRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.notificationPreferenceRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.notificationPreferenceRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<INotificationPreferenceModel>, options?: QueryOptions): Promise<boolean> {
+    return this.notificationPreferenceRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
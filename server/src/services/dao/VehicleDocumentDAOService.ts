@@ -0,0 +1,64 @@
+import { FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import {IVehicleDocumentModel} from '../../models/VehicleDocument';
+import VehicleDocumentRepository from '../../repositories/VehicleDocumentRepository';
+
+import { appModelTypes } from '../../@types/app-model';
+import ICrudDAO = appModelTypes.ICrudDAO;
+
+export default class VehicleDocumentDAOService implements ICrudDAO<IVehicleDocumentModel> {
+  private vehicleDocumentRepository: VehicleDocumentRepository;
+
+  constructor(vehicleDocumentRepository: VehicleDocumentRepository) {
+    this.vehicleDocumentRepository = vehicleDocumentRepository
+  }
+
+  //@ts-ignore
+  insertMany(records: ReadonlyArray<IVehicleDocumentModel>): Promise<IVehicleDocumentModel[]> {
+    return this.vehicleDocumentRepository.bulkCreate(records)
+  }
+
+  create(values: IVehicleDocumentModel): Promise<IVehicleDocumentModel> {
+    return this.vehicleDocumentRepository.save(values);
+  }
+
+  findAll(filter?: FilterQuery<IVehicleDocumentModel>, options?: QueryOptions): Promise<IVehicleDocumentModel[]> {
+    return this.vehicleDocumentRepository.findAll(filter, options);
+  }
+
+  findById(id: any, options?: QueryOptions): Promise<IVehicleDocumentModel | null> {
+    return this.vehicleDocumentRepository.findById(id, options);
+  }
+
+  findByAny(filter: FilterQuery<IVehicleDocumentModel>, options?: QueryOptions): Promise<IVehicleDocumentModel | null> {
+    return this.vehicleDocumentRepository.findOne(filter, options);
+  }
+
+  update(update: UpdateQuery<IVehicleDocumentModel>, options: QueryOptions): Promise<IVehicleDocumentModel | null> {
+    return this.vehicleDocumentRepository.update(update, { new: true, ...options });
+  }
+
+  updateByAny(
+    filter: FilterQuery<IVehicleDocumentModel>,
+    update: UpdateQuery<IVehicleDocumentModel>,
+    options?: QueryOptions
+  ): Promise<IVehicleDocumentModel | null> {
+    return this.vehicleDocumentRepository.updateByAny(filter, update, options)
+  }
+
+  deleteByAny(filter: FilterQuery<IVehicleDocumentModel>, options?: QueryOptions): Promise<void> {
+    return this.vehicleDocumentRepository.deleteByAny(filter, options);
+  }
+
+  deleteAll(options?: QueryOptions): Promise<void> {
+    return this.vehicleDocumentRepository.deleteAll(options);
+  }
+
+  deleteById(id: any, options?: QueryOptions): Promise<void> {
+    return this.vehicleDocumentRepository.deleteById(id, options);
+  }
+
+  exist(filter: FilterQuery<IVehicleDocumentModel>, options?: QueryOptions): Promise<boolean> {
+    return this.vehicleDocumentRepository.exist(filter, options);
+  }
+
+}
\ No newline at end of file
@@ -23,6 +23,21 @@ import TikLogDocsRepository from "../../repositories/TikLogDocsRepository";
 import FAQRepository from "../../repositories/FAQRepository";
 import ChatMessageRepository from "../../repositories/ChatMessageRepository";
 import ChatRepository from "../../repositories/ChatRepository";
+import DeliveryEventRepository from "../../repositories/DeliveryEventRepository";
+import FareRuleRepository from "../../repositories/FareRuleRepository";
+import LedgerEntryRepository from "../../repositories/LedgerEntryRepository";
+import LocationPingRepository from "../../repositories/LocationPingRepository";
+import InboxNotificationRepository from "../../repositories/InboxNotificationRepository";
+import DeviceTokenRepository from "../../repositories/DeviceTokenRepository";
+import NotificationPreferenceRepository from "../../repositories/NotificationPreferenceRepository";
+import MessageTemplateRepository from "../../repositories/MessageTemplateRepository";
+import MessageLogRepository from "../../repositories/MessageLogRepository";
+import KycCaseRepository from "../../repositories/KycCaseRepository";
+import KycEventRepository from "../../repositories/KycEventRepository";
+import LicenseExpiryReportRepository from "../../repositories/LicenseExpiryReportRepository";
+import VehicleDocumentRepository from "../../repositories/VehicleDocumentRepository";
+import MatchingWeightsRepository from "../../repositories/MatchingWeightsRepository";
+import LedgerJournalRepository from "../../repositories/LedgerJournalRepository";
 
 import PermissionDAOService from "./PermissionDAOService";
 import RoleDAOService from "./RoleDAOService";
@@ -49,6 +64,21 @@ import TikLogDocsDAOService from "./TikLogDocsDAOService";
 import FAQDAOService from "./FAQDAOService";
 import ChatDAOService from "./ChatDAOService";
 import ChatMessageDAOService from "./ChatMessageDAOService";
+import DeliveryEventDAOService from "./DeliveryEventDAOService";
+import FareRuleDAOService from "./FareRuleDAOService";
+import LedgerEntryDAOService from "./LedgerEntryDAOService";
+import LocationPingDAOService from "./LocationPingDAOService";
+import InboxNotificationDAOService from "./InboxNotificationDAOService";
+import DeviceTokenDAOService from "./DeviceTokenDAOService";
+import NotificationPreferenceDAOService from "./NotificationPreferenceDAOService";
+import MessageTemplateDAOService from "./MessageTemplateDAOService";
+import MessageLogDAOService from "./MessageLogDAOService";
+import KycCaseDAOService from "./KycCaseDAOService";
+import KycEventDAOService from "./KycEventDAOService";
+import LicenseExpiryReportDAOService from "./LicenseExpiryReportDAOService";
+import VehicleDocumentDAOService from "./VehicleDocumentDAOService";
+import MatchingWeightsDAOService from "./MatchingWeightsDAOService";
+import LedgerJournalDAOService from "./LedgerJournalDAOService";
 
 const permissionRepository = new PermissionRepository();
 const roleRepository = new RoleRepository();
@@ -75,6 +105,21 @@ const tikLogDocsRepository = new TikLogDocsRepository();
 const faqRepository = new FAQRepository();
 const chatMessageRepository = new ChatMessageRepository();
 const chatRepository = new ChatRepository();
+const deliveryEventRepository = new DeliveryEventRepository();
+const fareRuleRepository = new FareRuleRepository();
+const ledgerEntryRepository = new LedgerEntryRepository();
+const locationPingRepository = new LocationPingRepository();
+const inboxNotificationRepository = new InboxNotificationRepository();
+const deviceTokenRepository = new DeviceTokenRepository();
+const notificationPreferenceRepository = new NotificationPreferenceRepository();
+const messageTemplateRepository = new MessageTemplateRepository();
+const messageLogRepository = new MessageLogRepository();
+const kycCaseRepository = new KycCaseRepository();
+const kycEventRepository = new KycEventRepository();
+const licenseExpiryReportRepository = new LicenseExpiryReportRepository();
+const vehicleDocumentRepository = new VehicleDocumentRepository();
+const matchingWeightsRepository = new MatchingWeightsRepository();
+const ledgerJournalRepository = new LedgerJournalRepository();
 
 const permissionDAOService = new PermissionDAOService(permissionRepository);
 const roleDAOService = new RoleDAOService(roleRepository);
@@ -101,6 +146,21 @@ const tikLogDocsDAOService = new TikLogDocsDAOService(tikLogDocsRepository);
 const faqDAOService = new FAQDAOService(faqRepository);
 const chatMessageDAOService = new ChatMessageDAOService(chatMessageRepository);
 const chatDAOService = new ChatDAOService(chatRepository);
+const deliveryEventDAOService = new DeliveryEventDAOService(deliveryEventRepository);
+const fareRuleDAOService = new FareRuleDAOService(fareRuleRepository);
+const ledgerEntryDAOService = new LedgerEntryDAOService(ledgerEntryRepository);
+const locationPingDAOService = new LocationPingDAOService(locationPingRepository);
+const inboxNotificationDAOService = new InboxNotificationDAOService(inboxNotificationRepository);
+const deviceTokenDAOService = new DeviceTokenDAOService(deviceTokenRepository);
+const notificationPreferenceDAOService = new NotificationPreferenceDAOService(notificationPreferenceRepository);
+const messageTemplateDAOService = new MessageTemplateDAOService(messageTemplateRepository);
+const messageLogDAOService = new MessageLogDAOService(messageLogRepository);
+const kycCaseDAOService = new KycCaseDAOService(kycCaseRepository);
+const kycEventDAOService = new KycEventDAOService(kycEventRepository);
+const licenseExpiryReportDAOService = new LicenseExpiryReportDAOService(licenseExpiryReportRepository);
+const vehicleDocumentDAOService = new VehicleDocumentDAOService(vehicleDocumentRepository);
+const matchingWeightsDAOService = new MatchingWeightsDAOService(matchingWeightsRepository);
+const ledgerJournalDAOService = new LedgerJournalDAOService(ledgerJournalRepository);
 
 export default {
     chatMessageDAOService,
@@ -127,5 +187,20 @@ export default {
     adminFeeDAOService,
     paymentRequestDAOService,
     tikLogDocsDAOService,
-    faqDAOService
+    faqDAOService,
+    deliveryEventDAOService,
+    fareRuleDAOService,
+    ledgerEntryDAOService,
+    locationPingDAOService,
+    inboxNotificationDAOService,
+    deviceTokenDAOService,
+    notificationPreferenceDAOService,
+    messageTemplateDAOService,
+    messageLogDAOService,
+    kycCaseDAOService,
+    kycEventDAOService,
+    licenseExpiryReportDAOService,
+    vehicleDocumentDAOService,
+    matchingWeightsDAOService,
+    ledgerJournalDAOService
 }
\ No newline at end of file
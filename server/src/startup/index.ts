@@ -1,26 +1,54 @@
-import { AGENDA_COLLECTION_NAME } from '../config/constants';
+import {
+  DELIVERY_REFUND_RECOVERY_JOB,
+  DELIVERY_SETTLEMENT_RECOVERY_JOB,
+  DISPATCH_OFFER_EXPIRY,
+  LEDGER_JOURNAL_RECOVERY_JOB,
+  LICENSE_EXPIRY_JOB,
+  SCHEDULED_DELIVERY_RELEASE,
+  SCHEDULED_DELIVERY_REMINDER
+} from '../config/constants';
+import agenda from '../config/agenda';
 import database from '../config/database';
 import dataStore from '../config/dataStore';
 import CommandLineRunner from '../helpers/CommandLineRunner';
 import CronJob from '../helpers/CronJob';
-import { Agenda } from 'agenda';
 
 export default async function startup() {
   dataStore.init();
   await database.mongodb();
   await CommandLineRunner.run();
 
-  const agenda = new Agenda({
-    db: {
-      address: database.mongoUrl,
-      collection: AGENDA_COLLECTION_NAME,
-    },
+  agenda.define(LICENSE_EXPIRY_JOB, { concurrency: 1 }, async (job: any) => {
+    await CronJob.vehicleLicenseIsExpired()
   });
 
-  agenda.define('vehicleLicenseIsExpired', { concurrency: 1 }, async (job: any) => {
-    await CronJob.vehicleLicenseIsExpired()
+  agenda.define(SCHEDULED_DELIVERY_RELEASE, async (job: any) => {
+    await CronJob.releaseScheduledDelivery(job.attrs.data.deliveryId)
+  });
+
+  agenda.define(SCHEDULED_DELIVERY_REMINDER, async (job: any) => {
+    await CronJob.remindScheduledDelivery(job.attrs.data.deliveryId)
+  });
+
+  agenda.define(DISPATCH_OFFER_EXPIRY, async (job: any) => {
+    await CronJob.expireDispatchOffer(job.attrs.data.deliveryRefNumber, job.attrs.data.riderId)
+  });
+
+  agenda.define(LEDGER_JOURNAL_RECOVERY_JOB, { concurrency: 1 }, async (job: any) => {
+    await CronJob.finishLedgerJournals()
+  });
+
+  agenda.define(DELIVERY_REFUND_RECOVERY_JOB, { concurrency: 1 }, async (job: any) => {
+    await CronJob.finishDeliveryRefunds()
+  });
+
+  agenda.define(DELIVERY_SETTLEMENT_RECOVERY_JOB, { concurrency: 1 }, async (job: any) => {
+    await CronJob.finishDeliverySettlements()
   });
 
   await agenda.start();
-  await agenda.every('0 0 * * *', 'vehicleLicenseIsExpired');
+  await agenda.every('0 0 * * *', LICENSE_EXPIRY_JOB);
+  await agenda.every('5 minutes', LEDGER_JOURNAL_RECOVERY_JOB);
+  await agenda.every('5 minutes', DELIVERY_REFUND_RECOVERY_JOB);
+  await agenda.every('5 minutes', DELIVERY_SETTLEMENT_RECOVERY_JOB);
 }